@@ -24,15 +24,28 @@ CREATE TABLE IF NOT EXISTS customers (
   occupation VARCHAR(100),
   location VARCHAR(100),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  deleted_at TIMESTAMP NULL DEFAULT NULL, -- Set while the customer is in the trash
+  deleted_by INT NULL DEFAULT NULL, -- User who moved the customer to the trash
+  INDEX idx_customers_deleted_at (deleted_at),
+  INDEX idx_customers_name (name),
+  INDEX idx_customers_created_at (created_at),
+  CONSTRAINT fk_customers_deleted_by FOREIGN KEY (deleted_by) REFERENCES users(id) ON DELETE SET NULL
 );
 
 -- Custom fields table
 CREATE TABLE IF NOT EXISTS custom_fields (
   id INT AUTO_INCREMENT PRIMARY KEY,
   name VARCHAR(100) NOT NULL,
-  type ENUM('text', 'number', 'date', 'select') NOT NULL,
-  options JSON, -- For select fields
+  type ENUM('text', 'number', 'date', 'select', 'boolean', 'multiselect', 'url', 'email', 'phone', 'formula', 'relation') NOT NULL,
+  options JSON, -- Select and multiselect choices: [{value, label, color, description}]
+  validation JSON, -- Validation rules, see src/utils/validation.ts
+  formula TEXT, -- Expression of formula fields, see src/utils/formula.ts
+  visibility JSON, -- Show-when conditions, see src/utils/visibility.ts
+  default_value JSON, -- Value new customers start with
+  position INT NOT NULL DEFAULT 0, -- Display order
+  section VARCHAR(100), -- Form section the field is grouped under
+  archived_at TIMESTAMP NULL DEFAULT NULL, -- Archived fields are hidden but keep their values
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 );
@@ -43,18 +56,105 @@ CREATE TABLE IF NOT EXISTS customer_field_values (
   customer_id INT NOT NULL,
   field_id INT NOT NULL,
   value TEXT,
+  INDEX idx_customer_field_values_customer_field (customer_id, field_id),
   FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE,
   FOREIGN KEY (field_id) REFERENCES custom_fields(id) ON DELETE CASCADE
 );
 
+-- Tags table; free-form labels a customer can carry any number of
+CREATE TABLE IF NOT EXISTS tags (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  name VARCHAR(50) NOT NULL UNIQUE, -- Unique regardless of case (the default collation ignores it)
+  color VARCHAR(20), -- One of the option colors, see src/utils/data.ts
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+-- Customer tags table
+CREATE TABLE IF NOT EXISTS customer_tags (
+  customer_id INT NOT NULL,
+  tag_id INT NOT NULL,
+  PRIMARY KEY (customer_id, tag_id),
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE,
+  FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+);
+
+-- Customer notes table; a timeline of notes attributed to their author
+CREATE TABLE IF NOT EXISTS customer_notes (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  customer_id INT NOT NULL,
+  user_id INT, -- Author; kept as NULL when the user is removed
+  body TEXT NOT NULL,
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  edited_at TIMESTAMP NULL DEFAULT NULL, -- Last change to the body by its author
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Per-user settings such as the customer table layout, stored as JSON under a key
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id INT NOT NULL,
+  pref_key VARCHAR(64) NOT NULL,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, pref_key),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Named views of the customer list, private or shared with the team
+CREATE TABLE IF NOT EXISTS saved_views (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  shared BOOLEAN NOT NULL DEFAULT FALSE,
+  state TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_saved_views_user_name (user_id, name),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- The view each user's customer list opens with
+CREATE TABLE IF NOT EXISTS user_default_views (
+  user_id INT PRIMARY KEY,
+  view_id INT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (view_id) REFERENCES saved_views(id) ON DELETE CASCADE
+);
+
 -- Insert default admin user
 INSERT INTO users (name, email, password, role)
 VALUES ('Admin', 'admin@example.com', '$2b$10$1RQs1Z8u4.L/yw.NyDtjKOGrwS/WwIRYdtQWEDJ4odxvXA/hVWH22', 'admin');
 -- Password is 'password'
 
 -- Insert default custom fields
-INSERT INTO custom_fields (name, type, options)
+INSERT INTO custom_fields (name, type, options, position)
 VALUES 
-  ('Notes', 'text', NULL),
-  ('Customer Type', 'select', '["Regular", "VIP", "Corporate"]'),
-  ('Annual Revenue', 'number', NULL);
+  ('Notes', 'text', NULL, 0),
+  ('Customer Type', 'select', '[{"value": "Regular", "label": "Regular", "color": "gray"}, {"value": "VIP", "label": "VIP", "color": "amber"}, {"value": "Corporate", "label": "Corporate", "color": "blue"}]', 1),
+  ('Annual Revenue', 'number', NULL, 2);
+
+-- Migrations already reflected in this schema (see migrate.js)
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  name VARCHAR(255) PRIMARY KEY,
+  applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO schema_migrations (name)
+VALUES
+  ('001_extended_field_types.sql'),
+  ('002_custom_field_validation.sql'),
+  ('003_custom_field_ordering.sql'),
+  ('004_archive_custom_fields.sql'),
+  ('005_formula_fields.sql'),
+  ('006_custom_field_visibility.sql'),
+  ('007_custom_field_defaults.sql'),
+  ('008_option_objects.js'),
+  ('009_relation_fields.sql'),
+  ('010_customer_tags.sql'),
+  ('011_customer_notes.sql'),
+  ('012_customer_trash.sql'),
+  ('013_user_preferences.sql'),
+  ('014_customer_list_indexes.sql'),
+  ('015_saved_views.sql');
@@ -4,6 +4,7 @@ const cors = require('cors');
 const mysql = require('mysql2/promise');
 const bodyParser = require('body-parser');
 require('dotenv').config();
+const { scheduleTrashPurge } = require('./utils/trash');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -36,10 +37,16 @@ app.get('/api/health', async (req, res) => {
 });
 
 // Routes
+app.use('/api/customers/:customerId/notes', require('./routes/notes'));
 app.use('/api/customers', require('./routes/customers'));
 app.use('/api/custom-fields', require('./routes/customFields'));
+app.use('/api/tags', require('./routes/tags'));
+app.use('/api/preferences', require('./routes/preferences'));
+app.use('/api/views', require('./routes/views'));
 app.use('/api/auth', require('./routes/auth'));
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  // Customers past the trash retention period are purged for good
+  scheduleTrashPurge();
 });
@@ -0,0 +1,58 @@
+const fs = require('fs');
+const path = require('path');
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+// Apply every migration in ./migrations that has not been recorded yet.
+// SQL files are executed as-is, JS files must export an async `up(connection)`.
+const migrate = async () => {
+  const connection = await mysql.createConnection({
+    host: process.env.DB_HOST || 'localhost',
+    user: process.env.DB_USER || 'root',
+    password: process.env.DB_PASSWORD || '',
+    database: process.env.DB_NAME || 'customer_management',
+    multipleStatements: true
+  });
+
+  try {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        name VARCHAR(255) PRIMARY KEY,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const [applied] = await connection.query('SELECT name FROM schema_migrations');
+    const appliedNames = new Set(applied.map(row => row.name));
+
+    const files = fs.readdirSync(MIGRATIONS_DIR)
+      .filter(file => file.endsWith('.sql') || file.endsWith('.js'))
+      .sort();
+
+    for (const file of files) {
+      if (appliedNames.has(file)) continue;
+
+      console.log(`Applying migration ${file}`);
+      const filePath = path.join(MIGRATIONS_DIR, file);
+
+      if (file.endsWith('.sql')) {
+        await connection.query(fs.readFileSync(filePath, 'utf8'));
+      } else {
+        await require(filePath).up(connection);
+      }
+
+      await connection.query('INSERT INTO schema_migrations (name) VALUES (?)', [file]);
+    }
+
+    console.log('Migrations complete');
+  } finally {
+    await connection.end();
+  }
+};
+
+migrate().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
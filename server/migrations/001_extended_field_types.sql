@@ -0,0 +1,3 @@
+-- Add boolean, multi-select, URL, email and phone custom field types
+ALTER TABLE custom_fields
+  MODIFY COLUMN type ENUM('text', 'number', 'date', 'select', 'boolean', 'multiselect', 'url', 'email', 'phone') NOT NULL;
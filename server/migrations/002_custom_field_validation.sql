@@ -0,0 +1,3 @@
+-- Per-field validation rules (required, min/max, date range, max length, pattern)
+ALTER TABLE custom_fields
+  ADD COLUMN validation JSON NULL AFTER options;
@@ -0,0 +1,8 @@
+-- Custom field ordering and grouping into form sections
+ALTER TABLE custom_fields
+  ADD COLUMN position INT NOT NULL DEFAULT 0 AFTER validation,
+  ADD COLUMN section VARCHAR(100) NULL AFTER position;
+
+-- Keep the previous alphabetical order as the starting point
+SET @position := -1;
+UPDATE custom_fields SET position = (@position := @position + 1) ORDER BY name;
@@ -0,0 +1,3 @@
+-- Archived fields are hidden from forms but keep their stored values
+ALTER TABLE custom_fields
+  ADD COLUMN archived_at TIMESTAMP NULL DEFAULT NULL AFTER section;
@@ -0,0 +1,4 @@
+-- Formula fields compute their value from an expression instead of storing one
+ALTER TABLE custom_fields
+  MODIFY COLUMN type ENUM('text', 'number', 'date', 'select', 'boolean', 'multiselect', 'url', 'email', 'phone', 'formula') NOT NULL,
+  ADD COLUMN formula TEXT NULL AFTER validation;
@@ -0,0 +1,3 @@
+-- Show-when conditions: {match: 'all'|'any', conditions: [{fieldId, operator, value}]}
+ALTER TABLE custom_fields
+  ADD COLUMN visibility JSON NULL AFTER formula;
@@ -0,0 +1,3 @@
+-- Default values: {kind: 'static', value} | {kind: 'today'} | {kind: 'firstOption'}
+ALTER TABLE custom_fields
+  ADD COLUMN default_value JSON NULL AFTER visibility;
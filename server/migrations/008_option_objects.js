@@ -0,0 +1,35 @@
+// Select options used to be plain strings. Turn them into
+// { value, label, color } objects; the value is the old string, so the
+// values customers already store keep matching their option.
+
+const toOptionObjects = (options) =>
+  options
+    .filter(option => option !== null && option !== undefined && String(option).trim() !== '')
+    .map(option => (typeof option === 'object'
+      ? option
+      : { value: String(option).trim(), label: String(option).trim(), color: null }));
+
+const up = async (connection) => {
+  const [fields] = await connection.query('SELECT id, options FROM custom_fields WHERE options IS NOT NULL');
+  
+  for (const field of fields) {
+    let options = field.options;
+    // Older clients double-encoded the column; unwrap until we reach the array
+    while (typeof options === 'string') {
+      try {
+        options = JSON.parse(options);
+      } catch (error) {
+        // Comma separated text from very old rows
+        options = options.split(',');
+      }
+    }
+    if (!Array.isArray(options)) continue;
+    
+    await connection.query(
+      'UPDATE custom_fields SET options = ? WHERE id = ?',
+      [JSON.stringify(toOptionObjects(options)), field.id]
+    );
+  }
+};
+
+module.exports = { up };
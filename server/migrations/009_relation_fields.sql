@@ -0,0 +1,3 @@
+-- Relation fields link a customer to other customers; values are JSON arrays of customer ids
+ALTER TABLE custom_fields
+  MODIFY COLUMN type ENUM('text', 'number', 'date', 'select', 'boolean', 'multiselect', 'url', 'email', 'phone', 'formula', 'relation') NOT NULL;
@@ -0,0 +1,16 @@
+-- Tags are free-form labels; a customer can carry any number of them
+CREATE TABLE IF NOT EXISTS tags (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  name VARCHAR(50) NOT NULL UNIQUE, -- Unique regardless of case (the default collation ignores it)
+  color VARCHAR(20), -- One of the option colors, see src/utils/data.ts
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS customer_tags (
+  customer_id INT NOT NULL,
+  tag_id INT NOT NULL,
+  PRIMARY KEY (customer_id, tag_id),
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE,
+  FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+);
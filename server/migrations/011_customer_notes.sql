@@ -0,0 +1,12 @@
+-- Timeline of notes on a customer; notes are attributed to the user who wrote them
+CREATE TABLE IF NOT EXISTS customer_notes (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  customer_id INT NOT NULL,
+  user_id INT, -- Author; kept as NULL when the user is removed
+  body TEXT NOT NULL,
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  edited_at TIMESTAMP NULL DEFAULT NULL, -- Last change to the body by its author
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
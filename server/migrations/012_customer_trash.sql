@@ -0,0 +1,6 @@
+-- Deleted customers go to the trash first; they are purged for good after the retention period
+ALTER TABLE customers
+  ADD COLUMN deleted_at TIMESTAMP NULL DEFAULT NULL AFTER updated_at,
+  ADD COLUMN deleted_by INT NULL DEFAULT NULL AFTER deleted_at,
+  ADD INDEX idx_customers_deleted_at (deleted_at),
+  ADD CONSTRAINT fk_customers_deleted_by FOREIGN KEY (deleted_by) REFERENCES users(id) ON DELETE SET NULL;
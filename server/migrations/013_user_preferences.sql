@@ -0,0 +1,9 @@
+-- Per-user settings such as the customer table layout, stored as JSON under a key
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id INT NOT NULL,
+  pref_key VARCHAR(64) NOT NULL,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, pref_key),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
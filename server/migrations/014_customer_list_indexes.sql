@@ -0,0 +1,8 @@
+-- The customer list is paged on the server; these back its default order, the name sort
+-- and the lookups of a customer's value for a custom field sort
+ALTER TABLE customers
+  ADD INDEX idx_customers_name (name),
+  ADD INDEX idx_customers_created_at (created_at);
+
+ALTER TABLE customer_field_values
+  ADD INDEX idx_customer_field_values_customer_field (customer_id, field_id);
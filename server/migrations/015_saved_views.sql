@@ -0,0 +1,21 @@
+-- Named views of the customer list (search, filters, sort, columns and view mode). Views
+-- belong to the user who saved them and can be shared with the team.
+CREATE TABLE IF NOT EXISTS saved_views (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  shared BOOLEAN NOT NULL DEFAULT FALSE,
+  state TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_saved_views_user_name (user_id, name),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- The view each user's customer list opens with
+CREATE TABLE IF NOT EXISTS user_default_views (
+  user_id INT PRIMARY KEY,
+  view_id INT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (view_id) REFERENCES saved_views(id) ON DELETE CASCADE
+);
@@ -2,38 +2,108 @@
 const express = require('express');
 const router = express.Router();
 const pool = require('../db');
+const {
+  findDuplicateValues,
+  findValueConflict,
+  formatField,
+  parseOptionsColumn,
+  resolveDefaultValue,
+  toJsonColumn,
+  toOptionsColumn
+} = require('../utils/customFields');
+const { convertStoredValue, renameStoredOptions } = require('../utils/fieldConversion');
 
-// Get all custom fields
+const MAX_PREVIEW_FAILURES = 10;
+
+// The values shared by several customers, for an error message; long lists are cut short
+const describeDuplicates = (duplicates) => {
+  const listed = duplicates
+    .slice(0, MAX_PREVIEW_FAILURES)
+    .map(duplicate => `"${duplicate.value}" is used by ${duplicate.customers.map(customer => customer.customerName).join(', ')}`);
+  const more = duplicates.length - listed.length;
+  return listed.join('; ') + (more > 0 ? `; and ${more} more` : '');
+};
+
+// Work out what happens to every stored value of a field when its definition changes:
+// option renames are applied first, then values are converted to the new type/options.
+const planValueMigration = async (connection, current, { type, options, optionRenames }) => {
+  const [rows] = await connection.query(`
+    SELECT cfv.id, cfv.customer_id, cfv.value, c.name AS customer_name
+    FROM customer_field_values cfv
+    JOIN customers c ON c.id = cfv.customer_id
+    WHERE cfv.field_id = ?
+  `, [current.id]);
+  
+  const hasOptions = current.type === 'select' || current.type === 'multiselect';
+  const renames = hasOptions && Array.isArray(optionRenames) ? optionRenames : [];
+  const targetOptions = Array.isArray(options) ? options : [];
+  
+  return rows
+    .filter(row => row.value !== null && row.value !== '')
+    .map(row => {
+      const renamed = renameStoredOptions(row.value, current.type, renames);
+      const result = convertStoredValue(renamed, current.type, type, targetOptions);
+      return { ...row, original: row.value, ok: result.ok, value: result.value };
+    });
+};
+
+// Get all custom fields; archived fields are only included on request
 router.get('/', async (req, res) => {
+  const includeArchived = req.query.includeArchived === 'true';
+  
   try {
-    const [fields] = await pool.query('SELECT * FROM custom_fields ORDER BY name');
-    res.json(fields.map(field => ({
-      id: field.id,
-      name: field.name,
-      type: field.type,
-      options: field.options ? JSON.parse(field.options) : undefined
-    })));
+    const [fields] = await pool.query(`
+      SELECT * FROM custom_fields
+      ${includeArchived ? '' : 'WHERE archived_at IS NULL'}
+      ORDER BY position, id
+    `);
+    res.json(fields.map(formatField));
   } catch (error) {
     console.error('Error fetching custom fields:', error);
     res.status(500).json({ error: 'Failed to fetch custom fields' });
   }
 });
 
+// Formula fields need an expression to compute their value from
+const checkFormula = (type, formula, res) => {
+  if (type === 'formula' && (typeof formula !== 'string' || formula.trim() === '')) {
+    res.status(400).json({ error: 'Formula fields require a formula' });
+    return false;
+  }
+  return true;
+};
+
 // Create a new custom field
 router.post('/', async (req, res) => {
-  const { name, type, options } = req.body;
+  const { name, type, options, validation, visibility, defaultValue, section } = req.body;
+  const formula = type === 'formula' ? req.body.formula : null;
+  
+  if (!checkFormula(type, formula, res)) {
+    return;
+  }
   
   try {
+    // New fields go to the end of the list
+    const [[{ nextPosition }]] = await pool.query(
+      'SELECT COALESCE(MAX(position) + 1, 0) AS nextPosition FROM custom_fields'
+    );
+    
     const [result] = await pool.query(
-      'INSERT INTO custom_fields (name, type, options) VALUES (?, ?, ?)',
-      [name, type, options ? JSON.stringify(options) : null]
+      'INSERT INTO custom_fields (name, type, options, validation, formula, visibility, default_value, position, section) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [name, type, toOptionsColumn(options), toJsonColumn(validation), formula, toJsonColumn(visibility), toJsonColumn(defaultValue), nextPosition, section || null]
     );
     
     res.status(201).json({
       id: result.insertId,
       name,
       type,
-      options
+      options: parseOptionsColumn(options) || null,
+      validation: validation || null,
+      formula,
+      visibility: visibility || null,
+      defaultValue: defaultValue || null,
+      position: nextPosition,
+      section: section || null
     });
   } catch (error) {
     console.error('Error creating custom field:', error);
@@ -41,33 +111,301 @@ router.post('/', async (req, res) => {
   }
 });
 
-// Update a custom field
+// Save the order and sections of all fields at once
+router.put('/order', async (req, res) => {
+  const { fields } = req.body;
+  
+  if (!Array.isArray(fields)) {
+    return res.status(400).json({ error: 'fields must be an array of {id, position, section}' });
+  }
+  
+  const connection = await pool.getConnection();
+  
+  try {
+    await connection.beginTransaction();
+    
+    for (const field of fields) {
+      await connection.query(
+        'UPDATE custom_fields SET position = ?, section = ? WHERE id = ?',
+        [field.position, field.section || null, field.id]
+      );
+    }
+    
+    await connection.commit();
+    
+    const [updated] = await connection.query('SELECT * FROM custom_fields ORDER BY position, id');
+    res.json(updated.map(formatField));
+  } catch (error) {
+    await connection.rollback();
+    console.error('Error reordering custom fields:', error);
+    res.status(500).json({ error: 'Failed to reorder custom fields' });
+  } finally {
+    connection.release();
+  }
+});
+
+// Dry run of a definition change: how many existing values convert cleanly
+router.post('/:id/preview', async (req, res) => {
+  const { type, options, optionRenames } = req.body;
+  
+  try {
+    const [fields] = await pool.query('SELECT * FROM custom_fields WHERE id = ?', [req.params.id]);
+    if (fields.length === 0) {
+      return res.status(404).json({ error: 'Custom field not found' });
+    }
+    
+    const plan = await planValueMigration(pool, formatField(fields[0]), {
+      type,
+      options: parseOptionsColumn(options),
+      optionRenames
+    });
+    const failures = plan.filter(entry => !entry.ok);
+    
+    res.json({
+      total: plan.length,
+      convertible: plan.length - failures.length,
+      failed: failures.length,
+      failures: failures.slice(0, MAX_PREVIEW_FAILURES).map(entry => ({
+        customerId: entry.customer_id.toString(),
+        customerName: entry.customer_name,
+        value: entry.original
+      }))
+    });
+  } catch (error) {
+    console.error('Error previewing custom field change:', error);
+    res.status(500).json({ error: 'Failed to preview custom field change' });
+  }
+});
+
+// Update a custom field, migrating existing values to the new definition
 router.put('/:id', async (req, res) => {
-  const { name, type, options } = req.body;
+  const { name, type, options, validation, visibility, defaultValue, section, optionRenames } = req.body;
+  const formula = type === 'formula' ? req.body.formula : null;
+  
+  if (!checkFormula(type, formula, res)) {
+    return;
+  }
+  
+  const connection = await pool.getConnection();
   
   try {
-    await pool.query(
-      'UPDATE custom_fields SET name = ?, type = ?, options = ? WHERE id = ?',
-      [name, type, options ? JSON.stringify(options) : null, req.params.id]
+    const [fields] = await connection.query('SELECT * FROM custom_fields WHERE id = ?', [req.params.id]);
+    if (fields.length === 0) {
+      return res.status(404).json({ error: 'Custom field not found' });
+    }
+    
+    const previous = formatField(fields[0]);
+    const plan = await planValueMigration(connection, previous, {
+      type,
+      options: parseOptionsColumn(options),
+      optionRenames
+    });
+    
+    await connection.beginTransaction();
+    
+    await connection.query(
+      'UPDATE custom_fields SET name = ?, type = ?, options = ?, validation = ?, formula = ?, visibility = ?, default_value = ?, section = ? WHERE id = ?',
+      [name, type, toOptionsColumn(options), toJsonColumn(validation), formula, toJsonColumn(visibility), toJsonColumn(defaultValue), section || null, req.params.id]
     );
     
+    let converted = 0;
+    let cleared = 0;
+    for (const entry of plan) {
+      if (!entry.ok || entry.value === null) {
+        await connection.query('DELETE FROM customer_field_values WHERE id = ?', [entry.id]);
+        cleared++;
+      } else if (entry.value !== entry.original) {
+        await connection.query('UPDATE customer_field_values SET value = ? WHERE id = ?', [entry.value, entry.id]);
+        converted++;
+      }
+    }
+    
+    // Customers already sharing a value could not be saved any more once the field is
+    // unique; checked on the migrated values, within the transaction
+    if (validation?.unique && !previous.validation?.unique) {
+      const duplicates = await findDuplicateValues(connection, req.params.id);
+      if (duplicates.length > 0) {
+        await connection.rollback();
+        return res.status(409).json({
+          error: `${name} cannot be made unique while customers share a value: ${describeDuplicates(duplicates)}`,
+          duplicates
+        });
+      }
+    }
+    
+    await connection.commit();
+    
     res.json({
       id: req.params.id,
       name,
       type,
-      options
+      options: parseOptionsColumn(options) || null,
+      validation: validation || null,
+      formula,
+      visibility: visibility || null,
+      defaultValue: defaultValue || null,
+      position: fields[0].position,
+      section: section || null,
+      migration: { converted, cleared }
     });
   } catch (error) {
+    await connection.rollback();
     console.error('Error updating custom field:', error);
     res.status(500).json({ error: 'Failed to update custom field' });
+  } finally {
+    connection.release();
+  }
+});
+
+// Number of customers holding a value for the field and how many have none, leaving out
+// customers in the trash; `trashed` counts those in the trash holding a value, which
+// deleting the field clears too
+router.get('/:id/usage', async (req, res) => {
+  try {
+    const [[{ customers, trashed }]] = await pool.query(`
+      SELECT
+        COUNT(DISTINCT CASE WHEN c.deleted_at IS NULL THEN cfv.customer_id END) AS customers,
+        COUNT(DISTINCT CASE WHEN c.deleted_at IS NOT NULL THEN cfv.customer_id END) AS trashed
+      FROM customer_field_values cfv
+      JOIN customers c ON c.id = cfv.customer_id
+      WHERE cfv.field_id = ? AND cfv.value IS NOT NULL AND cfv.value <> ''
+    `, [req.params.id]);
+    const [[{ total }]] = await pool.query('SELECT COUNT(*) AS total FROM customers WHERE deleted_at IS NULL');
+    
+    res.json({ customers, missing: total - customers, trashed });
+  } catch (error) {
+    console.error('Error fetching custom field usage:', error);
+    res.status(500).json({ error: 'Failed to fetch custom field usage' });
   }
 });
 
-// Delete a custom field
+// Check whether a value of a unique field is already held by another customer
+router.get('/:id/conflict', async (req, res) => {
+  const { value, customerId } = req.query;
+  
+  if (value === undefined || String(value).trim() === '') {
+    return res.json({ conflict: null });
+  }
+  
+  try {
+    const conflict = await findValueConflict(pool, req.params.id, value, customerId);
+    res.json({ conflict });
+  } catch (error) {
+    console.error('Error checking custom field value:', error);
+    res.status(500).json({ error: 'Failed to check custom field value' });
+  }
+});
+
+// One-time fill of the field's default value into every customer that has no value yet.
+// Unique fields cannot be filled, since every customer would get the same value.
+router.post('/:id/backfill', async (req, res) => {
+  const connection = await pool.getConnection();
+  
+  try {
+    const [fields] = await connection.query(
+      'SELECT * FROM custom_fields WHERE id = ? AND archived_at IS NULL',
+      [req.params.id]
+    );
+    if (fields.length === 0) {
+      return res.status(404).json({ error: 'Active custom field not found' });
+    }
+    
+    const field = formatField(fields[0]);
+    if (field.validation?.unique) {
+      return res.status(400).json({ error: 'Values of a unique field cannot all be set to the same default' });
+    }
+    const value = resolveDefaultValue(field);
+    if (value === null) {
+      return res.status(400).json({ error: 'The field has no default value to fill in' });
+    }
+    
+    await connection.beginTransaction();
+    
+    // Empty rows count as missing; drop them so every gap gets the same treatment
+    await connection.query(
+      "DELETE FROM customer_field_values WHERE field_id = ? AND (value IS NULL OR value = '')",
+      [req.params.id]
+    );
+    
+    const [result] = await connection.query(`
+      INSERT INTO customer_field_values (customer_id, field_id, value)
+      SELECT c.id, ?, ?
+      FROM customers c
+      WHERE c.deleted_at IS NULL AND NOT EXISTS (
+        SELECT 1 FROM customer_field_values cfv
+        WHERE cfv.customer_id = c.id AND cfv.field_id = ?
+      )
+    `, [req.params.id, value, req.params.id]);
+    
+    await connection.commit();
+    
+    res.json({ updated: result.affectedRows });
+  } catch (error) {
+    await connection.rollback();
+    console.error('Error backfilling custom field:', error);
+    res.status(500).json({ error: 'Failed to fill in default values' });
+  } finally {
+    connection.release();
+  }
+});
+
+// Archive a custom field: hidden from forms and cards, values are kept
+router.post('/:id/archive', async (req, res) => {
+  try {
+    const [result] = await pool.query(
+      'UPDATE custom_fields SET archived_at = NOW() WHERE id = ? AND archived_at IS NULL',
+      [req.params.id]
+    );
+    
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Active custom field not found' });
+    }
+    
+    const [fields] = await pool.query('SELECT * FROM custom_fields WHERE id = ?', [req.params.id]);
+    res.json(formatField(fields[0]));
+  } catch (error) {
+    console.error('Error archiving custom field:', error);
+    res.status(500).json({ error: 'Failed to archive custom field' });
+  }
+});
+
+// Restore an archived custom field, placing it at the end of the list
+router.post('/:id/restore', async (req, res) => {
+  try {
+    const [[{ nextPosition }]] = await pool.query(
+      'SELECT COALESCE(MAX(position) + 1, 0) AS nextPosition FROM custom_fields WHERE archived_at IS NULL'
+    );
+    
+    const [result] = await pool.query(
+      'UPDATE custom_fields SET archived_at = NULL, position = ? WHERE id = ? AND archived_at IS NOT NULL',
+      [nextPosition, req.params.id]
+    );
+    
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Archived custom field not found' });
+    }
+    
+    const [fields] = await pool.query('SELECT * FROM custom_fields WHERE id = ?', [req.params.id]);
+    res.json(formatField(fields[0]));
+  } catch (error) {
+    console.error('Error restoring custom field:', error);
+    res.status(500).json({ error: 'Failed to restore custom field' });
+  }
+});
+
+// Permanently delete a custom field and its values; only archived fields can be deleted
 router.delete('/:id', async (req, res) => {
   const connection = await pool.getConnection();
   
   try {
+    const [fields] = await connection.query('SELECT archived_at FROM custom_fields WHERE id = ?', [req.params.id]);
+    if (fields.length === 0) {
+      return res.status(404).json({ error: 'Custom field not found' });
+    }
+    if (!fields[0].archived_at) {
+      return res.status(409).json({ error: 'Archive the field before deleting it permanently' });
+    }
+    
     await connection.beginTransaction();
     
     // Delete field values
@@ -1,9 +1,37 @@
 const express = require('express');
 const router = express.Router();
-const mysql = require('mysql2/promise');
 const pool = require('../db');
+const {
+  findMissingCustomers,
+  findValueConflict,
+  getFieldDefinitions,
+  removeCustomerLinks
+} = require('../utils/customFields');
+const { getRequestUser } = require('../utils/auth');
+const {
+  isEmptyValue,
+  parseMultiselect,
+  validateCustomFieldValues,
+  validateFieldValue
+} = require('../utils/fieldValidation');
+const { getVisibleFieldIds } = require('../utils/fieldVisibility');
+const {
+  CUSTOMER_TAGS_SELECT,
+  addCustomerTags,
+  getCustomerTags,
+  parseTagsColumn,
+  removeCustomerTags,
+  setCustomerTags
+} = require('../utils/tags');
+const { TRASH_RETENTION_DAYS, purgeCustomer } = require('../utils/trash');
+const { buildCustomerFilter, buildCustomerOrder, parseCustomerQuery } = require('../utils/customerQuery');
 
-// Format custom fields from JSON object to array
+// Aggregates every custom field value of a customer into a JSON array
+const CUSTOM_FIELDS_AGG = `
+  JSON_ARRAYAGG(JSON_OBJECT('id', cf.id, 'name', cf.name, 'type', cf.type, 'value', cfv.value)) as custom_fields
+`;
+
+// Format aggregated custom fields into an array of {id, name, type, value}
 const formatCustomFields = (customFieldsData) => {
   if (!customFieldsData) return [];
   
@@ -11,54 +39,425 @@ const formatCustomFields = (customFieldsData) => {
     // Parse the JSON string from MySQL
     const parsed = typeof customFieldsData === 'string' ? JSON.parse(customFieldsData) : customFieldsData;
     
-    // Convert object {name: value} to array [{name, value}]
-    return Object.entries(parsed).map(([name, value]) => ({
-      name,
-      value
-    }));
+    if (!Array.isArray(parsed)) {
+      // Legacy {name: value} shape
+      return Object.entries(parsed).map(([name, value]) => ({
+        name,
+        value
+      }));
+    }
+    
+    // Customers without values produce a single all-null entry from the LEFT JOIN
+    return parsed.filter(field => field && field.id !== null);
   } catch (error) {
     console.warn('Failed to parse custom fields:', customFieldsData, error);
     return [];
   }
 };
 
-// Get all customers
+// Customer ids a stored relation value of the customer links to
+const selectStoredLinks = async (connection, customerId, fieldId) => {
+  const [rows] = await connection.query(
+    'SELECT value FROM customer_field_values WHERE customer_id = ? AND field_id = ?',
+    [customerId, fieldId]
+  );
+  return rows.length > 0 && !isEmptyValue(rows[0].value) ? parseMultiselect(rows[0].value).map(String) : [];
+};
+
+// Reject custom field values that break their field's validation rules.
+// Returns the values that should be stored, or null once an error response has been sent.
+// Formula fields are computed and never stored; fields hidden by their show-when
+// conditions are neither validated nor kept. Relation fields must link to other
+// customers that exist and are not in the trash. Values of unique fields already held
+// by another customer are rejected with a 409 naming that customer; when merging, the
+// customer being merged away does not count.
+const checkCustomFieldValues = async (connection, customFields, res, customerId = null, mergedId = null) => {
+  const definitions = await getFieldDefinitions(connection);
+  const submitted = (Array.isArray(customFields) ? customFields : [])
+    .filter(field => field && field.id !== undefined && field.id !== null);
+  const visibleIds = getVisibleFieldIds(
+    definitions,
+    new Map(submitted.map(field => [field.id.toString(), field.value]))
+  );
+  const visibleDefinitions = definitions.filter(field => visibleIds.has(field.id.toString()));
+  const errors = validateCustomFieldValues(visibleDefinitions, submitted);
+  
+  if (errors.length > 0) {
+    res.status(400).json({
+      error: errors.map(error => error.message).join('; '),
+      details: errors
+    });
+    return null;
+  }
+  
+  const storedIds = new Set(
+    visibleDefinitions.filter(field => field.type !== 'formula').map(field => field.id.toString())
+  );
+  const stored = submitted.filter(field => storedIds.has(field.id.toString()));
+  
+  const linkErrors = [];
+  for (const definition of visibleDefinitions.filter(field => field.type === 'relation')) {
+    const field = stored.find(entry => entry.id.toString() === definition.id.toString());
+    if (!field || isEmptyValue(field.value)) continue;
+    
+    const ids = [...new Set(parseMultiselect(field.value).map(String))];
+    if (customerId && ids.includes(customerId.toString())) {
+      linkErrors.push(`${definition.name} cannot link a customer to itself`);
+    } else {
+      // Links the customer already holds to customers since moved to the trash are kept,
+      // so they come back when those customers are restored
+      const missing = await findMissingCustomers(connection, ids);
+      const held = missing.length > 0 && customerId ? await selectStoredLinks(connection, customerId, definition.id) : [];
+      if (missing.some(id => !held.includes(id))) {
+        linkErrors.push(`${definition.name} links to a customer that no longer exists`);
+      }
+    }
+    field.value = ids.length > 0 ? JSON.stringify(ids) : null;
+  }
+  
+  if (linkErrors.length > 0) {
+    res.status(400).json({ error: linkErrors.join('; ') });
+    return null;
+  }
+  
+  const conflicts = [];
+  for (const definition of visibleDefinitions.filter(field => field.validation && field.validation.unique)) {
+    const value = (stored.find(field => field.id.toString() === definition.id.toString()) || {}).value;
+    if (isEmptyValue(value)) continue;
+    
+    const conflict = await findValueConflict(
+      connection,
+      definition.id,
+      value,
+      mergedId ? [customerId, mergedId] : customerId
+    );
+    if (conflict) {
+      conflicts.push({ fieldId: definition.id.toString(), field: definition.name, value, ...conflict });
+    }
+  }
+  
+  if (conflicts.length > 0) {
+    res.status(409).json({
+      error: conflicts
+        .map(conflict => `${conflict.field} "${conflict.value}" is already used by ${conflict.customerName}${conflict.inTrash ? ' (in the trash)' : ''}`)
+        .join('; '),
+      conflicts
+    });
+    return null;
+  }
+  
+  return stored;
+};
+
+// Most customers a single batch request may change
+const MAX_BATCH_SIZE = 1000;
+
+const BATCH_ACTIONS = ['delete', 'restore', 'setField', 'addTags', 'removeTags'];
+
+// Check a custom field value set on many customers at once, with the same rules as the
+// form. Returns the field and the text to store (null clears the field), or null once an
+// error response has been sent.
+const checkBatchFieldValue = async (connection, fieldId, value, customerIds, res) => {
+  const definition = (await getFieldDefinitions(connection))
+    .find(field => field.id.toString() === String(fieldId));
+  if (!definition) {
+    res.status(404).json({ error: 'Active custom field not found' });
+    return null;
+  }
+  if (definition.type === 'formula') {
+    res.status(400).json({ error: `${definition.name} is calculated and cannot be set` });
+    return null;
+  }
+  
+  const message = validateFieldValue(definition, value);
+  if (message) {
+    res.status(400).json({ error: message });
+    return null;
+  }
+  if (isEmptyValue(value)) {
+    return { definition, value: null };
+  }
+  
+  if (definition.validation && definition.validation.unique) {
+    if (customerIds.length > 1) {
+      res.status(400).json({ error: `${definition.name} must be unique, so it cannot be set on several customers at once` });
+      return null;
+    }
+    const conflict = await findValueConflict(connection, definition.id, value, customerIds);
+    if (conflict) {
+      res.status(409).json({
+        error: `${definition.name} "${value}" is already used by ${conflict.customerName}${conflict.inTrash ? ' (in the trash)' : ''}`
+      });
+      return null;
+    }
+  }
+  
+  if (definition.type === 'relation') {
+    const ids = [...new Set(parseMultiselect(value).map(String))];
+    if (ids.some(id => customerIds.some(customerId => customerId.toString() === id))) {
+      res.status(400).json({ error: `${definition.name} cannot link a customer to itself` });
+      return null;
+    }
+    if ((await findMissingCustomers(connection, ids)).length > 0) {
+      res.status(400).json({ error: `${definition.name} links to a customer that no longer exists` });
+      return null;
+    }
+    return { definition, value: JSON.stringify(ids) };
+  }
+  
+  return { definition, value: String(value) };
+};
+
+// Store checked custom field values for a customer
+const insertFieldValues = async (connection, customerId, customFields) => {
+  const validFieldValues = (Array.isArray(customFields) ? customFields : [])
+    .filter(field => field && field.id && !isNaN(parseInt(field.id, 10)))
+    .map(field => [
+      customerId,
+      parseInt(field.id, 10),
+      field.value
+    ]);
+  
+  if (validFieldValues.length > 0) {
+    await connection.query(
+      'INSERT INTO customer_field_values (customer_id, field_id, value) VALUES ?',
+      [validFieldValues]
+    );
+  }
+};
+
+// Dates of birth are stored as yyyy-MM-dd; unparseable dates are dropped
+const formatDob = (dob) => {
+  if (!dob) return null;
+  const date = new Date(dob);
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+};
+
+const formatCustomer = (customer) => ({
+  id: customer.id,
+  name: customer.name,
+  dob: customer.dob,
+  phone: customer.phone,
+  email: customer.email,
+  occupation: customer.occupation,
+  location: customer.location,
+  createdAt: customer.created_at,
+  updatedAt: customer.updated_at,
+  customFields: formatCustomFields(customer.custom_fields),
+  tags: parseTagsColumn(customer.tags)
+});
+
+// Customers in the trash also say when and by whom they were deleted
+const formatTrashedCustomer = (customer) => ({
+  ...formatCustomer(customer),
+  deletedAt: customer.deleted_at,
+  deletedBy: customer.deleted_by_name || null
+});
+
+// A single customer with its aggregated custom fields and tags, or null
+const selectCustomer = async (connection, customerId) => {
+  const [customers] = await connection.query(`
+    SELECT c.*, ${CUSTOM_FIELDS_AGG}, ${CUSTOMER_TAGS_SELECT}
+    FROM customers c
+    LEFT JOIN customer_field_values cfv ON c.id = cfv.customer_id
+    LEFT JOIN custom_fields cf ON cfv.field_id = cf.id AND cf.archived_at IS NULL
+    WHERE c.id = ?
+    GROUP BY c.id
+  `, [customerId]);
+  return customers.length > 0 ? formatCustomer(customers[0]) : null;
+};
+
+// Id and name of the customers that relation fields of `customers` link to, leaving out the trash
+const selectLinkedCustomers = async (connection, customers, definitions) => {
+  const relationIds = new Set(
+    definitions.filter(field => field.type === 'relation').map(field => field.id.toString())
+  );
+  const ids = new Set();
+  for (const customer of customers) {
+    for (const field of customer.customFields) {
+      if (field.id !== undefined && relationIds.has(field.id.toString()) && !isEmptyValue(field.value)) {
+        parseMultiselect(field.value).forEach(id => ids.add(String(id)));
+      }
+    }
+  }
+  if (ids.size === 0) return [];
+  
+  const [linked] = await connection.query(
+    'SELECT id, name FROM customers WHERE id IN (?) AND deleted_at IS NULL',
+    [[...ids]]
+  );
+  return linked.map(customer => ({ id: customer.id, name: customer.name }));
+};
+
+// Get the customers matching `search` (name, phone or email) and `filter` (a JSON group of
+// conditions, see utils/customerFilter.js) and carrying every tag in `tags` (comma-separated
+// ids), sorted by `sort` (e.g. `name:asc,custom:12:desc`). `utcOffset` is the user's offset
+// from UTC in minutes, for the days dates fall on. With `page` or `pageSize` one page
+// comes back with the number of matching customers and the customers its relation fields
+// link to; otherwise every matching customer is returned.
 router.get('/', async (req, res) => {
+  try {
+    const definitions = await getFieldDefinitions(pool);
+    const query = parseCustomerQuery(req.query, definitions);
+    if (query.error) {
+      return res.status(400).json({ error: query.error });
+    }
+    
+    const filter = buildCustomerFilter(query, definitions);
+    const order = buildCustomerOrder(query.sort, definitions);
+    
+    if (!query.paginated) {
+      const [customers] = await pool.query(`
+        SELECT c.*, ${CUSTOM_FIELDS_AGG}, ${CUSTOMER_TAGS_SELECT}
+        FROM customers c
+        LEFT JOIN customer_field_values cfv ON c.id = cfv.customer_id
+        LEFT JOIN custom_fields cf ON cfv.field_id = cf.id AND cf.archived_at IS NULL
+        WHERE ${filter.sql}
+        GROUP BY c.id
+        ORDER BY ${order.sql}
+      `, [...filter.params, ...order.params]);
+      
+      return res.json(customers.map(formatCustomer));
+    }
+    
+    const [[{ total }]] = await pool.query(
+      `SELECT COUNT(*) AS total FROM customers c WHERE ${filter.sql}`,
+      filter.params
+    );
+    
+    // The page is picked on the customers table alone; only its rows are joined with
+    // their custom field values and tags
+    const [pageRows] = await pool.query(`
+      SELECT c.id FROM customers c
+      WHERE ${filter.sql}
+      ORDER BY ${order.sql}
+      LIMIT ? OFFSET ?
+    `, [...filter.params, ...order.params, query.pageSize, (query.page - 1) * query.pageSize]);
+    
+    let customers = [];
+    if (pageRows.length > 0) {
+      const [rows] = await pool.query(`
+        SELECT c.*, ${CUSTOM_FIELDS_AGG}, ${CUSTOMER_TAGS_SELECT}
+        FROM customers c
+        LEFT JOIN customer_field_values cfv ON c.id = cfv.customer_id
+        LEFT JOIN custom_fields cf ON cfv.field_id = cf.id AND cf.archived_at IS NULL
+        WHERE c.id IN (?)
+        GROUP BY c.id
+      `, [pageRows.map(row => row.id)]);
+      const byId = new Map(rows.map(row => [row.id, formatCustomer(row)]));
+      customers = pageRows.map(row => byId.get(row.id)).filter(Boolean);
+    }
+    
+    res.json({
+      customers,
+      total: Number(total),
+      page: query.page,
+      pageSize: query.pageSize,
+      linkedCustomers: await selectLinkedCustomers(pool, customers, definitions)
+    });
+  } catch (error) {
+    console.error('Error fetching customers:', error);
+    res.status(500).json({ error: 'Failed to fetch customers' });
+  }
+});
+
+// Ids of every customer matching the search, tags and filter of GET /, for selecting all
+// matching customers across pages
+router.get('/ids', async (req, res) => {
+  try {
+    const definitions = await getFieldDefinitions(pool);
+    const query = parseCustomerQuery(req.query, definitions);
+    if (query.error) {
+      return res.status(400).json({ error: query.error });
+    }
+    
+    const filter = buildCustomerFilter(query, definitions);
+    const [rows] = await pool.query(`SELECT c.id FROM customers c WHERE ${filter.sql}`, filter.params);
+    res.json(rows.map(row => row.id.toString()));
+  } catch (error) {
+    console.error('Error fetching customer ids:', error);
+    res.status(500).json({ error: 'Failed to fetch customer ids' });
+  }
+});
+
+// Customers in the trash, most recently deleted first, with the retention period after
+// which they are purged automatically (0 when they are kept until purged by hand)
+router.get('/trash', async (req, res) => {
   try {
     const [customers] = await pool.query(`
-      SELECT c.*, 
-             JSON_OBJECTAGG(IFNULL(cf.name, ''), IFNULL(cfv.value, '')) as custom_fields
+      SELECT c.*, ${CUSTOM_FIELDS_AGG}, ${CUSTOMER_TAGS_SELECT},
+        (SELECT u.name FROM users u WHERE u.id = c.deleted_by) AS deleted_by_name
       FROM customers c
       LEFT JOIN customer_field_values cfv ON c.id = cfv.customer_id
-      LEFT JOIN custom_fields cf ON cfv.field_id = cf.id
+      LEFT JOIN custom_fields cf ON cfv.field_id = cf.id AND cf.archived_at IS NULL
+      WHERE c.deleted_at IS NOT NULL
       GROUP BY c.id
-      ORDER BY c.created_at DESC
+      ORDER BY c.deleted_at DESC
     `);
     
-    const formattedCustomers = customers.map(customer => ({
-      id: customer.id,
-      name: customer.name,
-      dob: customer.dob,
-      phone: customer.phone,
-      email: customer.email,
-      occupation: customer.occupation,
-      location: customer.location,
-      createdAt: customer.created_at,
-      updatedAt: customer.updated_at,
-      customFields: formatCustomFields(customer.custom_fields)
-    }));
+    res.json({
+      retentionDays: TRASH_RETENTION_DAYS,
+      customers: customers.map(formatTrashedCustomer)
+    });
+  } catch (error) {
+    console.error('Error fetching the trash:', error);
+    res.status(500).json({ error: 'Failed to fetch the trash' });
+  }
+});
+
+// Restore a customer from the trash
+router.post('/trash/:id/restore', async (req, res) => {
+  try {
+    // updated_at is kept as is; restoring does not change the record
+    const [result] = await pool.query(
+      'UPDATE customers SET deleted_at = NULL, deleted_by = NULL, updated_at = updated_at WHERE id = ? AND deleted_at IS NOT NULL',
+      [req.params.id]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Customer not found in the trash' });
+    }
     
-    res.json(formattedCustomers);
+    res.json(await selectCustomer(pool, req.params.id));
   } catch (error) {
-    console.error('Error fetching customers:', error);
-    res.status(500).json({ error: 'Failed to fetch customers' });
+    console.error('Error restoring customer:', error);
+    res.status(500).json({ error: 'Failed to restore customer' });
+  }
+});
+
+// Delete a customer in the trash for good
+router.delete('/trash/:id', async (req, res) => {
+  const connection = await pool.getConnection();
+  
+  try {
+    const [customers] = await connection.query(
+      'SELECT id FROM customers WHERE id = ? AND deleted_at IS NOT NULL',
+      [req.params.id]
+    );
+    if (customers.length === 0) {
+      return res.status(404).json({ error: 'Customer not found in the trash' });
+    }
+    
+    await connection.beginTransaction();
+    await purgeCustomer(connection, req.params.id);
+    await connection.commit();
+    
+    res.status(204).send();
+  } catch (error) {
+    await connection.rollback();
+    console.error('Error purging customer:', error);
+    res.status(500).json({ error: 'Failed to purge customer' });
+  } finally {
+    connection.release();
   }
 });
 
 // Get a single customer
 router.get('/:id', async (req, res) => {
   try {
-    const [customer] = await pool.query('SELECT * FROM customers WHERE id = ?', [req.params.id]);
+    const [customer] = await pool.query(
+      `SELECT c.*, ${CUSTOMER_TAGS_SELECT} FROM customers c WHERE c.id = ? AND c.deleted_at IS NULL`,
+      [req.params.id]
+    );
     
     if (customer.length === 0) {
       return res.status(404).json({ error: 'Customer not found' });
@@ -68,16 +467,18 @@ router.get('/:id', async (req, res) => {
       SELECT cf.id, cf.name, cf.type, cfv.value
       FROM customer_field_values cfv
       JOIN custom_fields cf ON cfv.field_id = cf.id
-      WHERE cfv.customer_id = ?
+      WHERE cfv.customer_id = ? AND cf.archived_at IS NULL
     `, [req.params.id]);
     
     const customFields = fieldValues.map(field => ({
+      id: field.id,
       name: field.name,
+      type: field.type,
       value: field.value
     }));
     
     res.json({
-      ...customer[0],
+      ...formatCustomer(customer[0]),
       customFields
     });
   } catch (error) {
@@ -88,19 +489,18 @@ router.get('/:id', async (req, res) => {
 
 // Create a new customer
 router.post('/', async (req, res) => {
-  const { name, dob, phone, email, occupation, location, customFields } = req.body;
+  const { name, dob, phone, email, occupation, location } = req.body;
   
-  let formattedDob = null;
-  if (dob) {
-    const date = new Date(dob);
-    if (!isNaN(date.getTime())) {
-      formattedDob = date.toISOString().split('T')[0];
-    }
-  }
+  const formattedDob = formatDob(dob);
   
   const connection = await pool.getConnection();
   
   try {
+    const customFields = await checkCustomFieldValues(connection, req.body.customFields, res);
+    if (!customFields) {
+      return;
+    }
+    
     await connection.beginTransaction();
     
     const [result] = await connection.query(
@@ -110,22 +510,9 @@ router.post('/', async (req, res) => {
     
     const customerId = result.insertId;
     
-    if (customFields && Array.isArray(customFields) && customFields.length > 0) {
-      const validFieldValues = customFields
-        .filter(field => field && field.id && !isNaN(parseInt(field.id, 10)))
-        .map(field => [
-          customerId,
-          parseInt(field.id, 10),
-          field.value
-        ]);
-      
-      if (validFieldValues.length > 0) {
-        await connection.query(
-          'INSERT INTO customer_field_values (customer_id, field_id, value) VALUES ?',
-          [validFieldValues]
-        );
-      }
-    }
+    await insertFieldValues(connection, customerId, customFields);
+    
+    const tags = await setCustomerTags(connection, customerId, req.body.tags);
     
     await connection.commit();
     
@@ -138,6 +525,7 @@ router.post('/', async (req, res) => {
       occupation,
       location,
       customFields,
+      tags,
       createdAt: new Date(),
       updatedAt: new Date()
     });
@@ -152,45 +540,44 @@ router.post('/', async (req, res) => {
 
 // Update a customer
 router.put('/:id', async (req, res) => {
-  const { name, dob, phone, email, occupation, location, customFields } = req.body;
+  const { name, dob, phone, email, occupation, location } = req.body;
   const customerId = req.params.id;
   
-  let formattedDob = null;
-  if (dob) {
-    const date = new Date(dob);
-    if (!isNaN(date.getTime())) {
-      formattedDob = date.toISOString().split('T')[0];
-    }
-  }
+  const formattedDob = formatDob(dob);
   
   const connection = await pool.getConnection();
   
   try {
+    const customFields = await checkCustomFieldValues(connection, req.body.customFields, res, customerId);
+    if (!customFields) {
+      return;
+    }
+    
     await connection.beginTransaction();
     
-    await connection.query(
-      'UPDATE customers SET name = ?, dob = ?, phone = ?, email = ?, occupation = ?, location = ?, updated_at = NOW() WHERE id = ?',
+    // Customers in the trash are restored before they can be edited
+    const [result] = await connection.query(
+      'UPDATE customers SET name = ?, dob = ?, phone = ?, email = ?, occupation = ?, location = ?, updated_at = NOW() WHERE id = ? AND deleted_at IS NULL',
       [name, formattedDob, phone, email, occupation, location, customerId]
     );
+    if (result.affectedRows === 0) {
+      await connection.rollback();
+      return res.status(404).json({ error: 'Customer not found' });
+    }
     
-    await connection.query('DELETE FROM customer_field_values WHERE customer_id = ?', [customerId]);
+    // Replace the values of active fields only; archived fields keep their history
+    await connection.query(`
+      DELETE cfv FROM customer_field_values cfv
+      JOIN custom_fields cf ON cf.id = cfv.field_id
+      WHERE cfv.customer_id = ? AND cf.archived_at IS NULL
+    `, [customerId]);
     
-    if (customFields && Array.isArray(customFields) && customFields.length > 0) {
-      const validFieldValues = customFields
-        .filter(field => field && field.id && !isNaN(parseInt(field.id, 10)))
-        .map(field => [
-          customerId,
-          parseInt(field.id, 10),
-          field.value
-        ]);
-      
-      if (validFieldValues.length > 0) {
-        await connection.query(
-          'INSERT INTO customer_field_values (customer_id, field_id, value) VALUES ?',
-          [validFieldValues]
-        );
-      }
-    }
+    await insertFieldValues(connection, customerId, customFields);
+    
+    // Tags are only replaced when the client sends them
+    const tags = Array.isArray(req.body.tags)
+      ? await setCustomerTags(connection, customerId, req.body.tags)
+      : await getCustomerTags(connection, customerId);
     
     await connection.commit();
     
@@ -203,6 +590,7 @@ router.put('/:id', async (req, res) => {
       occupation,
       location,
       customFields,
+      tags,
       updatedAt: new Date()
     });
   } catch (error) {
@@ -214,23 +602,184 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-// Delete a customer
+// Move a customer to the trash. Its values, tags, notes and the links pointing at it
+// are kept so it can be restored; they go when the customer is purged.
 router.delete('/:id', async (req, res) => {
+  try {
+    const user = getRequestUser(req);
+    const [result] = await pool.query(
+      'UPDATE customers SET deleted_at = NOW(), deleted_by = ?, updated_at = updated_at WHERE id = ? AND deleted_at IS NULL',
+      [user ? user.id : null, req.params.id]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting customer:', error);
+    res.status(500).json({ error: 'Failed to delete customer' });
+  }
+});
+
+// Merge another customer (`sourceId`) into this one. The body carries the values the
+// kept record ends up with; tags are combined, notes move over, links to the merged
+// customer point at the kept one and the merged customer is deleted.
+router.post('/:id/merge', async (req, res) => {
+  const { sourceId, name, dob, phone, email, occupation, location } = req.body;
+  const customerId = req.params.id;
+  
+  if (!sourceId || sourceId.toString() === customerId.toString()) {
+    return res.status(400).json({ error: 'Choose another customer to merge' });
+  }
+  
   const connection = await pool.getConnection();
   
   try {
+    const [customers] = await connection.query(
+      'SELECT id FROM customers WHERE id IN (?) AND deleted_at IS NULL',
+      [[customerId, sourceId]]
+    );
+    if (customers.length < 2) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    
+    // Links between the two customers would become a link to itself. Relation fields are
+    // told by their definition, not by the type the body claims.
+    const definitions = await getFieldDefinitions(connection);
+    const relationIds = new Set(
+      definitions.filter(definition => definition.type === 'relation').map(definition => definition.id.toString())
+    );
+    const submitted = (Array.isArray(req.body.customFields) ? req.body.customFields : []).map(field => {
+      if (!field || !relationIds.has(String(field.id)) || isEmptyValue(field.value)) return field;
+      const ids = parseMultiselect(field.value)
+        .map(String)
+        .filter(id => id !== customerId.toString() && id !== sourceId.toString());
+      return { ...field, value: ids.length > 0 ? JSON.stringify(ids) : null };
+    });
+    
+    const customFields = await checkCustomFieldValues(connection, submitted, res, customerId, sourceId);
+    if (!customFields) {
+      return;
+    }
+    
     await connection.beginTransaction();
     
-    await connection.query('DELETE FROM customer_field_values WHERE customer_id = ?', [req.params.id]);
-    await connection.query('DELETE FROM customers WHERE id = ?', [req.params.id]);
+    await connection.query(
+      'UPDATE customers SET name = ?, dob = ?, phone = ?, email = ?, occupation = ?, location = ?, updated_at = NOW() WHERE id = ?',
+      [name, formatDob(dob), phone, email, occupation, location, customerId]
+    );
+    
+    await connection.query(`
+      DELETE cfv FROM customer_field_values cfv
+      JOIN custom_fields cf ON cf.id = cfv.field_id
+      WHERE cfv.customer_id = ? AND cf.archived_at IS NULL
+    `, [customerId]);
+    await insertFieldValues(connection, customerId, customFields);
+    
+    await connection.query(`
+      INSERT IGNORE INTO customer_tags (customer_id, tag_id)
+      SELECT ?, tag_id FROM customer_tags WHERE customer_id = ?
+    `, [customerId, sourceId]);
+    await connection.query('UPDATE customer_notes SET customer_id = ? WHERE customer_id = ?', [customerId, sourceId]);
+    await removeCustomerLinks(connection, sourceId, customerId);
+    
+    await connection.query('DELETE FROM customer_field_values WHERE customer_id = ?', [sourceId]);
+    await connection.query('DELETE FROM customers WHERE id = ?', [sourceId]);
     
     await connection.commit();
     
-    res.status(204).send();
+    res.json(await selectCustomer(connection, customerId));
   } catch (error) {
     await connection.rollback();
-    console.error('Error deleting customer:', error);
-    res.status(500).json({ error: 'Failed to delete customer' });
+    console.error('Error merging customers:', error);
+    res.status(500).json({ error: 'Failed to merge customers', details: error.message });
+  } finally {
+    connection.release();
+  }
+});
+
+// Apply one action to many customers in a single request and transaction:
+//   { ids, action: 'delete' } moves them to the trash
+//   { ids, action: 'restore' } brings them back from the trash
+//   { ids, action: 'setField', fieldId, value } sets a custom field (an empty value clears it)
+//   { ids, action: 'addTags' | 'removeTags', tags } adds or removes tags by name
+// Only restore touches customers in the trash. Responds with the number of customers changed.
+router.post('/batch', async (req, res) => {
+  const { action } = req.body;
+  const ids = [...new Set((Array.isArray(req.body.ids) ? req.body.ids : []).map(String))];
+  
+  if (ids.length === 0) {
+    return res.status(400).json({ error: 'Select at least one customer' });
+  }
+  if (ids.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({ error: `At most ${MAX_BATCH_SIZE} customers can be changed at once` });
+  }
+  if (!BATCH_ACTIONS.includes(action)) {
+    return res.status(400).json({ error: 'Unknown batch action' });
+  }
+  if ((action === 'addTags' || action === 'removeTags') && !Array.isArray(req.body.tags)) {
+    return res.status(400).json({ error: 'Choose the tags to add or remove' });
+  }
+  
+  const connection = await pool.getConnection();
+  
+  try {
+    const [customers] = await connection.query(
+      `SELECT id FROM customers WHERE id IN (?) AND deleted_at IS ${action === 'restore' ? 'NOT NULL' : 'NULL'}`,
+      [ids]
+    );
+    const customerIds = customers.map(customer => customer.id);
+    if (customerIds.length === 0) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    
+    let field = null;
+    if (action === 'setField') {
+      field = await checkBatchFieldValue(connection, req.body.fieldId, req.body.value, customerIds, res);
+      if (!field) {
+        return;
+      }
+    }
+    
+    await connection.beginTransaction();
+    
+    if (action === 'delete') {
+      const user = getRequestUser(req);
+      await connection.query(
+        'UPDATE customers SET deleted_at = NOW(), deleted_by = ?, updated_at = updated_at WHERE id IN (?)',
+        [user ? user.id : null, customerIds]
+      );
+    } else if (action === 'restore') {
+      await connection.query(
+        'UPDATE customers SET deleted_at = NULL, deleted_by = NULL, updated_at = updated_at WHERE id IN (?)',
+        [customerIds]
+      );
+    } else if (action === 'setField') {
+      await connection.query(
+        'DELETE FROM customer_field_values WHERE field_id = ? AND customer_id IN (?)',
+        [field.definition.id, customerIds]
+      );
+      if (field.value !== null) {
+        await connection.query(
+          'INSERT INTO customer_field_values (customer_id, field_id, value) VALUES ?',
+          [customerIds.map(customerId => [customerId, field.definition.id, field.value])]
+        );
+      }
+      await connection.query('UPDATE customers SET updated_at = NOW() WHERE id IN (?)', [customerIds]);
+    } else if (action === 'addTags') {
+      await addCustomerTags(connection, customerIds, req.body.tags);
+    } else {
+      await removeCustomerTags(connection, customerIds, req.body.tags);
+    }
+    
+    await connection.commit();
+    
+    res.json({ updated: customerIds.length });
+  } catch (error) {
+    await connection.rollback();
+    console.error('Error applying batch action:', error);
+    res.status(500).json({ error: 'Failed to update customers', details: error.message });
   } finally {
     connection.release();
   }
@@ -242,28 +791,16 @@ router.get('/search/:query', async (req, res) => {
   
   try {
     const [customers] = await pool.query(`
-      SELECT c.*, 
-             JSON_OBJECTAGG(IFNULL(cf.name, ''), IFNULL(cfv.value, '')) as custom_fields
+      SELECT c.*, ${CUSTOM_FIELDS_AGG}, ${CUSTOMER_TAGS_SELECT}
       FROM customers c
       LEFT JOIN customer_field_values cfv ON c.id = cfv.customer_id
-      LEFT JOIN custom_fields cf ON cfv.field_id = cf.id
-      WHERE c.name LIKE ? OR c.phone LIKE ? OR c.email LIKE ?
+      LEFT JOIN custom_fields cf ON cfv.field_id = cf.id AND cf.archived_at IS NULL
+      WHERE c.deleted_at IS NULL AND (c.name LIKE ? OR c.phone LIKE ? OR c.email LIKE ?)
       GROUP BY c.id
       ORDER BY c.created_at DESC
     `, [searchQuery, searchQuery, searchQuery]);
     
-    const formattedCustomers = customers.map(customer => ({
-      id: customer.id,
-      name: customer.name,
-      dob: customer.dob,
-      phone: customer.phone,
-      email: customer.email,
-      occupation: customer.occupation,
-      location: customer.location,
-      createdAt: customer.created_at,
-      updatedAt: customer.updated_at,
-      customFields: formatCustomFields(customer.custom_fields)
-    }));
+    const formattedCustomers = customers.map(formatCustomer);
     
     res.json(formattedCustomers);
   } catch (error) {
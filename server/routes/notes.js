@@ -0,0 +1,148 @@
+const express = require('express');
+// Mounted under /api/customers/:customerId/notes
+const router = express.Router({ mergeParams: true });
+const pool = require('../db');
+const { requireUser } = require('../utils/auth');
+
+const MAX_NOTE_LENGTH = 10000;
+
+const NOTES_SELECT = `
+  SELECT n.*, u.name AS author_name
+  FROM customer_notes n
+  LEFT JOIN users u ON u.id = n.user_id
+`;
+
+const formatNote = (note) => ({
+  id: note.id,
+  customerId: note.customer_id,
+  authorId: note.user_id,
+  authorName: note.author_name || 'Removed user',
+  body: note.body,
+  pinned: !!note.pinned,
+  createdAt: note.created_at,
+  editedAt: note.edited_at || null
+});
+
+const findNote = async (req) => {
+  const [notes] = await pool.query(
+    `${NOTES_SELECT} WHERE n.id = ? AND n.customer_id = ?`,
+    [req.params.noteId, req.params.customerId]
+  );
+  return notes.length > 0 ? notes[0] : null;
+};
+
+// Note bodies are required and trimmed; returns null once an error response has been sent
+const checkBody = (body, res) => {
+  const text = typeof body === 'string' ? body.trim() : '';
+  if (!text) {
+    res.status(400).json({ error: 'A note cannot be empty' });
+    return null;
+  }
+  if (text.length > MAX_NOTE_LENGTH) {
+    res.status(400).json({ error: `Notes are limited to ${MAX_NOTE_LENGTH} characters` });
+    return null;
+  }
+  return text;
+};
+
+router.use(requireUser);
+
+// Get the notes of a customer: pinned notes first, then newest first
+router.get('/', async (req, res) => {
+  try {
+    const [notes] = await pool.query(
+      `${NOTES_SELECT} WHERE n.customer_id = ? ORDER BY n.pinned DESC, n.created_at DESC, n.id DESC`,
+      [req.params.customerId]
+    );
+    res.json(notes.map(formatNote));
+  } catch (error) {
+    console.error('Error fetching notes:', error);
+    res.status(500).json({ error: 'Failed to fetch notes' });
+  }
+});
+
+// Add a note written by the logged-in user
+router.post('/', async (req, res) => {
+  const body = checkBody(req.body.body, res);
+  if (body === null) {
+    return;
+  }
+
+  try {
+    const [customers] = await pool.query('SELECT id FROM customers WHERE id = ? AND deleted_at IS NULL', [req.params.customerId]);
+    if (customers.length === 0) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const [result] = await pool.query(
+      'INSERT INTO customer_notes (customer_id, user_id, body) VALUES (?, ?, ?)',
+      [req.params.customerId, req.user.id, body]
+    );
+    const [notes] = await pool.query(`${NOTES_SELECT} WHERE n.id = ?`, [result.insertId]);
+    res.status(201).json(formatNote(notes[0]));
+  } catch (error) {
+    console.error('Error adding note:', error);
+    res.status(500).json({ error: 'Failed to add note' });
+  }
+});
+
+// Edit a note; only its author may
+router.put('/:noteId', async (req, res) => {
+  const body = checkBody(req.body.body, res);
+  if (body === null) {
+    return;
+  }
+
+  try {
+    const note = await findNote(req);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+    if (String(note.user_id) !== String(req.user.id)) {
+      return res.status(403).json({ error: 'Only the author can edit this note' });
+    }
+
+    await pool.query('UPDATE customer_notes SET body = ?, edited_at = NOW() WHERE id = ?', [body, note.id]);
+    res.json(formatNote(await findNote(req)));
+  } catch (error) {
+    console.error('Error updating note:', error);
+    res.status(500).json({ error: 'Failed to update note' });
+  }
+});
+
+// Pin or unpin a note; anyone may, so the team can surface what matters
+router.post('/:noteId/pin', async (req, res) => {
+  try {
+    const note = await findNote(req);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    await pool.query('UPDATE customer_notes SET pinned = ? WHERE id = ?', [req.body.pinned !== false, note.id]);
+    res.json(formatNote(await findNote(req)));
+  } catch (error) {
+    console.error('Error pinning note:', error);
+    res.status(500).json({ error: 'Failed to pin note' });
+  }
+});
+
+// Delete a note; only its author may
+router.delete('/:noteId', async (req, res) => {
+  try {
+    const note = await findNote(req);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+    if (String(note.user_id) !== String(req.user.id)) {
+      return res.status(403).json({ error: 'Only the author can delete this note' });
+    }
+
+    await pool.query('DELETE FROM customer_notes WHERE id = ?', [note.id]);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting note:', error);
+    res.status(500).json({ error: 'Failed to delete note' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,61 @@
+const express = require('express');
+const router = express.Router();
+const pool = require('../db');
+const { requireUser } = require('../utils/auth');
+
+// Stored values are kept small; they hold settings, not data
+const MAX_PREFERENCE_LENGTH = 60000;
+
+const KEY_PATTERN = /^[a-z][a-z0-9-]{0,63}$/;
+
+// Preference keys are lowercase names like `customer-table-layout`
+const checkKey = (key, res) => {
+  if (!KEY_PATTERN.test(key)) {
+    res.status(400).json({ error: 'Invalid preference key' });
+    return false;
+  }
+  return true;
+};
+
+router.use(requireUser);
+
+// Get one of the current user's preferences; `value` is null when it was never saved
+router.get('/:key', async (req, res) => {
+  if (!checkKey(req.params.key, res)) return;
+
+  try {
+    const [rows] = await pool.query(
+      'SELECT value FROM user_preferences WHERE user_id = ? AND pref_key = ?',
+      [req.user.id, req.params.key]
+    );
+    res.json({ key: req.params.key, value: rows.length > 0 ? JSON.parse(rows[0].value) : null });
+  } catch (error) {
+    console.error('Error fetching preference:', error);
+    res.status(500).json({ error: 'Failed to fetch preference' });
+  }
+});
+
+// Save one of the current user's preferences, replacing the previous value
+router.put('/:key', async (req, res) => {
+  if (!checkKey(req.params.key, res)) return;
+
+  const value = req.body.value === undefined ? null : req.body.value;
+  const json = JSON.stringify(value);
+  if (json.length > MAX_PREFERENCE_LENGTH) {
+    return res.status(400).json({ error: 'Preference value is too large' });
+  }
+
+  try {
+    await pool.query(
+      `INSERT INTO user_preferences (user_id, pref_key, value) VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE value = VALUES(value)`,
+      [req.user.id, req.params.key, json]
+    );
+    res.json({ key: req.params.key, value });
+  } catch (error) {
+    console.error('Error saving preference:', error);
+    res.status(500).json({ error: 'Failed to save preference' });
+  }
+});
+
+module.exports = router;
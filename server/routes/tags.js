@@ -0,0 +1,147 @@
+const express = require('express');
+const router = express.Router();
+const pool = require('../db');
+const { formatTag, normalizeTagColor, normalizeTagName } = require('../utils/tags');
+
+// Tags with the number of customers carrying each; customers in the trash do not count
+const TAGS_WITH_USAGE = `
+  SELECT t.*, COUNT(c.id) AS customers
+  FROM tags t
+  LEFT JOIN customer_tags ct ON ct.tag_id = t.id
+  LEFT JOIN customers c ON c.id = ct.customer_id AND c.deleted_at IS NULL
+`;
+
+const findTag = async (connection, id) => {
+  const [tags] = await connection.query(`${TAGS_WITH_USAGE} WHERE t.id = ? GROUP BY t.id`, [id]);
+  return tags.length > 0 ? formatTag(tags[0]) : null;
+};
+
+// Another tag already using the name (ignoring case), or null
+const findNameConflict = async (connection, name, excludeId = null) => {
+  const [tags] = await connection.query(
+    'SELECT id, name FROM tags WHERE name = ? AND id <> ?',
+    [name, excludeId || 0]
+  );
+  return tags.length > 0 ? tags[0] : null;
+};
+
+// Get all tags, sorted by name
+router.get('/', async (req, res) => {
+  try {
+    const [tags] = await pool.query(`${TAGS_WITH_USAGE} GROUP BY t.id ORDER BY t.name`);
+    res.json(tags.map(formatTag));
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+// Create a tag
+router.post('/', async (req, res) => {
+  const name = normalizeTagName(req.body.name);
+  if (!name) {
+    return res.status(400).json({ error: 'Tag name is required' });
+  }
+
+  try {
+    if (await findNameConflict(pool, name)) {
+      return res.status(409).json({ error: `A tag named "${name}" already exists` });
+    }
+
+    const [result] = await pool.query(
+      'INSERT INTO tags (name, color) VALUES (?, ?)',
+      [name, normalizeTagColor(req.body.color)]
+    );
+    res.status(201).json(await findTag(pool, result.insertId));
+  } catch (error) {
+    console.error('Error creating tag:', error);
+    res.status(500).json({ error: 'Failed to create tag' });
+  }
+});
+
+// Rename or recolor a tag; customers keep carrying it
+router.put('/:id', async (req, res) => {
+  const name = normalizeTagName(req.body.name);
+  if (!name) {
+    return res.status(400).json({ error: 'Tag name is required' });
+  }
+
+  try {
+    const conflict = await findNameConflict(pool, name, req.params.id);
+    if (conflict) {
+      return res.status(409).json({
+        error: `A tag named "${conflict.name}" already exists; merge the tags instead`,
+        conflict: formatTag(conflict)
+      });
+    }
+
+    // The color is kept unless the request sends one; null clears it
+    const [result] = req.body.color === undefined
+      ? await pool.query('UPDATE tags SET name = ? WHERE id = ?', [name, req.params.id])
+      : await pool.query(
+        'UPDATE tags SET name = ?, color = ? WHERE id = ?',
+        [name, normalizeTagColor(req.body.color), req.params.id]
+      );
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    res.json(await findTag(pool, req.params.id));
+  } catch (error) {
+    console.error('Error updating tag:', error);
+    res.status(500).json({ error: 'Failed to update tag' });
+  }
+});
+
+// Merge a tag into another: its customers get the target tag and the tag itself is deleted
+router.post('/:id/merge', async (req, res) => {
+  const { targetId } = req.body;
+  if (!targetId || targetId.toString() === req.params.id.toString()) {
+    return res.status(400).json({ error: 'Choose another tag to merge into' });
+  }
+
+  const connection = await pool.getConnection();
+
+  try {
+    const [tags] = await connection.query('SELECT id FROM tags WHERE id IN (?)', [[req.params.id, targetId]]);
+    if (tags.length < 2) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    await connection.beginTransaction();
+
+    // Customers already carrying both tags keep a single link
+    await connection.query(`
+      INSERT IGNORE INTO customer_tags (customer_id, tag_id)
+      SELECT customer_id, ? FROM customer_tags WHERE tag_id = ?
+    `, [targetId, req.params.id]);
+    await connection.query('DELETE FROM tags WHERE id = ?', [req.params.id]);
+
+    await connection.commit();
+
+    res.json(await findTag(connection, targetId));
+  } catch (error) {
+    await connection.rollback();
+    console.error('Error merging tags:', error);
+    res.status(500).json({ error: 'Failed to merge tags' });
+  } finally {
+    connection.release();
+  }
+});
+
+// Delete a tag; it is removed from every customer carrying it
+router.delete('/:id', async (req, res) => {
+  try {
+    const [result] = await pool.query('DELETE FROM tags WHERE id = ?', [req.params.id]);
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    res.status(500).json({ error: 'Failed to delete tag' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,217 @@
+const express = require('express');
+const router = express.Router();
+const pool = require('../db');
+const { requireUser } = require('../utils/auth');
+
+const MAX_VIEW_NAME_LENGTH = 100;
+
+// Views hold settings, not data
+const MAX_VIEW_STATE_LENGTH = 60000;
+
+// Views with their owner's name and whether they are the default of the user `?`
+const VIEWS_SELECT = `
+  SELECT v.*, u.name AS owner_name, d.view_id IS NOT NULL AS is_default
+  FROM saved_views v
+  LEFT JOIN users u ON u.id = v.user_id
+  LEFT JOIN user_default_views d ON d.view_id = v.id AND d.user_id = ?
+`;
+
+const parseState = (value) => {
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return {};
+  }
+};
+
+const formatView = (view, userId) => ({
+  id: view.id,
+  name: view.name,
+  shared: !!view.shared,
+  ownerId: view.user_id,
+  ownerName: view.owner_name || 'Removed user',
+  isOwner: String(view.user_id) === String(userId),
+  isDefault: !!view.is_default,
+  state: parseState(view.state),
+  createdAt: view.created_at,
+  updatedAt: view.updated_at
+});
+
+// A view the user can see: their own or one shared with the team, or null
+const findView = async (req, id = req.params.id) => {
+  const [views] = await pool.query(
+    `${VIEWS_SELECT} WHERE v.id = ? AND (v.user_id = ? OR v.shared = TRUE)`,
+    [req.user.id, id, req.user.id]
+  );
+  return views.length > 0 ? views[0] : null;
+};
+
+// View names are required and trimmed; returns null once an error response has been sent
+const checkName = (name, res) => {
+  const text = typeof name === 'string' ? name.trim().replace(/\s+/g, ' ') : '';
+  if (!text) {
+    res.status(400).json({ error: 'View name is required' });
+    return null;
+  }
+  if (text.length > MAX_VIEW_NAME_LENGTH) {
+    res.status(400).json({ error: `View names are limited to ${MAX_VIEW_NAME_LENGTH} characters` });
+    return null;
+  }
+  return text;
+};
+
+// The state as stored JSON; returns null once an error response has been sent
+const checkState = (state, res) => {
+  if (!state || typeof state !== 'object' || Array.isArray(state)) {
+    res.status(400).json({ error: 'View state must be an object' });
+    return null;
+  }
+  const json = JSON.stringify(state);
+  if (json.length > MAX_VIEW_STATE_LENGTH) {
+    res.status(400).json({ error: 'View state is too large' });
+    return null;
+  }
+  return json;
+};
+
+const findNameConflict = async (userId, name, excludeId = null) => {
+  const [views] = await pool.query(
+    'SELECT id FROM saved_views WHERE user_id = ? AND name = ? AND id <> ?',
+    [userId, name, excludeId || 0]
+  );
+  return views.length > 0;
+};
+
+router.use(requireUser);
+
+// The user's own views and those shared by the rest of the team, by name
+router.get('/', async (req, res) => {
+  try {
+    const [views] = await pool.query(
+      `${VIEWS_SELECT} WHERE v.user_id = ? OR v.shared = TRUE ORDER BY v.name, v.id`,
+      [req.user.id, req.user.id]
+    );
+    res.json(views.map(view => formatView(view, req.user.id)));
+  } catch (error) {
+    console.error('Error fetching views:', error);
+    res.status(500).json({ error: 'Failed to fetch views' });
+  }
+});
+
+// Save a view owned by the logged-in user
+router.post('/', async (req, res) => {
+  const name = checkName(req.body.name, res);
+  if (name === null) return;
+  const state = checkState(req.body.state, res);
+  if (state === null) return;
+
+  try {
+    if (await findNameConflict(req.user.id, name)) {
+      return res.status(409).json({ error: `You already have a view named "${name}"` });
+    }
+
+    const [result] = await pool.query(
+      'INSERT INTO saved_views (user_id, name, shared, state) VALUES (?, ?, ?, ?)',
+      [req.user.id, name, req.body.shared === true, state]
+    );
+    res.status(201).json(formatView(await findView(req, result.insertId), req.user.id));
+  } catch (error) {
+    console.error('Error saving view:', error);
+    res.status(500).json({ error: 'Failed to save view' });
+  }
+});
+
+// Make a view the one the user's customer list opens with; `viewId` null clears it
+router.put('/default', async (req, res) => {
+  const { viewId } = req.body;
+
+  try {
+    if (viewId === null || viewId === undefined) {
+      await pool.query('DELETE FROM user_default_views WHERE user_id = ?', [req.user.id]);
+      return res.status(204).send();
+    }
+
+    if (!(await findView(req, viewId))) {
+      return res.status(404).json({ error: 'View not found' });
+    }
+    await pool.query(
+      `INSERT INTO user_default_views (user_id, view_id) VALUES (?, ?)
+       ON DUPLICATE KEY UPDATE view_id = VALUES(view_id)`,
+      [req.user.id, viewId]
+    );
+    res.json(formatView(await findView(req, viewId), req.user.id));
+  } catch (error) {
+    console.error('Error setting the default view:', error);
+    res.status(500).json({ error: 'Failed to set the default view' });
+  }
+});
+
+// Rename, share or overwrite a view; only its owner may. Views that stop being shared
+// stop being the default of the rest of the team.
+router.put('/:id', async (req, res) => {
+  const changes = [];
+  const params = [];
+
+  if (req.body.name !== undefined) {
+    const name = checkName(req.body.name, res);
+    if (name === null) return;
+    changes.push('name = ?');
+    params.push(name);
+  }
+  if (req.body.state !== undefined) {
+    const state = checkState(req.body.state, res);
+    if (state === null) return;
+    changes.push('state = ?');
+    params.push(state);
+  }
+  if (req.body.shared !== undefined) {
+    changes.push('shared = ?');
+    params.push(req.body.shared === true);
+  }
+
+  try {
+    const view = await findView(req);
+    if (!view) {
+      return res.status(404).json({ error: 'View not found' });
+    }
+    if (String(view.user_id) !== String(req.user.id)) {
+      return res.status(403).json({ error: 'Only the owner can change this view' });
+    }
+    if (changes.length === 0) {
+      return res.json(formatView(view, req.user.id));
+    }
+    if (req.body.name !== undefined && await findNameConflict(req.user.id, params[0], view.id)) {
+      return res.status(409).json({ error: `You already have a view named "${params[0]}"` });
+    }
+
+    await pool.query(`UPDATE saved_views SET ${changes.join(', ')} WHERE id = ?`, [...params, view.id]);
+    if (req.body.shared === false) {
+      await pool.query('DELETE FROM user_default_views WHERE view_id = ? AND user_id <> ?', [view.id, req.user.id]);
+    }
+    res.json(formatView(await findView(req), req.user.id));
+  } catch (error) {
+    console.error('Error updating view:', error);
+    res.status(500).json({ error: 'Failed to update view' });
+  }
+});
+
+// Delete a view; only its owner may
+router.delete('/:id', async (req, res) => {
+  try {
+    const view = await findView(req);
+    if (!view) {
+      return res.status(404).json({ error: 'View not found' });
+    }
+    if (String(view.user_id) !== String(req.user.id)) {
+      return res.status(403).json({ error: 'Only the owner can delete this view' });
+    }
+
+    await pool.query('DELETE FROM saved_views WHERE id = ?', [view.id]);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting view:', error);
+    res.status(500).json({ error: 'Failed to delete view' });
+  }
+});
+
+module.exports = router;
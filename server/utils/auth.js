@@ -0,0 +1,34 @@
+// Identify the user behind a request from the bearer token issued by routes/auth.js
+
+const jwt = require('jsonwebtoken');
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your_jwt_secret';
+
+// The token's payload ({ id, email, role }), or null when the token is missing or invalid
+const getRequestUser = (req) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  if (!token) return null;
+
+  try {
+    return jwt.verify(token, JWT_SECRET);
+  } catch (error) {
+    return null;
+  }
+};
+
+// Route middleware that rejects anonymous requests and sets `req.user`
+const requireUser = (req, res, next) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Log in to continue' });
+  }
+  req.user = user;
+  next();
+};
+
+module.exports = {
+  JWT_SECRET,
+  getRequestUser,
+  requireUser
+};
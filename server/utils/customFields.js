@@ -0,0 +1,187 @@
+// Helpers shared by the routes that read custom field definitions
+
+const { normalizeOptions } = require('./fieldOptions');
+const { parseMultiselect } = require('./fieldValidation');
+
+// JSON columns may come back parsed, as a JSON string, or double-encoded by older clients
+const parseJsonColumn = (value) => {
+  let parsed = value;
+  while (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch (error) {
+      return parsed;
+    }
+  }
+  return parsed === null ? undefined : parsed;
+};
+
+// Normalize a value received from a client before it goes into a JSON column
+const toJsonColumn = (value) => {
+  const parsed = parseJsonColumn(value);
+  return parsed === undefined ? null : JSON.stringify(parsed);
+};
+
+// Options are always handed out and stored in object form, whatever format the row or client used
+const parseOptionsColumn = (value) => {
+  const options = parseJsonColumn(value);
+  return options === undefined ? undefined : normalizeOptions(options);
+};
+
+const toOptionsColumn = (value) => {
+  const options = parseOptionsColumn(value);
+  return options === undefined ? null : JSON.stringify(options);
+};
+
+// Format a custom_fields row for API responses
+const formatField = (field) => ({
+  id: field.id,
+  name: field.name,
+  type: field.type,
+  options: parseOptionsColumn(field.options),
+  validation: parseJsonColumn(field.validation) || null,
+  position: field.position,
+  section: field.section || null,
+  formula: field.formula || null,
+  visibility: parseJsonColumn(field.visibility) || null,
+  defaultValue: parseJsonColumn(field.default_value) || null,
+  archived: !!field.archived_at,
+  archivedAt: field.archived_at || null
+});
+
+// Load the definitions of every active (non-archived) custom field
+const getFieldDefinitions = async (connection) => {
+  const [fields] = await connection.query(
+    'SELECT * FROM custom_fields WHERE archived_at IS NULL ORDER BY position, id'
+  );
+  return fields.map(formatField);
+};
+
+// Resolve a field's default into the text stored in customer_field_values, or null
+// (mirrors resolveCustomFieldDefault in src/utils/data.ts)
+const resolveDefaultValue = (field) => {
+  const defaultValue = field.defaultValue;
+  if (!defaultValue || field.type === 'formula' || field.type === 'relation') return null;
+  
+  if (defaultValue.kind === 'today') {
+    if (field.type !== 'date') return null;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today.toISOString();
+  }
+  
+  if (defaultValue.kind === 'firstOption') {
+    const first = normalizeOptions(field.options).map(option => option.value)[0];
+    if (!first) return null;
+    if (field.type === 'multiselect') return JSON.stringify([first]);
+    return field.type === 'select' ? first : null;
+  }
+  
+  const value = defaultValue.value;
+  if (value === null || value === undefined || value === '') return null;
+  if (field.type === 'multiselect') return JSON.stringify(Array.isArray(value) ? value : [String(value)]);
+  if (field.type === 'boolean') return value === true || value === 'true' ? 'true' : 'false';
+  return String(value);
+};
+
+// Find another customer already holding a value of a unique field.
+// Values are compared ignoring case and surrounding whitespace (see normalizeUniqueValue).
+// `excludeCustomerId` may be a list, e.g. both customers of a merge.
+const findValueConflict = async (connection, fieldId, value, excludeCustomerId = null) => {
+  const excluded = [].concat(excludeCustomerId || 0);
+  const [rows] = await connection.query(`
+    SELECT c.id, c.name, c.deleted_at
+    FROM customer_field_values cfv
+    JOIN customers c ON c.id = cfv.customer_id
+    WHERE cfv.field_id = ?
+      AND LOWER(TRIM(cfv.value)) = LOWER(TRIM(?))
+      AND cfv.customer_id NOT IN (?)
+    LIMIT 1
+  `, [fieldId, String(value), excluded]);
+  
+  if (rows.length === 0) return null;
+  // Customers in the trash keep their values, since they may be restored
+  return { customerId: rows[0].id.toString(), customerName: rows[0].name, inTrash: !!rows[0].deleted_at };
+};
+
+// Values of a field shared by several customers not in the trash, compared like
+// findValueConflict does, each with the customers holding it: [{value, customers}]
+const findDuplicateValues = async (connection, fieldId) => {
+  const [rows] = await connection.query(`
+    SELECT d.normalized, cfv.value, c.id, c.name
+    FROM customer_field_values cfv
+    JOIN customers c ON c.id = cfv.customer_id AND c.deleted_at IS NULL
+    JOIN (
+      SELECT LOWER(TRIM(v.value)) AS normalized
+      FROM customer_field_values v
+      JOIN customers vc ON vc.id = v.customer_id AND vc.deleted_at IS NULL
+      WHERE v.field_id = ? AND v.value IS NOT NULL AND TRIM(v.value) <> ''
+      GROUP BY normalized
+      HAVING COUNT(*) > 1
+    ) d ON d.normalized = LOWER(TRIM(cfv.value))
+    WHERE cfv.field_id = ?
+    ORDER BY d.normalized, c.name
+  `, [fieldId, fieldId]);
+  
+  const duplicates = new Map();
+  for (const row of rows) {
+    if (!duplicates.has(row.normalized)) {
+      duplicates.set(row.normalized, { value: row.value.trim(), customers: [] });
+    }
+    duplicates.get(row.normalized).customers.push({ customerId: row.id.toString(), customerName: row.name });
+  }
+  return [...duplicates.values()];
+};
+
+// Ids among the given customer ids that do not exist (any more) or are in the trash; links
+// to customers in the trash are not shown, like selectLinkedCustomers leaves them out
+const findMissingCustomers = async (connection, ids) => {
+  if (ids.length === 0) return [];
+  const [rows] = await connection.query('SELECT id FROM customers WHERE id IN (?) AND deleted_at IS NULL', [ids]);
+  const existing = new Set(rows.map(row => row.id.toString()));
+  return ids.filter(id => !existing.has(id));
+};
+
+// Drop a customer from every relation value linking to it, or point those links at
+// `replacementId` instead when customers are merged; values left empty are removed.
+// Runs on the caller's connection so it can share the delete's transaction.
+const removeCustomerLinks = async (connection, customerId, replacementId = null) => {
+  const id = customerId.toString();
+  const [rows] = await connection.query(`
+    SELECT cfv.id, cfv.customer_id, cfv.value
+    FROM customer_field_values cfv
+    JOIN custom_fields cf ON cf.id = cfv.field_id
+    WHERE cf.type = 'relation' AND cfv.value LIKE ?
+  `, [`%"${id}"%`]);
+  
+  for (const row of rows) {
+    // A customer never links to itself, so the replacement's own links are dropped
+    const replacement = replacementId && row.customer_id.toString() !== replacementId.toString()
+      ? replacementId.toString()
+      : null;
+    const remaining = [...new Set(
+      parseMultiselect(row.value).map(linked => (linked === id ? replacement : linked)).filter(Boolean)
+    )];
+    if (remaining.length === 0) {
+      await connection.query('DELETE FROM customer_field_values WHERE id = ?', [row.id]);
+    } else {
+      await connection.query('UPDATE customer_field_values SET value = ? WHERE id = ?', [JSON.stringify(remaining), row.id]);
+    }
+  }
+  
+  return rows.length;
+};
+
+module.exports = {
+  parseJsonColumn,
+  toJsonColumn,
+  parseOptionsColumn,
+  toOptionsColumn,
+  formatField,
+  getFieldDefinitions,
+  resolveDefaultValue,
+  findValueConflict,
+  findDuplicateValues,
+  findMissingCustomers,
+  removeCustomerLinks
+};
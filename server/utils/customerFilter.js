@@ -0,0 +1,209 @@
+// Server-side counterpart of the customer filter helpers in src/utils/customerFilter.ts.
+// A filter is a group {kind: 'group', combinator: 'and' | 'or', conditions} whose conditions
+// are {kind: 'condition', field, operator, value} or further groups.
+
+const MAX_FILTER_DEPTH = 4;
+const MAX_FILTER_CONDITIONS = 50;
+
+const BASE_FIELD_KINDS = {
+  name: 'text',
+  dob: 'date',
+  phone: 'text',
+  email: 'text',
+  occupation: 'text',
+  location: 'text'
+};
+
+const FIELD_TYPE_KINDS = {
+  number: 'number',
+  date: 'date',
+  select: 'option',
+  multiselect: 'options',
+  boolean: 'boolean',
+  relation: 'link'
+};
+
+const OPERATORS = {
+  text: ['contains', 'equals', 'inList', 'isEmpty', 'isNotEmpty'],
+  number: ['equals', 'before', 'after', 'between', 'isEmpty', 'isNotEmpty'],
+  date: ['equals', 'before', 'after', 'between', 'isEmpty', 'isNotEmpty'],
+  option: ['equals', 'inList', 'isEmpty', 'isNotEmpty'],
+  options: ['contains', 'inList', 'isEmpty', 'isNotEmpty'],
+  boolean: ['equals'],
+  link: ['isEmpty', 'isNotEmpty']
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Whether a table above has an entry of its own for `key`; inherited keys such as
+// `constructor` are not field names or kinds
+const hasOwnKey = (table, key) => Object.prototype.hasOwnProperty.call(table, key);
+
+// The field a condition filters on with the kind of its values, or null. Formula values
+// are computed in the browser and cannot be filtered on.
+const findFilterField = (fieldId, definitions) => {
+  if (hasOwnKey(BASE_FIELD_KINDS, fieldId)) {
+    return { column: `c.${fieldId}`, kind: BASE_FIELD_KINDS[fieldId] };
+  }
+  const field = definitions.find(entry => `custom:${entry.id}` === fieldId);
+  if (!field || field.type === 'formula') return null;
+  return {
+    column: `(SELECT cfv.value FROM customer_field_values cfv WHERE cfv.customer_id = c.id AND cfv.field_id = ${Number(field.id)})`,
+    kind: FIELD_TYPE_KINDS[field.type] || 'text',
+    custom: true,
+    name: field.name
+  };
+};
+
+const toList = (value) =>
+  (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]).map(entry => String(entry).trim());
+
+// Check a condition's values for its operator; returns an error message or null
+const checkConditionValues = (condition, kind) => {
+  const values = toList(condition.value);
+  switch (condition.operator) {
+    case 'isEmpty':
+    case 'isNotEmpty':
+      return null;
+    case 'between':
+      if (values.length !== 2 || !values.every(Boolean)) return 'between needs a from and a to value';
+      break;
+    case 'inList':
+      if (!values.some(Boolean)) return 'is any of needs at least one value';
+      break;
+    default:
+      if (values.length !== 1 || !values[0]) return `${condition.operator} needs a value`;
+  }
+  if (kind === 'number' && values.some(value => isNaN(Number(value)))) return 'Numbers are expected';
+  if (kind === 'date' && values.some(value => !DAY_PATTERN.test(value))) return 'Dates are expected as yyyy-MM-dd';
+  if (kind === 'boolean' && !['true', 'false'].includes(values[0])) return 'true or false is expected';
+  return null;
+};
+
+/**
+ * Parse the `filter` parameter of GET /customers (JSON). Returns {filter}, with null when
+ * there is none, or {error} describing what is wrong with it.
+ */
+const parseCustomerFilter = (value, definitions) => {
+  if (value === undefined || value === '') return { filter: null };
+
+  let parsed;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    return { error: 'filter must be JSON' };
+  }
+
+  let conditionCount = 0;
+  const check = (node, depth) => {
+    if (!node || typeof node !== 'object') return 'Filter entries must be objects';
+    if (node.kind === 'group') {
+      if (depth > MAX_FILTER_DEPTH) return `Filter groups can be nested at most ${MAX_FILTER_DEPTH} deep`;
+      if (node.combinator !== 'and' && node.combinator !== 'or') return 'Filter groups combine with "and" or "or"';
+      if (!Array.isArray(node.conditions)) return 'Filter groups need a list of conditions';
+      for (const child of node.conditions) {
+        const error = check(child, depth + 1);
+        if (error) return error;
+      }
+      return null;
+    }
+    if (node.kind !== 'condition') return 'Filter entries are groups or conditions';
+
+    conditionCount += 1;
+    if (conditionCount > MAX_FILTER_CONDITIONS) return `A filter can have at most ${MAX_FILTER_CONDITIONS} conditions`;
+    const field = findFilterField(String(node.field), definitions);
+    if (!field) return `Customers cannot be filtered by "${node.field}"`;
+    if (!hasOwnKey(OPERATORS, field.kind) || !OPERATORS[field.kind].includes(node.operator)) return `"${node.operator}" cannot be used on ${node.field}`;
+    const error = checkConditionValues(node, field.kind);
+    return error ? `${field.name || node.field}: ${error}` : null;
+  };
+
+  if (!parsed || parsed.kind !== 'group') return { error: 'A filter is a group of conditions' };
+  const error = check(parsed, 1);
+  return error ? { error } : { filter: parsed };
+};
+
+const escapeLike = (text) => text.replace(/[\\%_]/g, '\\$&');
+
+// The calendar day a value falls on for the user, as a DATE. Custom date values are stored
+// as UTC timestamps (or plain days), so they are moved by the user's offset from UTC first.
+const toDay = (field, utcOffset) => {
+  if (!field.custom) return { sql: field.column, params: [] };
+  const value = field.column;
+  return {
+    sql: `(CASE WHEN LENGTH(${value}) = 10 THEN DATE(${value}) ELSE DATE(DATE_ADD(STR_TO_DATE(LEFT(${value}, 19), '%Y-%m-%dT%H:%i:%s'), INTERVAL ? MINUTE)) END)`,
+    params: [utcOffset]
+  };
+};
+
+const buildCondition = (condition, definitions, utcOffset) => {
+  const field = findFilterField(condition.field, definitions);
+  const value = field.column;
+  const values = toList(condition.value);
+  const listy = field.kind === 'options' || field.kind === 'link';
+  const empty = `(${value} IS NULL OR ${value} = ''${listy ? ` OR ${value} = '[]'` : ''})`;
+
+  if (condition.operator === 'isEmpty') return { sql: empty, params: [] };
+  if (condition.operator === 'isNotEmpty') return { sql: `NOT ${empty}`, params: [] };
+
+  if (field.kind === 'boolean') {
+    const checked = `COALESCE(${value} IN ('true', '1'), FALSE)`;
+    return { sql: values[0] === 'true' ? checked : `NOT ${checked}`, params: [] };
+  }
+
+  if (field.kind === 'number' || field.kind === 'date') {
+    const compared = field.kind === 'number'
+      ? { sql: `CAST(${value} AS DECIMAL(65, 10))`, params: [] }
+      : toDay(field, utcOffset);
+    const test = {
+      equals: '= ?',
+      before: '< ?',
+      after: '> ?',
+      between: 'BETWEEN ? AND ?'
+    }[condition.operator];
+    const operands = condition.operator === 'between' ? values : [values[0]];
+    return {
+      sql: `(NOT ${empty} AND ${compared.sql} ${test})`,
+      params: [...compared.params, ...(field.kind === 'number' ? operands.map(Number) : operands)]
+    };
+  }
+
+  if (field.kind === 'options') {
+    // Stored as a JSON array; older values are plain text
+    const has = `(CASE WHEN JSON_VALID(${value}) THEN JSON_CONTAINS(${value}, JSON_QUOTE(?)) ELSE ${value} = ? END)`;
+    const list = condition.operator === 'contains' ? [values[0]] : values.filter(Boolean);
+    return {
+      sql: `(${list.map(() => has).join(' OR ')})`,
+      params: list.flatMap(entry => [entry, entry])
+    };
+  }
+
+  // Text and options compare regardless of case through the column collation
+  if (condition.operator === 'contains') {
+    return { sql: `${value} LIKE ?`, params: [`%${escapeLike(values[0])}%`] };
+  }
+  const list = condition.operator === 'equals' ? [values[0]] : values.filter(Boolean);
+  return { sql: `${value} IN (?)`, params: [list] };
+};
+
+/**
+ * SQL condition for a parsed filter; customers are aliased as `c`. `utcOffset` is the
+ * user's offset from UTC in minutes, for the day custom date values fall on.
+ */
+const buildFilterCondition = (group, definitions, utcOffset = 0) => {
+  const parts = group.conditions.map(node => node.kind === 'group'
+    ? buildFilterCondition(node, definitions, utcOffset)
+    : buildCondition(node, definitions, utcOffset));
+  if (parts.length === 0) {
+    return { sql: group.combinator === 'and' ? 'TRUE' : 'FALSE', params: [] };
+  }
+  return {
+    sql: `(${parts.map(part => part.sql).join(group.combinator === 'and' ? ' AND ' : ' OR ')})`,
+    params: parts.flatMap(part => part.params)
+  };
+};
+
+module.exports = {
+  buildFilterCondition,
+  parseCustomerFilter
+};
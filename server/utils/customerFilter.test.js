@@ -0,0 +1,21 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { parseCustomerFilter } = require('./customerFilter');
+
+const filterOn = (field) => JSON.stringify({
+  kind: 'group',
+  combinator: 'and',
+  conditions: [{ kind: 'condition', field, operator: 'equals', value: 'x' }]
+});
+
+test('filters on built-in fields', () => {
+  assert.deepStrictEqual(parseCustomerFilter(filterOn('name'), []).error, undefined);
+});
+
+test('rejects inherited object keys as field names', () => {
+  for (const field of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+    assert.deepStrictEqual(parseCustomerFilter(filterOn(field), []), {
+      error: `Customers cannot be filtered by "${field}"`
+    });
+  }
+});
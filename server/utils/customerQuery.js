@@ -0,0 +1,160 @@
+// Server-side counterpart of the customer query helpers in src/utils/customerQuery.ts
+
+const { normalizeOptions } = require('./fieldOptions');
+const { buildFilterCondition, parseCustomerFilter } = require('./customerFilter');
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+// Built-in columns the list can be sorted by
+const BASE_SORT_COLUMNS = ['name', 'dob', 'phone', 'email', 'occupation', 'location'];
+
+// Custom field types whose stored value sorts like the table shows it; formula values are
+// computed in the browser and multiple values have no single order
+const SORTABLE_FIELD_TYPES = ['text', 'number', 'date', 'select', 'boolean', 'url', 'email', 'phone'];
+
+// The definition of a custom field the list can be sorted by, or null
+const findSortableField = (columnId, definitions) => {
+  if (!columnId.startsWith('custom:')) return null;
+  const field = definitions.find(entry => `custom:${entry.id}` === columnId);
+  return field && SORTABLE_FIELD_TYPES.includes(field.type) ? field : null;
+};
+
+// Parse `name:asc,custom:12:desc` into [{id, desc}]; unknown columns are reported
+const parseSort = (value, definitions) => {
+  const sort = [];
+  for (const entry of String(value || '').split(',').filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    const id = separator === -1 ? entry : entry.slice(0, separator);
+    const direction = separator === -1 ? 'asc' : entry.slice(separator + 1);
+    if (direction !== 'asc' && direction !== 'desc') {
+      return { error: `Unknown sort direction "${direction}"` };
+    }
+    if (!BASE_SORT_COLUMNS.includes(id) && !findSortableField(id, definitions)) {
+      return { error: `Customers cannot be sorted by "${id}"` };
+    }
+    if (!sort.some(existing => existing.id === id)) {
+      sort.push({ id, desc: direction === 'desc' });
+    }
+  }
+  return { sort };
+};
+
+const parsePositiveInteger = (value, fallback) => {
+  if (value === undefined || value === '') return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : null;
+};
+
+/**
+ * Read the paging, sort and filter parameters of GET /customers. Returns the query, or
+ * {error} when a parameter is invalid. `paginated` is false when no page was asked for,
+ * in which case every matching customer is returned.
+ */
+const parseCustomerQuery = (params, definitions) => {
+  const page = parsePositiveInteger(params.page, 1);
+  const pageSize = parsePositiveInteger(params.pageSize, DEFAULT_PAGE_SIZE);
+  if (page === null) return { error: 'page must be a positive whole number' };
+  if (pageSize === null || pageSize > MAX_PAGE_SIZE) {
+    return { error: `pageSize must be a whole number from 1 to ${MAX_PAGE_SIZE}` };
+  }
+
+  const { sort, error } = parseSort(params.sort, definitions);
+  if (error) return { error };
+  const parsedFilter = parseCustomerFilter(params.filter, definitions);
+  if (parsedFilter.error) return { error: parsedFilter.error };
+  const utcOffset = params.utcOffset === undefined ? 0 : Number(params.utcOffset);
+  if (!Number.isInteger(utcOffset) || Math.abs(utcOffset) > 14 * 60) {
+    return { error: 'utcOffset must be a number of minutes' };
+  }
+
+  return {
+    paginated: params.page !== undefined || params.pageSize !== undefined,
+    page,
+    pageSize,
+    sort,
+    search: String(params.search || '').trim(),
+    tagIds: String(params.tags || '').split(',').map(id => id.trim()).filter(Boolean),
+    filter: parsedFilter.filter,
+    utcOffset
+  };
+};
+
+// WHERE clause for the customers matching the search and the filter, and carrying every
+// tag asked for; customers are aliased as `c`
+const buildCustomerFilter = (query, definitions) => {
+  const conditions = ['c.deleted_at IS NULL'];
+  const params = [];
+
+  if (query.search) {
+    const pattern = `%${query.search}%`;
+    conditions.push('(c.name LIKE ? OR c.phone LIKE ? OR c.email LIKE ?)');
+    params.push(pattern, pattern, pattern);
+  }
+  for (const tagId of query.tagIds) {
+    conditions.push('EXISTS (SELECT 1 FROM customer_tags ct WHERE ct.customer_id = c.id AND ct.tag_id = ?)');
+    params.push(tagId);
+  }
+  if (query.filter) {
+    const condition = buildFilterCondition(query.filter, definitions, query.utcOffset);
+    conditions.push(condition.sql);
+    params.push(...condition.params);
+  }
+
+  return { sql: conditions.join(' AND '), params };
+};
+
+/**
+ * ORDER BY clause for a sort (mirrors compareCustomFieldValues in src/utils/data.ts):
+ * empty values come last in both directions, numbers sort as numbers and options by
+ * their label. Customers that sort the same stay in the order they were added, so pages
+ * never overlap. Without a sort the newest customers come first.
+ */
+const buildCustomerOrder = (sort, definitions) => {
+  const terms = [];
+  const params = [];
+
+  for (const { id, desc } of sort) {
+    const direction = desc ? 'DESC' : 'ASC';
+    const field = findSortableField(id, definitions);
+    if (!field) {
+      const column = `c.${id}`;
+      terms.push(id === 'dob'
+        ? `${column} IS NULL, ${column} ${direction}`
+        : `(${column} IS NULL OR ${column} = ''), ${column} ${direction}`);
+      continue;
+    }
+
+    const value = '(SELECT cfv.value FROM customer_field_values cfv WHERE cfv.customer_id = c.id AND cfv.field_id = ?)';
+    terms.push(`(${value} IS NULL OR ${value} = '')`);
+    params.push(field.id, field.id);
+
+    if (field.type === 'number') {
+      terms.push(`CAST(${value} AS DECIMAL(65, 10)) ${direction}`);
+      params.push(field.id);
+    } else if (field.type === 'select') {
+      const options = normalizeOptions(field.options)
+        .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+      if (options.length > 0) {
+        terms.push(`FIELD(${value}, ${options.map(() => '?').join(', ')}) ${direction}`);
+        params.push(field.id, ...options.map(option => option.value));
+      }
+    } else {
+      terms.push(`${value} ${direction}`);
+      params.push(field.id);
+    }
+  }
+
+  if (sort.length === 0) {
+    terms.push('c.created_at DESC');
+  }
+  terms.push('c.id ASC');
+
+  return { sql: terms.join(', '), params };
+};
+
+module.exports = {
+  buildCustomerFilter,
+  buildCustomerOrder,
+  parseCustomerQuery
+};
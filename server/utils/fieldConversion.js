@@ -0,0 +1,85 @@
+// Server-side counterpart of src/utils/fieldConversion.ts, working on the raw text
+// stored in customer_field_values.
+
+const { isEmptyValue, parseMultiselect } = require('./fieldValidation');
+const { normalizeOptions } = require('./fieldOptions');
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'on'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'off'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const fail = () => ({ ok: false, value: null });
+const success = (value) => ({ ok: true, value });
+
+// Key of the option whose key or label matches the text, ignoring case and surrounding whitespace
+const matchOption = (text, options) => {
+  const wanted = text.trim().toLowerCase();
+  const option = options.find(entry => entry.value.trim().toLowerCase() === wanted) ||
+    options.find(entry => entry.label.trim().toLowerCase() === wanted);
+  return option ? option.value : undefined;
+};
+
+// Convert a stored value to the text representation of another type
+const convertStoredValue = (raw, fromType, toType, rawOptions = []) => {
+  if (isEmptyValue(raw)) return success(null);
+  const options = normalizeOptions(rawOptions);
+  // Formula fields never store values, so nothing can be carried over into one
+  if (toType === 'formula') return fail();
+  // Customer ids only mean something in a relation field
+  if (fromType === 'relation' || toType === 'relation') return fromType === toType ? success(raw) : fail();
+  if (fromType === toType && toType !== 'select' && toType !== 'multiselect') return success(raw);
+
+  const items = fromType === 'multiselect' ? parseMultiselect(raw) : null;
+  let text = items ? items.join(', ') : String(raw).trim();
+  if (fromType === 'boolean') text = raw === 'true' ? 'Yes' : 'No';
+
+  switch (toType) {
+    case 'number': {
+      const cleaned = text.replace(/[\s,$€£]/g, '');
+      return /^-?\d+(\.\d+)?$/.test(cleaned) ? success(String(parseFloat(cleaned))) : fail();
+    }
+    case 'date': {
+      if (fromType === 'number' || fromType === 'boolean') return fail();
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? fail() : success(date.toISOString());
+    }
+    case 'boolean': {
+      const word = (fromType === 'boolean' ? String(raw) : text).toLowerCase();
+      if (TRUE_WORDS.includes(word)) return success('true');
+      if (FALSE_WORDS.includes(word)) return success('false');
+      return fail();
+    }
+    case 'select': {
+      if (items && items.length !== 1) return fail();
+      const option = matchOption(items ? items[0] : text, options);
+      return option ? success(option) : fail();
+    }
+    case 'multiselect': {
+      const parts = items || text.split(',').map(part => part.trim()).filter(Boolean);
+      const matched = parts.map(part => matchOption(part, options));
+      return matched.every(Boolean) ? success(JSON.stringify(matched)) : fail();
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(text) ? success(text) : fail();
+    case 'url':
+      return /^(https?:\/\/)?[^\s/]+\.[^\s]+$/i.test(text) ? success(text) : fail();
+    case 'phone':
+      return (text.match(/\d/g) || []).length >= 5 && /^[\d\s()+\-.x]+$/i.test(text) ? success(text) : fail();
+    default:
+      return success(text);
+  }
+};
+
+// Apply option renames to a stored select/multiselect value
+const renameStoredOptions = (raw, type, renames) => {
+  if (!renames.length || isEmptyValue(raw)) return raw;
+  const rename = (item) => (renames.find(entry => entry.from === item) || { to: item }).to;
+  return type === 'multiselect'
+    ? JSON.stringify(parseMultiselect(raw).map(rename))
+    : rename(String(raw));
+};
+
+module.exports = {
+  convertStoredValue,
+  renameStoredOptions
+};
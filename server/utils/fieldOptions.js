@@ -0,0 +1,41 @@
+// Server-side counterpart of the option helpers in src/utils/data.ts.
+// Options are { value, label, color, description } objects; customers store `value`.
+
+const OPTION_COLORS = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'];
+
+// Bring options into their object form; plain strings (the old format) become
+// an option whose value and label are both that string
+const normalizeOptions = (options) => {
+  if (!Array.isArray(options)) return [];
+  
+  return options
+    .map(option => {
+      if (typeof option === 'string' || typeof option === 'number') {
+        const text = String(option).trim();
+        return text ? { value: text, label: text, color: null } : null;
+      }
+      if (!option || typeof option !== 'object') return null;
+      
+      const key = String(option.value !== undefined && option.value !== null ? option.value : option.label || '').trim();
+      if (!key) return null;
+      const normalized = {
+        value: key,
+        label: String(option.label || '').trim() || key,
+        color: OPTION_COLORS.includes(option.color) ? option.color : null
+      };
+      if (typeof option.description === 'string' && option.description.trim()) {
+        normalized.description = option.description.trim();
+      }
+      return normalized;
+    })
+    .filter(Boolean);
+};
+
+// Stored values a select or multiselect field accepts
+const optionValues = (options) => normalizeOptions(options).map(option => option.value);
+
+module.exports = {
+  OPTION_COLORS,
+  normalizeOptions,
+  optionValues
+};
@@ -0,0 +1,138 @@
+// Server-side counterpart of src/utils/validation.ts.
+// Keep the rules and messages in sync so the API rejects exactly what the form does.
+
+const { optionValues } = require('./fieldOptions');
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isEmptyValue = (value) => {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+const isValidUrl = (value) => {
+  try {
+    const url = new URL(/^[a-z][a-z\d+\-.]*:\/\//i.test(value) ? value : `https://${value}`);
+    return url.hostname.includes('.');
+  } catch (error) {
+    return false;
+  }
+};
+
+// Values arrive serialized as text; multiselect and relation values are JSON arrays
+const parseMultiselect = (value) => {
+  if (Array.isArray(value)) return value;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+  } catch (error) {
+    return String(value).split(',').map(item => item.trim()).filter(Boolean);
+  }
+};
+
+const parseRuleDate = (value) => new Date(`${value}T00:00:00`);
+
+// Returns an error message for an invalid value, or null
+const validateFieldValue = (field, value) => {
+  const rules = field.validation || {};
+
+  // Formula values are computed from the other fields; anything submitted is ignored
+  if (field.type === 'formula') return null;
+
+  if (isEmptyValue(value)) {
+    return rules.required ? `${field.name} is required` : null;
+  }
+
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(value);
+      if (isNaN(number)) return `${field.name} must be a number`;
+      if (rules.min !== undefined && rules.min !== null && number < rules.min) {
+        return `${field.name} must be at least ${rules.min}`;
+      }
+      if (rules.max !== undefined && rules.max !== null && number > rules.max) {
+        return `${field.name} must be at most ${rules.max}`;
+      }
+      return null;
+    }
+    case 'date': {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) return `${field.name} must be a valid date`;
+      if (rules.minDate && date < parseRuleDate(rules.minDate)) {
+        return `${field.name} must be on or after ${rules.minDate}`;
+      }
+      if (rules.maxDate) {
+        const endOfMaxDay = parseRuleDate(rules.maxDate);
+        endOfMaxDay.setDate(endOfMaxDay.getDate() + 1);
+        if (date >= endOfMaxDay) return `${field.name} must be on or before ${rules.maxDate}`;
+      }
+      return null;
+    }
+    case 'select':
+      if (Array.isArray(field.options) && !optionValues(field.options).includes(String(value))) {
+        return `${field.name} must be one of the available options`;
+      }
+      return null;
+    case 'multiselect':
+      if (Array.isArray(field.options) && parseMultiselect(value).some(item => !optionValues(field.options).includes(item))) {
+        return `${field.name} contains an option that is not available`;
+      }
+      return null;
+    case 'boolean':
+      return ['true', 'false', true, false].includes(value) ? null : `${field.name} must be yes or no`;
+    // Whether the linked customers exist is checked against the database by the customers route
+    case 'relation':
+      return parseMultiselect(value).every(id => /^\d+$/.test(id)) ? null : `${field.name} must link to customers`;
+    default: {
+      const text = String(value);
+      if (field.type === 'email' && !EMAIL_PATTERN.test(text)) {
+        return `${field.name} must be a valid email address`;
+      }
+      if (field.type === 'url' && !isValidUrl(text)) {
+        return `${field.name} must be a valid URL`;
+      }
+      if (rules.maxLength && text.length > rules.maxLength) {
+        return `${field.name} must be at most ${rules.maxLength} characters`;
+      }
+      if (rules.pattern) {
+        try {
+          if (!new RegExp(rules.pattern).test(text)) {
+            return rules.patternMessage || `${field.name} has an invalid format`;
+          }
+        } catch (error) {
+          console.warn(`Invalid pattern for field ${field.name}:`, error);
+        }
+      }
+      return null;
+    }
+  }
+};
+
+/**
+ * Validate submitted custom field values against every field definition.
+ * Fields missing from the submission are checked too, so required rules apply.
+ * Returns a list of {fieldId, field, message}.
+ */
+const validateCustomFieldValues = (definitions, customFields = []) => {
+  const submitted = new Map(
+    (Array.isArray(customFields) ? customFields : [])
+      .filter(field => field && field.id !== undefined && field.id !== null)
+      .map(field => [field.id.toString(), field.value])
+  );
+
+  return definitions
+    .map(field => {
+      const message = validateFieldValue(field, submitted.get(field.id.toString()));
+      return message ? { fieldId: field.id.toString(), field: field.name, message } : null;
+    })
+    .filter(Boolean);
+};
+
+module.exports = {
+  isEmptyValue,
+  parseMultiselect,
+  validateFieldValue,
+  validateCustomFieldValues
+};
@@ -0,0 +1,86 @@
+// Server-side counterpart of src/utils/visibility.ts, working on the submitted
+// (serialized) values. Keep the operators in sync with the client.
+
+const { isEmptyValue, parseMultiselect } = require('./fieldValidation');
+
+const pad = (number) => String(number).padStart(2, '0');
+
+// Dates compare by calendar day (yyyy-MM-dd), everything else as case-insensitive text
+const toComparableText = (value, type) => {
+  if (type === 'date') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+  }
+  return String(value).trim().toLowerCase();
+};
+
+const toComparableNumber = (value) => {
+  if (typeof value === 'string' && isNaN(Number(value))) return new Date(value).getTime();
+  return Number(value);
+};
+
+const matchesCondition = (condition, value, type) => {
+  const empty = isEmptyValue(value) || (type === 'multiselect' && parseMultiselect(value).length === 0);
+  if (condition.operator === 'isEmpty') return empty;
+  if (condition.operator === 'isNotEmpty') return !empty;
+  if (empty) return condition.operator === 'notEquals';
+
+  const expected = String(condition.value ?? '').trim().toLowerCase();
+  const items = type === 'multiselect'
+    ? parseMultiselect(value).map(item => toComparableText(item))
+    : [toComparableText(value, type)];
+
+  switch (condition.operator) {
+    case 'equals':
+      return items.length === 1 && items[0] === expected;
+    case 'notEquals':
+      return !(items.length === 1 && items[0] === expected);
+    case 'contains':
+      return type === 'multiselect' ? items.includes(expected) : items[0].includes(expected);
+    case 'greaterThan':
+      return toComparableNumber(value) > toComparableNumber(condition.value ?? '');
+    case 'lessThan':
+      return toComparableNumber(value) < toComparableNumber(condition.value ?? '');
+    default:
+      return true;
+  }
+};
+
+/**
+ * Ids of the fields whose show-when conditions hold for the given values.
+ * `values` maps field id (string) to the submitted value.
+ */
+const getVisibleFieldIds = (definitions, values) => {
+  const visibility = new Map();
+  const inProgress = new Set();
+  const byId = new Map(definitions.map(field => [field.id.toString(), field]));
+
+  const isVisible = (field) => {
+    const id = field.id.toString();
+    if (visibility.has(id)) return visibility.get(id);
+    const conditions = (field.visibility && field.visibility.conditions) || [];
+    if (conditions.length === 0) return true;
+    // A condition loop cannot be satisfied; hide the fields involved
+    if (inProgress.has(id)) return false;
+
+    inProgress.add(id);
+    const results = conditions.map(condition => {
+      const source = byId.get(String(condition.fieldId));
+      const value = source && isVisible(source) ? values.get(String(condition.fieldId)) : null;
+      return matchesCondition(condition, value, source && source.type);
+    });
+    inProgress.delete(id);
+
+    const visible = field.visibility.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+    visibility.set(id, visible);
+    return visible;
+  };
+
+  return new Set(definitions.filter(isVisible).map(field => field.id.toString()));
+};
+
+module.exports = {
+  getVisibleFieldIds
+};
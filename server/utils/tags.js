@@ -0,0 +1,133 @@
+// Server-side counterpart of the tag helpers in src/utils/tags.ts
+
+const { OPTION_COLORS } = require('./fieldOptions');
+
+const MAX_TAG_LENGTH = 50;
+
+// Tags of a customer as a JSON array; select it from a query that aliases customers as `c`
+const CUSTOMER_TAGS_SELECT = `
+  (SELECT JSON_ARRAYAGG(JSON_OBJECT('id', t.id, 'name', t.name, 'color', t.color))
+   FROM customer_tags ct
+   JOIN tags t ON t.id = ct.tag_id
+   WHERE ct.customer_id = c.id) as tags
+`;
+
+// Trim and collapse whitespace; names that end up empty cannot be used
+const normalizeTagName = (name) =>
+  String(name === null || name === undefined ? '' : name).trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+
+// Usable names without duplicates (ignoring case), in the order given
+const normalizeTagNames = (names) => {
+  const seen = new Set();
+  return (Array.isArray(names) ? names : [])
+    .map(normalizeTagName)
+    .filter(name => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const normalizeTagColor = (color) => (OPTION_COLORS.includes(color) ? color : null);
+
+// Format a tags row for API responses; `customers` is only present when the query counted them
+const formatTag = (tag) => {
+  const formatted = { id: tag.id, name: tag.name, color: normalizeTagColor(tag.color) };
+  if (tag.customers !== undefined) {
+    formatted.customers = Number(tag.customers);
+  }
+  return formatted;
+};
+
+// Parse the CUSTOMER_TAGS_SELECT column into tags sorted by name
+const parseTagsColumn = (value) => {
+  let tags = value;
+  if (typeof tags === 'string') {
+    try {
+      tags = JSON.parse(tags);
+    } catch (error) {
+      return [];
+    }
+  }
+  if (!Array.isArray(tags)) return [];
+
+  return tags
+    .filter(tag => tag && tag.id !== null)
+    .map(formatTag)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const getCustomerTags = async (connection, customerId) => {
+  const [tags] = await connection.query(`
+    SELECT t.id, t.name, t.color
+    FROM customer_tags ct
+    JOIN tags t ON t.id = ct.tag_id
+    WHERE ct.customer_id = ?
+    ORDER BY t.name
+  `, [customerId]);
+  return tags.map(formatTag);
+};
+
+// Ids of the tags with the given (normalized) names; names that do not exist yet become
+// new (uncolored) tags
+const upsertTags = async (connection, tagNames) => {
+  // Existing tags keep their color; the unique name makes the insert skip them
+  await connection.query('INSERT IGNORE INTO tags (name) VALUES ?', [tagNames.map(name => [name])]);
+  const [tags] = await connection.query('SELECT id FROM tags WHERE name IN (?)', [tagNames]);
+  return tags.map(tag => tag.id);
+};
+
+// Replace the tags of a customer; names that do not exist yet become new (uncolored) tags
+const setCustomerTags = async (connection, customerId, names) => {
+  const tagNames = normalizeTagNames(names);
+
+  await connection.query('DELETE FROM customer_tags WHERE customer_id = ?', [customerId]);
+  if (tagNames.length === 0) return [];
+
+  const tagIds = await upsertTags(connection, tagNames);
+  await connection.query(
+    'INSERT INTO customer_tags (customer_id, tag_id) VALUES ?',
+    [tagIds.map(tagId => [customerId, tagId])]
+  );
+
+  return getCustomerTags(connection, customerId);
+};
+
+// Add tags to many customers at once, creating tags that do not exist yet
+const addCustomerTags = async (connection, customerIds, names) => {
+  const tagNames = normalizeTagNames(names);
+  if (tagNames.length === 0 || customerIds.length === 0) return;
+
+  const tagIds = await upsertTags(connection, tagNames);
+  await connection.query(
+    'INSERT IGNORE INTO customer_tags (customer_id, tag_id) VALUES ?',
+    [customerIds.flatMap(customerId => tagIds.map(tagId => [customerId, tagId]))]
+  );
+};
+
+// Remove tags (by name) from many customers at once; the tags themselves are kept
+const removeCustomerTags = async (connection, customerIds, names) => {
+  const tagNames = normalizeTagNames(names);
+  if (tagNames.length === 0 || customerIds.length === 0) return;
+
+  await connection.query(`
+    DELETE ct FROM customer_tags ct
+    JOIN tags t ON t.id = ct.tag_id
+    WHERE ct.customer_id IN (?) AND t.name IN (?)
+  `, [customerIds, tagNames]);
+};
+
+module.exports = {
+  CUSTOMER_TAGS_SELECT,
+  MAX_TAG_LENGTH,
+  addCustomerTags,
+  formatTag,
+  getCustomerTags,
+  normalizeTagColor,
+  normalizeTagName,
+  normalizeTagNames,
+  parseTagsColumn,
+  removeCustomerTags,
+  setCustomerTags
+};
@@ -0,0 +1,73 @@
+// Deleted customers stay in the trash until they are restored, purged by hand or
+// purged automatically once they have been there longer than the retention period
+
+const pool = require('../db');
+const { removeCustomerLinks } = require('./customFields');
+
+// Days customers stay in the trash; 0 keeps them until they are purged by hand
+const configuredRetention = parseInt(process.env.TRASH_RETENTION_DAYS, 10);
+const TRASH_RETENTION_DAYS = isNaN(configuredRetention) ? 30 : Math.max(configuredRetention, 0);
+
+// How often the trash is checked for customers past the retention period
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Delete a customer for good. Notes and tags go with it (ON DELETE CASCADE); other
+// customers' relation fields must not keep pointing at it. Runs on the caller's
+// connection so it can share a transaction.
+const purgeCustomer = async (connection, customerId) => {
+  await connection.query('DELETE FROM customer_field_values WHERE customer_id = ?', [customerId]);
+  await removeCustomerLinks(connection, customerId);
+  await connection.query('DELETE FROM customers WHERE id = ?', [customerId]);
+};
+
+// Purge every customer that has been in the trash longer than the retention period.
+// Returns how many were purged.
+const purgeExpiredCustomers = async () => {
+  if (TRASH_RETENTION_DAYS === 0) return 0;
+  
+  const [expired] = await pool.query(
+    'SELECT id FROM customers WHERE deleted_at IS NOT NULL AND deleted_at < NOW() - INTERVAL ? DAY',
+    [TRASH_RETENTION_DAYS]
+  );
+  
+  for (const customer of expired) {
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      await purgeCustomer(connection, customer.id);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+  
+  return expired.length;
+};
+
+// Purge expired customers now and then periodically; failures are logged and
+// retried on the next run
+const scheduleTrashPurge = () => {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredCustomers();
+      if (purged > 0) {
+        console.log(`Purged ${purged} customer(s) from the trash`);
+      }
+    } catch (error) {
+      console.error('Error purging the trash:', error);
+    }
+  };
+  
+  run();
+  return setInterval(run, PURGE_INTERVAL_MS);
+};
+
+module.exports = {
+  TRASH_RETENTION_DAYS,
+  purgeCustomer,
+  purgeExpiredCustomers,
+  scheduleTrashPurge
+};
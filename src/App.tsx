@@ -7,6 +7,9 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { AuthGuard } from "@/components/AuthGuard";
 import Index from "./pages/Index";
+import CustomerDetail from "./pages/CustomerDetail";
+import Duplicates from "./pages/Duplicates";
+import Trash from "./pages/Trash";
 import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
@@ -26,6 +29,9 @@ const App = () => (
             {/* Protected routes */}
             <Route element={<AuthGuard />}>
               <Route path="/" element={<Index />} />
+              <Route path="/customers/:id" element={<CustomerDetail />} />
+              <Route path="/duplicates" element={<Duplicates />} />
+              <Route path="/trash" element={<Trash />} />
               {/* Add other protected routes here */}
             </Route>
             
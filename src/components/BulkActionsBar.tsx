@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Download, PenLine, Tag, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { TagInput } from '@/components/TagInput';
+import { useAuth } from '@/contexts/AuthContext';
+import { customerService } from '@/services/api';
+import { CustomerBatchAction, CustomerBatchError, CustomField, CustomFieldValue, isComputedFieldType } from '@/utils/data';
+import { validateCustomFieldValue } from '@/utils/validation';
+
+type TagAction = 'addTags' | 'removeTags';
+
+interface BulkActionsBarProps {
+  selectedIds: string[]; // Selected customers, on any page
+  matchingCount: number; // Customers matching the current search and filters, on all pages
+  customFields: CustomField[];
+  onSelectAll: () => void; // Select every matching customer
+  selectingAll?: boolean; // The selectedIds of every matching customer are being loaded
+  onClear: () => void;
+  onExport: () => void; // Export the selected customers
+}
+
+const plural = (count: number) => `${count} customer${count === 1 ? '' : 's'}`;
+
+// Toolbar for the selected customers: delete, set a custom field, add or remove tags, export.
+// Every action is one batch request per thousand selected customers.
+export function BulkActionsBar({
+  selectedIds,
+  matchingCount,
+  customFields,
+  onSelectAll,
+  selectingAll = false,
+  onClear,
+  onExport
+}: BulkActionsBarProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [showFieldDialog, setShowFieldDialog] = useState(false);
+  const [fieldId, setFieldId] = useState('');
+  const [fieldValue, setFieldValue] = useState<CustomFieldValue>(null);
+  const [tagAction, setTagAction] = useState<TagAction | null>(null);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+
+  const editableFields = customFields.filter(field => !isComputedFieldType(field.type));
+  const field = editableFields.find(entry => entry.id === fieldId);
+  const fieldError = field ? validateCustomFieldValue(field, fieldValue) : null;
+
+  const refreshAfter = (change: CustomerBatchAction) => {
+    queryClient.invalidateQueries({ queryKey: ['customers'] });
+    if (change.action === 'addTags' || change.action === 'removeTags') {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    }
+    if (change.action === 'delete' || change.action === 'restore') {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    }
+  };
+
+  const batchMutation = useMutation({
+    mutationFn: ({ customerIds, change }: { customerIds: string[]; change: CustomerBatchAction }) =>
+      customerService.batch(customerIds, change, user),
+    onSuccess: (updated, { customerIds, change }) => {
+      refreshAfter(change);
+
+      if (change.action === 'delete') {
+        onClear();
+        toast.success(`${plural(updated)} moved to the trash`, {
+          action: {
+            label: 'Undo',
+            onClick: () => batchMutation.mutate({ customerIds, change: { action: 'restore' } })
+          }
+        });
+      } else if (change.action === 'restore') {
+        toast.success(`${plural(updated)} restored`);
+      } else {
+        toast.success(`${plural(updated)} updated`);
+      }
+      setShowFieldDialog(false);
+      setTagAction(null);
+    },
+    onError: (error, { change }) => {
+      console.error('Error updating customers:', error);
+      if (!(error instanceof CustomerBatchError)) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update customers');
+        return;
+      }
+
+      // The requests before the failing one went through
+      refreshAfter(change);
+      const done = change.action === 'delete' ? 'moved to the trash' : change.action === 'restore' ? 'restored' : 'updated';
+      toast.error(`${error.updated} of ${plural(error.total)} ${done}: ${error.message}`);
+    }
+  });
+
+  const openFieldDialog = () => {
+    setFieldId(editableFields[0]?.id || '');
+    setFieldValue(null);
+    setShowFieldDialog(true);
+  };
+
+  const openTagDialog = (action: TagAction) => {
+    setTagNames([]);
+    setTagAction(action);
+  };
+
+  if (selectedIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 rounded-lg border bg-white/80 p-2 shadow-sm backdrop-blur-sm dark:bg-gray-800/50">
+      <span className="px-2 text-sm font-medium">{selectedIds.length} selected</span>
+      {selectedIds.length < matchingCount && (
+        <Button variant="link" size="sm" onClick={onSelectAll} disabled={selectingAll}>
+          Select all {matchingCount} matching
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" onClick={onClear}>
+        <X className="mr-2 h-4 w-4" />
+        Clear
+      </Button>
+
+      <div className="ml-auto flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={openFieldDialog} disabled={editableFields.length === 0}>
+          <PenLine className="mr-2 h-4 w-4" />
+          Set field
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openTagDialog('addTags')}>
+          <Tag className="mr-2 h-4 w-4" />
+          Add tags
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openTagDialog('removeTags')}>
+          <Tag className="mr-2 h-4 w-4" />
+          Remove tags
+        </Button>
+        <Button variant="outline" size="sm" onClick={onExport}>
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-destructive hover:text-destructive"
+          onClick={() => setConfirmDelete(true)}
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete
+        </Button>
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {plural(selectedIds.length)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected records will be moved to the trash, where they can be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => batchMutation.mutate({ customerIds: selectedIds, change: { action: 'delete' } })}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={showFieldDialog} onOpenChange={setShowFieldDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set a field</DialogTitle>
+            <DialogDescription>
+              The value replaces the current one on {plural(selectedIds.length)}. Leave it empty to clear the field.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Field</Label>
+              <Select
+                value={fieldId}
+                onValueChange={(id) => {
+                  setFieldId(id);
+                  setFieldValue(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {editableFields.map((entry) => (
+                    <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {field && (
+              <div className="space-y-2">
+                <Label>Value</Label>
+                <CustomFieldInput key={field.id} field={field} value={fieldValue} onChange={setFieldValue} />
+                {fieldError && <p className="text-sm font-medium text-destructive">{fieldError}</p>}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowFieldDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => field && batchMutation.mutate({
+                customerIds: selectedIds,
+                change: { action: 'setField', field, value: fieldValue }
+              })}
+              disabled={!field || !!fieldError || batchMutation.isPending}
+            >
+              {batchMutation.isPending ? 'Saving...' : 'Apply'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={tagAction !== null} onOpenChange={(open) => !open && setTagAction(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{tagAction === 'removeTags' ? 'Remove tags' : 'Add tags'}</DialogTitle>
+            <DialogDescription>
+              {tagAction === 'removeTags'
+                ? `The tags are removed from ${plural(selectedIds.length)}; the tags themselves are kept.`
+                : `The tags are added to ${plural(selectedIds.length)}; their other tags are kept.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-2">
+            <TagInput value={tagNames} onChange={setTagNames} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => tagAction && batchMutation.mutate({
+                customerIds: selectedIds,
+                change: { action: tagAction, tags: tagNames }
+              })}
+              disabled={tagNames.length === 0 || batchMutation.isPending}
+            >
+              {batchMutation.isPending ? 'Saving...' : 'Apply'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,1060 @@
+import { useState, useEffect } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { isAxiosError } from 'axios';
+import { AlertTriangle, CheckCircle2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { CustomFieldOptionSwatch } from '@/components/CustomFieldOptionBadge';
+import { customFieldService } from '@/services/api';
+import {
+  CustomField,
+  CustomFieldConditionOperator,
+  CustomFieldDefault,
+  CustomFieldOption,
+  CustomFieldOptionColor,
+  CustomFieldType,
+  CustomFieldValidation,
+  CustomFieldValue,
+  CustomFieldVisibility,
+  DEFAULT_FIELD_SECTION,
+  createCustomFieldOptionValue,
+  customFieldOptionColors,
+  customFieldTypeLabels,
+  customFieldTypes,
+  fieldTypeHasOptions,
+  isComputedFieldType
+} from '@/utils/data';
+import { TypeChangePreview, convertCustomFieldValue } from '@/utils/fieldConversion';
+import { formulaBaseFields, validateFormula } from '@/utils/formula';
+import {
+  canDriveConditions,
+  conditionNeedsValue,
+  conditionOperatorLabels,
+  conditionOperators
+} from '@/utils/visibility';
+import { fieldTypeSupportsTextRules, fieldTypeSupportsUnique, validateCustomFieldValue } from '@/utils/validation';
+import { toast } from 'sonner';
+
+const formSchema = z.object({
+  name: z.string().min(2, { message: 'Field name must be at least 2 characters' }),
+  type: z.enum(customFieldTypes as [CustomFieldType, ...CustomFieldType[]], {
+    errorMap: () => ({ message: 'Please select a field type' })
+  }),
+  section: z.string().max(100).optional(),
+  // `value` is the stored key of an existing option and stays empty for new ones
+  options: z.array(z.object({
+    value: z.string(),
+    label: z.string(),
+    color: z.enum(customFieldOptionColors as [CustomFieldOptionColor, ...CustomFieldOptionColor[]]).nullable(),
+    description: z.string().optional(),
+  })),
+  formula: z.string().optional(),
+  defaultKind: z.enum(['none', 'static', 'today', 'firstOption']),
+  defaultValue: z.string().optional(),
+  visibilityMatch: z.enum(['all', 'any']),
+  conditions: z.array(z.object({
+    fieldId: z.string(),
+    operator: z.enum(conditionOperators as [CustomFieldConditionOperator, ...CustomFieldConditionOperator[]]),
+    value: z.string().optional(),
+  })),
+  required: z.boolean().default(false),
+  unique: z.boolean().default(false),
+  min: z.string().optional(),
+  max: z.string().optional(),
+  minDate: z.string().optional(),
+  maxDate: z.string().optional(),
+  maxLength: z.string().optional(),
+  pattern: z.string().optional(),
+  patternMessage: z.string().optional(),
+}).refine(
+  (data) => !fieldTypeHasOptions(data.type) || data.options.some(opt => opt.label.trim()),
+  { message: 'Please provide at least one option', path: ['options'] }
+).refine(
+  (data) => {
+    const labels = data.options.map(opt => opt.label.trim().toLowerCase()).filter(Boolean);
+    return !fieldTypeHasOptions(data.type) || new Set(labels).size === labels.length;
+  },
+  { message: 'Options must be unique', path: ['options'] }
+).refine(
+  (data) => data.conditions.every(condition => condition.fieldId),
+  { message: 'Choose the field each condition looks at', path: ['conditions'] }
+).refine(
+  (data) => data.conditions.every(condition => !conditionNeedsValue(condition.operator) || condition.value?.trim()),
+  { message: 'Every condition needs a value to compare with', path: ['conditions'] }
+).refine(
+  (data) => !data.min || !data.max || Number(data.min) <= Number(data.max),
+  { message: 'Maximum must be greater than or equal to minimum', path: ['max'] }
+).refine(
+  (data) => !data.minDate || !data.maxDate || data.minDate <= data.maxDate,
+  { message: 'Latest date must be on or after the earliest date', path: ['maxDate'] }
+).refine(
+  (data) => {
+    if (!data.pattern) return true;
+    try {
+      new RegExp(data.pattern);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+  { message: 'Pattern is not a valid regular expression', path: ['pattern'] }
+);
+
+type FormValues = z.infer<typeof formSchema>;
+
+const emptyFormValues: FormValues = {
+  name: '',
+  type: 'text',
+  section: '',
+  options: [{ value: '', label: '', color: null, description: '' }],
+  formula: '',
+  defaultKind: 'none',
+  defaultValue: '',
+  visibilityMatch: 'all',
+  conditions: [],
+  required: false,
+  unique: false,
+  min: '',
+  max: '',
+  minDate: '',
+  maxDate: '',
+  maxLength: '',
+  pattern: '',
+  patternMessage: '',
+};
+
+// Text shown in the default value input for a stored static default
+const toDefaultText = (type: CustomFieldType, value: CustomFieldValue): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (type === 'date') {
+    const date = value instanceof Date ? value : new Date(value as string);
+    return isNaN(date.getTime()) ? '' : format(date, 'yyyy-MM-dd');
+  }
+  return String(value);
+};
+
+// Default kinds that make sense for a field type
+const defaultKindsFor = (type: CustomFieldType): FormValues['defaultKind'][] => {
+  // Computed fields have no value of their own; linked customers differ for every record
+  if (isComputedFieldType(type) || type === 'relation') return ['none'];
+  return [
+    'none',
+    'static',
+    ...(type === 'date' ? ['today' as const] : []),
+    ...(fieldTypeHasOptions(type) ? ['firstOption' as const] : []),
+  ];
+};
+
+const defaultKindLabels: Record<FormValues['defaultKind'], string> = {
+  none: 'No default',
+  static: 'Fixed value',
+  today: "Today's date",
+  firstOption: 'First option',
+};
+
+// Pre-fill the form from an existing field definition
+const toFormValues = (field?: CustomField | null): FormValues => {
+  if (!field) return emptyFormValues;
+  const rules = field.validation || {};
+  const toText = (value?: number) => (value !== undefined && value !== null ? String(value) : '');
+
+  return {
+    ...emptyFormValues,
+    name: field.name,
+    type: field.type,
+    section: field.section || '',
+    options: field.options?.length
+      ? field.options.map(option => ({
+          value: option.value,
+          label: option.label,
+          color: option.color || null,
+          description: option.description || '',
+        }))
+      : emptyFormValues.options,
+    formula: field.formula || '',
+    defaultKind: field.defaultValue?.kind || 'none',
+    defaultValue: field.defaultValue?.kind === 'static' ? toDefaultText(field.type, field.defaultValue.value) : '',
+    visibilityMatch: field.visibility?.match || 'all',
+    conditions: (field.visibility?.conditions || []).map(condition => ({
+      fieldId: condition.fieldId,
+      operator: condition.operator,
+      value: condition.value ?? '',
+    })),
+    required: !!rules.required,
+    unique: !!rules.unique,
+    min: toText(rules.min),
+    max: toText(rules.max),
+    minDate: rules.minDate || '',
+    maxDate: rules.maxDate || '',
+    maxLength: toText(rules.maxLength),
+    pattern: rules.pattern || '',
+    patternMessage: rules.patternMessage || '',
+  };
+};
+
+// Collect the validation inputs that apply to the chosen type into a rules object
+const toValidationRules = (data: FormValues): CustomFieldValidation | null => {
+  const rules: CustomFieldValidation = {};
+  const toNumber = (value?: string) => (value !== undefined && value.trim() !== '' ? Number(value) : undefined);
+
+  // Computed fields have no user input to validate
+  if (isComputedFieldType(data.type)) return null;
+
+  if (data.required) rules.required = true;
+  if (data.unique && fieldTypeSupportsUnique(data.type)) rules.unique = true;
+
+  if (data.type === 'number') {
+    rules.min = toNumber(data.min);
+    rules.max = toNumber(data.max);
+  } else if (data.type === 'date') {
+    rules.minDate = data.minDate || undefined;
+    rules.maxDate = data.maxDate || undefined;
+  } else if (fieldTypeSupportsTextRules(data.type)) {
+    rules.maxLength = toNumber(data.maxLength);
+    rules.pattern = data.pattern || undefined;
+    rules.patternMessage = data.pattern && data.patternMessage ? data.patternMessage : undefined;
+  }
+
+  const defined = Object.fromEntries(
+    Object.entries(rules).filter(([, value]) => value !== undefined)
+  ) as CustomFieldValidation;
+
+  return Object.keys(defined).length > 0 ? defined : null;
+};
+
+const toVisibility = (data: FormValues): CustomFieldVisibility | null =>
+  data.conditions.length > 0
+    ? {
+        match: data.visibilityMatch,
+        conditions: data.conditions.map(condition => (
+          conditionNeedsValue(condition.operator)
+            ? { fieldId: condition.fieldId, operator: condition.operator, value: condition.value?.trim() }
+            : { fieldId: condition.fieldId, operator: condition.operator }
+        )),
+      }
+    : null;
+
+// Build the stored default from the inputs; `error` is set when a fixed value does not fit the type
+const toDefaultValue = (data: FormValues): { defaultValue: CustomFieldDefault | null; error?: string } => {
+  if (!defaultKindsFor(data.type).includes(data.defaultKind) || data.defaultKind === 'none') {
+    return { defaultValue: null };
+  }
+  if (data.defaultKind !== 'static') return { defaultValue: { kind: data.defaultKind } };
+
+  const text = data.defaultValue?.trim() || '';
+  if (!text) return { defaultValue: null, error: 'Enter a default value or choose "No default"' };
+
+  let value: CustomFieldValue;
+  if (data.type === 'date') {
+    const date = new Date(`${text}T00:00:00`);
+    if (isNaN(date.getTime())) return { defaultValue: null, error: 'Default value must be a valid date' };
+    value = date.toISOString();
+  } else {
+    const result = convertCustomFieldValue(text, 'text', data.type, toOptions(data) || []);
+    if (!result.ok) {
+      return { defaultValue: null, error: `Default value is not a valid ${customFieldTypeLabels[data.type].toLowerCase()}` };
+    }
+    value = result.value;
+  }
+
+  // The default has to pass the field's own rules, or every new customer would start invalid
+  const ruleError = validateCustomFieldValue(
+    { id: '', name: 'Default value', type: data.type, options: toOptions(data) || [], validation: toValidationRules(data) },
+    value
+  );
+  return ruleError ? { defaultValue: null, error: ruleError } : { defaultValue: { kind: 'static', value } };
+};
+
+// Existing options keep their key; new ones get a key derived from their label
+const toOptions = (data: Pick<FormValues, 'type' | 'options'>): CustomFieldOption[] | null => {
+  if (!fieldTypeHasOptions(data.type)) return null;
+
+  const taken = data.options.map(opt => opt.value).filter(Boolean);
+  return data.options
+    .filter(opt => opt.label.trim())
+    .map(opt => {
+      const value = opt.value || createCustomFieldOptionValue(opt.label, taken);
+      if (!opt.value) taken.push(value);
+      return {
+        value,
+        label: opt.label.trim(),
+        color: opt.color,
+        ...(opt.description?.trim() ? { description: opt.description.trim() } : {}),
+      };
+    });
+};
+
+interface CustomFieldEditorDialogProps {
+  open: boolean;
+  field?: CustomField | null; // Edit this field; create a new one when omitted
+  sections?: string[]; // Existing section names offered as suggestions
+  fields?: CustomField[]; // All field definitions, referenced by formulas
+  onOpenChange: (open: boolean) => void;
+  onSaved: (field: CustomField) => void;
+}
+
+export function CustomFieldEditorDialog({ open, field, sections = [], fields = [], onOpenChange, onSaved }: CustomFieldEditorDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [preview, setPreview] = useState<TypeChangePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const isEditing = !!field;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyFormValues,
+  });
+
+  const { fields: optionRows, append: appendOption, remove: removeOption } = useFieldArray({
+    control: form.control,
+    name: 'options',
+  });
+
+  const { fields: conditionRows, append: appendCondition, remove: removeCondition } = useFieldArray({
+    control: form.control,
+    name: 'conditions',
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(field));
+      setPreview(null);
+    }
+  }, [open, field, form]);
+
+  const watchedType = form.watch('type');
+  const watchedOptions = form.watch('options');
+  const watchedDefaultKind = form.watch('defaultKind');
+  const watchedConditions = form.watch('conditions');
+  const referenceableFields = fields.filter(definition => definition.id !== field?.id && !definition.archived);
+  const conditionSourceFields = referenceableFields.filter(canDriveConditions);
+
+  // Append a field reference to the formula, e.g. when a reference chip is clicked
+  const insertReference = (reference: string) => {
+    const current = form.getValues('formula') || '';
+    form.setValue('formula', current ? `${current.trimEnd()} ${reference}` : reference, { shouldDirty: true });
+  };
+
+  // Values are only at risk when the type changes or existing options are removed;
+  // relabelling an option keeps its key, so stored values are unaffected
+  const keptValues = watchedOptions.map(opt => opt.value).filter(Boolean);
+  const needsPreview = isEditing && (
+    watchedType !== field.type ||
+    (fieldTypeHasOptions(field.type) && (field.options || []).some(option => !keptValues.includes(option.value)))
+  );
+  const previewKey = needsPreview ? JSON.stringify([watchedType, watchedOptions]) : '';
+
+  // Debounced dry run of the pending change against existing customer values
+  useEffect(() => {
+    if (!previewKey || !field) {
+      setPreview(null);
+      return;
+    }
+
+    const [type, options] = JSON.parse(previewKey);
+    const timeout = setTimeout(async () => {
+      try {
+        setIsPreviewing(true);
+        const result = await customFieldService.previewChange(field.id, {
+          name: field.name,
+          type,
+          options: toOptions({ type, options }),
+        });
+        setPreview(result);
+      } catch (error) {
+        console.error('Error previewing field change:', error);
+        setPreview(null);
+      } finally {
+        setIsPreviewing(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [previewKey, field]);
+
+  // Value input of a condition, matching the type of the field it looks at
+  const renderConditionValue = (index: number) => {
+    const source = conditionSourceFields.find(definition => definition.id === watchedConditions[index]?.fieldId);
+    const name = `conditions.${index}.value` as const;
+
+    if (source && (fieldTypeHasOptions(source.type) || source.type === 'boolean')) {
+      const choices = source.type === 'boolean'
+        ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+        : (source.options || []).map(option => ({ value: option.value, label: option.label }));
+      return (
+        <Select value={watchedConditions[index]?.value || ''} onValueChange={(value) => form.setValue(name, value)}>
+          <SelectTrigger className="h-9">
+            <SelectValue placeholder="Value" />
+          </SelectTrigger>
+          <SelectContent>
+            {choices.map((choice) => (
+              <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        className="h-9"
+        type={source?.type === 'number' ? 'number' : source?.type === 'date' ? 'date' : 'text'}
+        placeholder="Value"
+        {...form.register(name)}
+      />
+    );
+  };
+
+  const handleFormSubmit = async (data: FormValues) => {
+    const { defaultValue, error: defaultError } = toDefaultValue(data);
+    if (defaultError) {
+      form.setError('defaultValue', { message: defaultError });
+      return;
+    }
+
+    if (isComputedFieldType(data.type)) {
+      const formulaError = validateFormula(data.formula || '', referenceableFields, field?.id);
+      if (formulaError) {
+        form.setError('formula', { message: formulaError });
+        return;
+      }
+    }
+
+    try {
+      setIsSaving(true);
+
+      const fieldData = {
+        name: data.name,
+        type: data.type,
+        options: toOptions(data),
+        validation: toValidationRules(data),
+        formula: isComputedFieldType(data.type) ? data.formula?.trim() || null : null,
+        visibility: toVisibility(data),
+        defaultValue,
+        section: data.section?.trim() || null,
+      };
+
+      if (isEditing) {
+        const updatedField = await customFieldService.update(field.id, fieldData);
+        onSaved({ ...field, ...fieldData, ...updatedField, id: field.id });
+        toast.success(`Field "${data.name}" updated successfully`);
+        onOpenChange(false);
+        return;
+      }
+
+      console.log('Creating new field with data:', fieldData);
+
+      const newField = await customFieldService.create(fieldData);
+      console.log('New field created:', newField);
+
+      // Only add the field if it has all required properties
+      if (newField && newField.id && newField.name && newField.type) {
+        onSaved(newField);
+        toast.success(`Field "${data.name}" created successfully`);
+        onOpenChange(false);
+      } else {
+        toast.error('Created field has invalid data');
+      }
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      // Making a field unique is refused while customers share a value; the message names them
+      if (isAxiosError(error) && error.response?.status === 409) {
+        form.setError('unique', { message: error.response.data?.error });
+        return;
+      }
+      toast.error(error instanceof Error && !isAxiosError(error)
+        ? error.message
+        : isEditing ? 'Failed to update custom field' : 'Failed to create custom field');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto animate-slide-in">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Custom Field' : 'Add Custom Field'}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? 'Rename the field, adjust its options or change its type. Existing values are carried over where possible.'
+              : 'Create a new custom field for your customer records.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Field Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Company Size" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Field Type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select field type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {customFieldTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{customFieldTypeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="section"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Section</FormLabel>
+                  <FormControl>
+                    <Input placeholder={DEFAULT_FIELD_SECTION} list="custom-field-sections" {...field} />
+                  </FormControl>
+                  <datalist id="custom-field-sections">
+                    {sections.map((section) => (
+                      <option key={section} value={section} />
+                    ))}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {fieldTypeHasOptions(watchedType) && (
+              <FormField
+                control={form.control}
+                name="options"
+                render={() => (
+                  <FormItem>
+                    <FormLabel>Options</FormLabel>
+                    <div className="space-y-2">
+                      {optionRows.map((row, index) => (
+                        <div key={row.id} className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={watchedOptions[index]?.color || 'none'}
+                              onValueChange={(value) => form.setValue(
+                                `options.${index}.color`,
+                                value === 'none' ? null : value as CustomFieldOptionColor
+                              )}
+                            >
+                              <SelectTrigger className="w-[70px] shrink-0" aria-label="Option color">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">
+                                  <span className="flex items-center gap-2">
+                                    <CustomFieldOptionSwatch />
+                                    <span className="sr-only">No color</span>
+                                  </span>
+                                </SelectItem>
+                                {customFieldOptionColors.map((color) => (
+                                  <SelectItem key={color} value={color}>
+                                    <span className="flex items-center gap-2">
+                                      <CustomFieldOptionSwatch color={color} />
+                                      <span className="sr-only">{color}</span>
+                                    </span>
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              placeholder={`Option ${index + 1}`}
+                              {...form.register(`options.${index}.label`)}
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 shrink-0"
+                              onClick={() => removeOption(index)}
+                              disabled={optionRows.length === 1}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          <div className="ml-[78px] mr-10 space-y-1">
+                            <Input
+                              className="h-8 text-xs"
+                              placeholder="Description (optional)"
+                              {...form.register(`options.${index}.description`)}
+                            />
+                            {row.value && watchedOptions[index]?.label.trim() !== row.value && (
+                              <p className="text-xs text-muted-foreground">Stored as "{row.value}"</p>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => appendOption({ value: '', label: '', color: null, description: '' })}
+                      >
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add option
+                      </Button>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {defaultKindsFor(watchedType).length > 1 && (
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="defaultKind"
+                  render={({ field: kindField }) => (
+                    <FormItem>
+                      <FormLabel>Default value</FormLabel>
+                      <Select onValueChange={kindField.onChange} value={kindField.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {defaultKindsFor(watchedType).map((kind) => (
+                            <SelectItem key={kind} value={kind}>{defaultKindLabels[kind]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                {watchedDefaultKind === 'static' && (
+                  <FormField
+                    control={form.control}
+                    name="defaultValue"
+                    render={({ field: valueField }) => (
+                      <FormItem>
+                        <FormLabel>Value</FormLabel>
+                        {watchedType === 'select' || watchedType === 'boolean' ? (
+                          <Select onValueChange={valueField.onChange} value={valueField.value || ''}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose a value" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {watchedType === 'boolean' ? (
+                                <>
+                                  <SelectItem value="true">Yes</SelectItem>
+                                  <SelectItem value="false">No</SelectItem>
+                                </>
+                              ) : (
+                                (toOptions({ type: watchedType, options: watchedOptions }) || []).map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))
+                              )}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <FormControl>
+                            <Input
+                              type={watchedType === 'number' ? 'number' : watchedType === 'date' ? 'date' : 'text'}
+                              placeholder={watchedType === 'multiselect' ? 'Options, separated by commas' : 'Default value'}
+                              {...valueField}
+                            />
+                          </FormControl>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="conditions"
+              render={() => (
+                <FormItem className="space-y-3 rounded-md border p-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium">Show when</h4>
+                    {conditionRows.length > 1 && (
+                      <Select
+                        value={form.watch('visibilityMatch')}
+                        onValueChange={(value) => form.setValue('visibilityMatch', value as 'all' | 'any')}
+                      >
+                        <SelectTrigger className="h-8 w-[170px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All conditions match</SelectItem>
+                          <SelectItem value="any">Any condition matches</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  {conditionRows.length === 0 && (
+                    <p className="text-xs text-muted-foreground">Always shown. Add a condition to show this field only for some customers.</p>
+                  )}
+                  {conditionRows.map((row, index) => (
+                    <div key={row.id} className="grid grid-cols-[1fr_auto_1fr_auto] items-center gap-2">
+                      <Select
+                        value={watchedConditions[index]?.fieldId || ''}
+                        onValueChange={(value) => {
+                          form.setValue(`conditions.${index}.fieldId`, value);
+                          form.setValue(`conditions.${index}.value`, '');
+                        }}
+                      >
+                        <SelectTrigger className="h-9">
+                          <SelectValue placeholder="Field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {conditionSourceFields.map((definition) => (
+                            <SelectItem key={definition.id} value={definition.id}>{definition.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={watchedConditions[index]?.operator}
+                        onValueChange={(value) => form.setValue(`conditions.${index}.operator`, value as CustomFieldConditionOperator)}
+                      >
+                        <SelectTrigger className="h-9 w-[140px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {conditionOperators.map((operator) => (
+                            <SelectItem key={operator} value={operator}>{conditionOperatorLabels[operator]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {watchedConditions[index] && conditionNeedsValue(watchedConditions[index].operator)
+                        ? renderConditionValue(index)
+                        : <span />}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => removeCondition(index)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => appendCondition({ fieldId: '', operator: 'equals', value: '' })}
+                    disabled={conditionSourceFields.length === 0}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add condition
+                  </Button>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isComputedFieldType(watchedType) && (
+              <FormField
+                control={form.control}
+                name="formula"
+                render={({ field: formulaField }) => (
+                  <FormItem>
+                    <FormLabel>Formula</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        rows={3}
+                        className="font-mono text-sm"
+                        placeholder='e.g., if({Annual Revenue} >= 1000000, "Enterprise", "SMB")'
+                        {...formulaField}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                    <p className="text-xs text-muted-foreground">
+                      Use + - * / for arithmetic, & to join text, if(condition, then, else), today(),
+                      years(dob, today()) or days(createdAt, today()). Click a field to insert it.
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(formulaBaseFields).map(([key, label]) => (
+                        <Button
+                          key={key}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          title={label}
+                          onClick={() => insertReference(key)}
+                        >
+                          {key}
+                        </Button>
+                      ))}
+                      {referenceableFields.map((definition) => (
+                        <Button
+                          key={definition.id}
+                          type="button"
+                          variant="secondary"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => insertReference(`{${definition.name}}`)}
+                        >
+                          {`{${definition.name}}`}
+                        </Button>
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!isComputedFieldType(watchedType) && (
+              <div className="space-y-3 rounded-md border p-3">
+                <h4 className="text-sm font-medium">Validation</h4>
+
+                <FormField
+                  control={form.control}
+                  name="required"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel className="font-normal">Required</FormLabel>
+                    </FormItem>
+                  )}
+                />
+
+                {fieldTypeSupportsUnique(watchedType) && (
+                  <FormField
+                    control={form.control}
+                    name="unique"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center space-x-2">
+                          <FormControl>
+                            <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                          </FormControl>
+                          <FormLabel className="font-normal">Unique (no two customers can share a value)</FormLabel>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {watchedType === 'number' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <FormField
+                      control={form.control}
+                      name="min"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Minimum</FormLabel>
+                          <FormControl>
+                            <Input type="number" placeholder="No minimum" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="max"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Maximum</FormLabel>
+                          <FormControl>
+                            <Input type="number" placeholder="No maximum" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                {watchedType === 'date' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <FormField
+                      control={form.control}
+                      name="minDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Earliest date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="maxDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Latest date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                {fieldTypeSupportsTextRules(watchedType) && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="maxLength"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Maximum length</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} placeholder="No limit" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="grid grid-cols-2 gap-3">
+                      <FormField
+                        control={form.control}
+                        name="pattern"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Pattern (regex)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., ^ACC-\d{6}$" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="patternMessage"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Error message</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Shown when the pattern fails" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {needsPreview && (
+              <div className="rounded-md border p-3 text-sm">
+                <h4 className="mb-2 font-medium">Impact on existing values</h4>
+                {isPreviewing || !preview ? (
+                  <p className="text-muted-foreground">Checking existing values...</p>
+                ) : preview.total === 0 ? (
+                  <p className="text-muted-foreground">No customer has a value for this field yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="flex items-center">
+                      <CheckCircle2 className="mr-2 h-4 w-4 text-green-600" />
+                      {preview.convertible} of {preview.total} values convert cleanly
+                    </p>
+                    {preview.failed > 0 && (
+                      <>
+                        <p className="flex items-center text-destructive">
+                          <AlertTriangle className="mr-2 h-4 w-4" />
+                          {preview.failed} values cannot be converted and will be cleared
+                        </p>
+                        <ul className="ml-6 list-disc text-xs text-muted-foreground">
+                          {preview.failures.map((failure) => (
+                            <li key={`${failure.customerId}-${failure.value}`}>
+                              {failure.customerName}: "{failure.value}"
+                            </li>
+                          ))}
+                          {preview.failed > preview.failures.length && (
+                            <li>and {preview.failed - preview.failures.length} more</li>
+                          )}
+                        </ul>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={preview && preview.failed > 0 ? 'destructive' : 'default'}
+                disabled={isSaving || (needsPreview && isPreviewing)}
+              >
+                {isSaving ? (
+                  <>
+                    <div className="h-4 w-4 mr-2 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    Saving...
+                  </>
+                ) : isEditing ? (
+                  preview && preview.failed > 0 ? `Save and clear ${preview.failed} values` : 'Save Changes'
+                ) : 'Add Field'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { format } from 'date-fns';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CustomFieldOptionSwatch } from '@/components/CustomFieldOptionBadge';
+import { CustomerLinkPicker } from '@/components/CustomerLinkPicker';
+import { cn } from '@/lib/utils';
+import { CustomField, CustomFieldValue } from '@/utils/data';
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+  excludeCustomerId?: string; // Relation fields: the customer being edited, who cannot link to itself
+  // Passed on to the main control, e.g. by FormControl for labels and error messages
+  id?: string;
+  'aria-describedby'?: string;
+  'aria-invalid'?: boolean;
+}
+
+// Input widget matching a custom field's type. Formula fields are computed and have no input.
+export function CustomFieldInput({ field, value, onChange, excludeCustomerId, ...controlProps }: CustomFieldInputProps) {
+  switch (field.type) {
+    case 'number':
+      return (
+        <Input
+          {...controlProps}
+          type="number"
+          placeholder={field.name}
+          value={value as string || ''}
+          onChange={(e) => onChange(isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
+        />
+      );
+    case 'boolean':
+      return (
+        <div className="flex h-10 items-center space-x-2">
+          <Switch
+            {...controlProps}
+            checked={value === true}
+            onCheckedChange={(checked) => onChange(checked)}
+          />
+          <span className="text-sm text-muted-foreground">{value === true ? 'Yes' : 'No'}</span>
+        </div>
+      );
+    case 'select':
+      return field.options ? (
+        <Select onValueChange={(selected) => onChange(selected)} value={value as string || ''}>
+          <SelectTrigger {...controlProps}>
+            <SelectValue placeholder={`Select ${field.name}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options.map((option) => (
+              <SelectItem key={option.value} value={option.value} title={option.description || undefined}>
+                <span className="flex items-center gap-2">
+                  <CustomFieldOptionSwatch color={option.color} />
+                  {option.label}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : null;
+    case 'relation':
+      return (
+        <CustomerLinkPicker
+          value={Array.isArray(value) ? value.map(String) : []}
+          onChange={(ids) => onChange(ids.length > 0 ? ids : null)}
+          excludeId={excludeCustomerId}
+        />
+      );
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div {...controlProps} className="flex flex-wrap gap-x-4 gap-y-2 rounded-md border px-3 py-2">
+          {(field.options || []).map((option) => (
+            <label key={option.value} className="flex items-center space-x-2 text-sm" title={option.description || undefined}>
+              <Checkbox
+                checked={selected.includes(option.value)}
+                onCheckedChange={(checked) => onChange(
+                  checked
+                    ? [...selected, option.value]
+                    : selected.filter((item) => item !== option.value)
+                )}
+              />
+              <CustomFieldOptionSwatch color={option.color} />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case 'date':
+      return (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              {...controlProps}
+              variant="outline"
+              className={cn(
+                "w-full justify-start text-left font-normal",
+                !value && "text-muted-foreground"
+              )}
+            >
+              {value ? (
+                format(new Date(value as string), "PPP")
+              ) : (
+                <span>Pick a date</span>
+              )}
+              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={value ? new Date(value as string) : undefined}
+              onSelect={(date) => onChange(date ? date.toISOString() : null)}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      );
+    case 'url':
+    case 'email':
+    case 'phone':
+      return (
+        <Input
+          {...controlProps}
+          type={field.type === 'phone' ? 'tel' : field.type}
+          placeholder={
+            field.type === 'url' ? 'https://example.com'
+              : field.type === 'email' ? 'name@example.com'
+              : '(555) 123-4567'
+          }
+          value={value as string || ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'formula':
+      return null;
+    default:
+      return (
+        <Input
+          {...controlProps}
+          placeholder={field.name}
+          value={value as string || ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+}
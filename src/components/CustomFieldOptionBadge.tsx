@@ -0,0 +1,43 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { CustomFieldOption, CustomFieldOptionColor, customFieldOptionColorClasses } from '@/utils/data';
+
+interface CustomFieldOptionBadgeProps {
+  option: CustomFieldOption;
+  className?: string;
+}
+
+// An option rendered as a badge in its color; uncolored options use the neutral badge
+export function CustomFieldOptionBadge({ option, className }: CustomFieldOptionBadgeProps) {
+  return (
+    <Badge
+      variant="secondary"
+      title={option.description || undefined}
+      className={cn(
+        'text-xs font-medium',
+        option.color && customFieldOptionColorClasses[option.color].badge,
+        className
+      )}
+    >
+      {option.label}
+    </Badge>
+  );
+}
+
+interface CustomFieldOptionSwatchProps {
+  color?: CustomFieldOptionColor | null;
+  className?: string;
+}
+
+// Small color dot shown next to option labels in pickers
+export function CustomFieldOptionSwatch({ color, className }: CustomFieldOptionSwatchProps) {
+  return (
+    <span
+      className={cn(
+        'inline-block h-2.5 w-2.5 shrink-0 rounded-full',
+        color ? customFieldOptionColorClasses[color].swatch : 'border border-muted-foreground/40',
+        className
+      )}
+    />
+  );
+}
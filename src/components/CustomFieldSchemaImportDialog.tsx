@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { AlertTriangle, Archive, Pencil, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { customFieldService } from '@/services/api';
+import { CustomField, customFieldTypeLabels, fieldTypeHasOptions } from '@/utils/data';
+import {
+  FieldSchemaDocument,
+  SchemaImportMode,
+  diffFieldSchema,
+  toFieldData
+} from '@/utils/fieldSchema';
+import { toast } from 'sonner';
+
+interface CustomFieldSchemaImportDialogProps {
+  document: FieldSchemaDocument | null; // The parsed file; the dialog is open while set
+  fields: CustomField[]; // Current definitions, including archived ones
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export function CustomFieldSchemaImportDialog({ document, fields, onClose, onImported }: CustomFieldSchemaImportDialogProps) {
+  const [mode, setMode] = useState<SchemaImportMode>('merge');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const diff = document ? diffFieldSchema(fields, document, mode) : null;
+  const hasChanges = !!diff && (diff.added.length + diff.changed.length + diff.removed.length) > 0;
+
+  const handleApply = async () => {
+    if (!document || !diff) return;
+
+    try {
+      setIsApplying(true);
+      const fieldIds = new Map(
+        fields.filter(field => !field.archived).map(field => [field.name.trim().toLowerCase(), field.id])
+      );
+
+      // Create new fields first so show-when conditions can refer to them
+      const created: string[] = [];
+      for (const incoming of diff.added) {
+        const newField = await customFieldService.create({ ...toFieldData(incoming, fieldIds), visibility: null });
+        fieldIds.set(incoming.name.trim().toLowerCase(), newField.id.toString());
+        if (incoming.visibility) created.push(incoming.name);
+      }
+
+      for (const incoming of diff.added.filter(entry => created.includes(entry.name))) {
+        const id = fieldIds.get(incoming.name.trim().toLowerCase()) as string;
+        await customFieldService.update(id, { ...toFieldData(incoming, fieldIds), optionRenames: [] });
+      }
+
+      for (const { field, incoming } of diff.changed) {
+        await customFieldService.update(field.id, { ...toFieldData(incoming, fieldIds), optionRenames: [] });
+      }
+
+      // Replace archives whatever the document does not list (values are kept) and adopts its order
+      if (mode === 'replace') {
+        for (const field of diff.removed) {
+          await customFieldService.archive(field.id);
+        }
+        await customFieldService.reorder(
+          document.fields.map(incoming => ({
+            id: fieldIds.get(incoming.name.trim().toLowerCase()) as string,
+            section: incoming.section,
+          }))
+        );
+      }
+
+      toast.success('Custom field schema imported', {
+        description: `${diff.added.length} added, ${diff.changed.length} updated${mode === 'replace' ? `, ${diff.removed.length} archived` : ''}`,
+      });
+      onImported();
+      onClose();
+    } catch (error) {
+      console.error('Error importing custom field schema:', error);
+      toast.error('Import stopped part way; reload the field list to see what was applied');
+      onImported();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Field Schema</DialogTitle>
+          <DialogDescription>
+            {document?.fields.length} fields in the file
+            {document?.exportedAt ? `, exported ${new Date(document.exportedAt).toLocaleString()}` : ''}.
+            Fields are matched by name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as SchemaImportMode)} className="gap-3">
+          <div className="flex items-start space-x-2">
+            <RadioGroupItem value="merge" id="schema-import-merge" className="mt-0.5" />
+            <Label htmlFor="schema-import-merge" className="font-normal">
+              <span className="font-medium">Merge</span> — add new fields and update matching ones; keep fields missing from the file
+            </Label>
+          </div>
+          <div className="flex items-start space-x-2">
+            <RadioGroupItem value="replace" id="schema-import-replace" className="mt-0.5" />
+            <Label htmlFor="schema-import-replace" className="font-normal">
+              <span className="font-medium">Replace</span> — make the field list match the file; fields missing from it are archived
+            </Label>
+          </div>
+        </RadioGroup>
+
+        {diff && (
+          <div className="space-y-4 text-sm">
+            {!hasChanges && (
+              <p className="text-muted-foreground">The current fields already match the file.</p>
+            )}
+
+            {diff.added.length > 0 && (
+              <div>
+                <h4 className="mb-2 flex items-center font-medium">
+                  <Plus className="mr-2 h-4 w-4 text-green-600" />
+                  Added ({diff.added.length})
+                </h4>
+                <ul className="ml-6 space-y-1">
+                  {diff.added.map((incoming) => (
+                    <li key={incoming.name}>
+                      {incoming.name}{' '}
+                      <Badge variant="outline" className="text-xs">{customFieldTypeLabels[incoming.type]}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {diff.changed.length > 0 && (
+              <div>
+                <h4 className="mb-2 flex items-center font-medium">
+                  <Pencil className="mr-2 h-4 w-4 text-blue-600" />
+                  Changed ({diff.changed.length})
+                </h4>
+                <ul className="ml-6 space-y-1">
+                  {diff.changed.map(({ field, incoming, changes }) => (
+                    <li key={field.id}>
+                      {field.name}: <span className="text-muted-foreground">{changes.join(', ')}</span>
+                      {(field.type !== incoming.type || (fieldTypeHasOptions(field.type) && changes.includes('options'))) && (
+                        <span className="ml-1 inline-flex items-center text-xs text-destructive">
+                          <AlertTriangle className="mr-1 h-3 w-3" />
+                          values that cannot be converted will be cleared
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {diff.removed.length > 0 && (
+              <div>
+                <h4 className="mb-2 flex items-center font-medium">
+                  <Archive className="mr-2 h-4 w-4 text-destructive" />
+                  Archived ({diff.removed.length})
+                </h4>
+                <ul className="ml-6 space-y-1">
+                  {diff.removed.map((field) => (
+                    <li key={field.id}>{field.name}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {diff.unchanged > 0 && (
+              <p className="text-muted-foreground">{diff.unchanged} fields are unchanged.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isApplying || !hasChanges}>
+            {isApplying ? 'Importing...' : 'Apply import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { CustomFieldOptionBadge } from '@/components/CustomFieldOptionBadge';
+import {
+  CustomFieldOption,
+  CustomFieldValue,
+  findCustomFieldOption,
+  formatCustomFieldValue,
+  isEmptyCustomFieldValue
+} from '@/utils/data';
+
+interface CustomFieldValueDisplayProps {
+  type: string;
+  value: CustomFieldValue | undefined;
+  options?: CustomFieldOption[] | null; // Select and multiselect fields, for labels and colors
+  customerNames?: Map<string, string>; // Relation fields, to name the linked customers
+  onOpenCustomer?: (id: string) => void; // Makes relation chips clickable
+  emptyText?: string;
+}
+
+// Renders a custom field value using a presentation that fits its type
+export function CustomFieldValueDisplay({
+  type,
+  value,
+  options,
+  customerNames,
+  onOpenCustomer,
+  emptyText = ''
+}: CustomFieldValueDisplayProps) {
+  // Values whose option was removed still show, as an uncolored badge of the stored key
+  const toOption = (item: string): CustomFieldOption =>
+    findCustomFieldOption(options, item) || { value: item, label: item };
+
+  if (isEmptyCustomFieldValue(value)) {
+    return emptyText ? <span className="text-muted-foreground">{emptyText}</span> : null;
+  }
+
+  switch (type) {
+    case 'select':
+      return <CustomFieldOptionBadge option={toOption(String(value))} />;
+    case 'multiselect':
+      return (
+        <span className="flex flex-wrap gap-1">
+          {(Array.isArray(value) ? value : [String(value)]).map((item) => (
+            <CustomFieldOptionBadge key={item} option={toOption(item)} />
+          ))}
+        </span>
+      );
+    case 'relation': {
+      // Links to customers in the trash are kept for a restore but not shown
+      const ids = (Array.isArray(value) ? value : [String(value)])
+        .filter(id => !customerNames?.size || customerNames.has(String(id)));
+      if (ids.length === 0) {
+        return emptyText ? <span className="text-muted-foreground">{emptyText}</span> : null;
+      }
+      return (
+        <span className="flex flex-wrap gap-1">
+          {ids.map((id) => {
+            const name = customerNames?.get(String(id)) ?? 'Unknown customer';
+            return onOpenCustomer ? (
+              <button
+                key={id}
+                type="button"
+                onClick={(event) => {
+                  // Chips sit inside clickable cards and rows
+                  event.stopPropagation();
+                  onOpenCustomer(String(id));
+                }}
+              >
+                <Badge variant="outline" className="cursor-pointer text-xs hover:bg-accent">
+                  {name}
+                </Badge>
+              </button>
+            ) : (
+              <Badge key={id} variant="outline" className="text-xs">{name}</Badge>
+            );
+          })}
+        </span>
+      );
+    }
+    case 'url': {
+      const href = /^https?:\/\//i.test(String(value)) ? String(value) : `https://${value}`;
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline-offset-4 hover:underline break-all">
+          {String(value)}
+        </a>
+      );
+    }
+    case 'email':
+      return (
+        <a href={`mailto:${value}`} className="text-primary underline-offset-4 hover:underline break-all">
+          {String(value)}
+        </a>
+      );
+    case 'phone':
+      return (
+        <a href={`tel:${String(value).replace(/[^\d+]/g, '')}`} className="text-primary underline-offset-4 hover:underline">
+          {String(value)}
+        </a>
+      );
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(value as string);
+      return <span>{isNaN(date.getTime()) ? String(value) : format(date, 'PP')}</span>;
+    }
+    default:
+      return <span>{formatCustomFieldValue(type, value)}</span>;
+  }
+}
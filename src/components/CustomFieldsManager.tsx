@@ -1,26 +1,20 @@
-
-import { useState, useEffect } from 'react';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { useForm } from 'react-hook-form';
-import { z } from 'zod';
-import { Plus, Trash2 } from 'lucide-react';
-import { Button } from '@/components/ui/button';
+import { Fragment, useRef, useState, useEffect } from 'react';
+import { format } from 'date-fns';
 import {
-  Form,
-  FormControl,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from '@/components/ui/form';
+  Archive,
+  ArchiveRestore,
+  Check,
+  Download,
+  GripVertical,
+  Pencil,
+  Plus,
+  Trash2,
+  Upload,
+  Wand2,
+  X
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { 
-  Select, 
-  SelectContent, 
-  SelectItem, 
-  SelectTrigger, 
-  SelectValue 
-} from '@/components/ui/select';
 import { 
   Table, 
   TableBody, 
@@ -48,25 +42,39 @@ import {
   DialogDescription,
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CustomFieldOptionBadge } from '@/components/CustomFieldOptionBadge';
+import { CustomFieldEditorDialog } from '@/components/CustomFieldEditorDialog';
+import { CustomFieldSchemaImportDialog } from '@/components/CustomFieldSchemaImportDialog';
 import { customFieldService } from '@/services/api';
+import { 
+  CustomField,
+  CustomFieldType, 
+  CustomFieldValidation,
+  DEFAULT_FIELD_SECTION,
+  customFieldTypeLabels, 
+  describeCustomFieldDefault,
+  fieldTypeHasOptions,
+  groupCustomFieldsBySection
+} from '@/utils/data';
+import { describeVisibility } from '@/utils/visibility';
+import { FieldSchemaDocument, exportFieldSchema, parseFieldSchema } from '@/utils/fieldSchema';
 import { toast } from 'sonner';
 
-const formSchema = z.object({
-  name: z.string().min(2, { message: 'Field name must be at least 2 characters' }),
-  type: z.enum(['text', 'number', 'date', 'select'], { 
-    errorMap: () => ({ message: 'Please select a field type' }) 
-  }),
-  options: z.string().optional(),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-interface CustomField {
-  id: string;
-  name: string;
-  type: string;
-  options: string[] | null;
-}
+// Short, human readable summary of the validation rules for the fields table
+const describeValidationRules = (rules?: CustomFieldValidation | null): string[] => {
+  if (!rules) return [];
+  const summary: string[] = [];
+  if (rules.required) summary.push('Required');
+  if (rules.unique) summary.push('Unique');
+  if (rules.min !== undefined) summary.push(`≥ ${rules.min}`);
+  if (rules.max !== undefined) summary.push(`≤ ${rules.max}`);
+  if (rules.minDate) summary.push(`From ${rules.minDate}`);
+  if (rules.maxDate) summary.push(`Until ${rules.maxDate}`);
+  if (rules.maxLength) summary.push(`Max ${rules.maxLength} chars`);
+  if (rules.pattern) summary.push('Pattern');
+  return summary;
+};
 
 interface CustomFieldsManagerProps {
   isOpen: boolean;
@@ -76,16 +84,20 @@ interface CustomFieldsManagerProps {
 export function CustomFieldsManager({ isOpen, onClose }: CustomFieldsManagerProps) {
   const [fields, setFields] = useState<CustomField[]>([]);
   const [showAddField, setShowAddField] = useState(false);
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [draggedFieldId, setDraggedFieldId] = useState<string | null>(null);
+  const [renamingSection, setRenamingSection] = useState<string | null>(null);
+  const [sectionName, setSectionName] = useState('');
+  const [view, setView] = useState<'active' | 'archived'>('active');
+  const [importDocument, setImportDocument] = useState<FieldSchemaDocument | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [usage, setUsage] = useState<Record<string, { customers: number; missing: number; trashed: number }>>({});
 
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      name: '',
-      type: 'text',
-      options: '',
-    },
-  });
+  const activeFields = fields.filter(field => !field.archived);
+  const archivedFields = fields.filter(field => field.archived);
+  const sections = groupCustomFieldsBySection(activeFields);
+  const sectionNames = sections.map(section => section.name).filter(name => name !== DEFAULT_FIELD_SECTION);
 
   useEffect(() => {
     if (isOpen) {
@@ -93,16 +105,10 @@ export function CustomFieldsManager({ isOpen, onClose }: CustomFieldsManagerProp
     }
   }, [isOpen]);
 
-  useEffect(() => {
-    if (!showAddField) {
-      form.reset();
-    }
-  }, [showAddField, form]);
-
   const loadFields = async () => {
     try {
       setIsLoading(true);
-      const fetchedFields = await customFieldService.getAll();
+      const fetchedFields = await customFieldService.getAll({ includeArchived: true });
       console.log('Fetched custom fields:', fetchedFields);
       
       // Ensure we only use fields with valid data
@@ -124,38 +130,150 @@ export function CustomFieldsManager({ isOpen, onClose }: CustomFieldsManagerProp
     }
   };
 
-  const handleFormSubmit = async (data: FormValues) => {
+  const handleFieldSaved = (savedField: CustomField) => {
+    if (editingField) {
+      setFields(prev => prev.map(field => field.id === savedField.id ? savedField : field));
+    } else {
+      setFields(prev => [...prev, savedField]);
+    }
+  };
+
+  // Save a new order; positions follow the grouped display order so sections stay contiguous
+  const saveOrder = async (reordered: CustomField[]) => {
+    const normalized = groupCustomFieldsBySection(reordered)
+      .flatMap(section => section.fields)
+      .map((field, index) => ({ ...field, position: index }));
+    
+    const previous = fields;
+    setFields([...normalized, ...archivedFields]);
+    
+    try {
+      await customFieldService.reorder(normalized);
+    } catch (error) {
+      console.error('Error saving field order:', error);
+      toast.error('Failed to save field order');
+      setFields(previous);
+    }
+  };
+
+  // Move the dragged field in front of the target field, adopting its section
+  const handleDropOnField = (targetId: string) => {
+    if (!draggedFieldId || draggedFieldId === targetId) return;
+    
+    const dragged = fields.find(field => field.id === draggedFieldId);
+    const target = fields.find(field => field.id === targetId);
+    if (!dragged || !target) return;
+    
+    const ordered = sections.flatMap(section => section.fields).filter(field => field.id !== dragged.id);
+    ordered.splice(ordered.indexOf(target), 0, { ...dragged, section: target.section || null });
+    saveOrder(ordered.map((field, index) => ({ ...field, position: index })));
+  };
+
+  // Move the dragged field to the end of a section
+  const handleDropOnSection = (name: string) => {
+    const dragged = fields.find(field => field.id === draggedFieldId);
+    if (!dragged) return;
+    
+    const section = name === DEFAULT_FIELD_SECTION ? null : name;
+    const ordered = sections.flatMap(entry => entry.fields).filter(field => field.id !== dragged.id);
+    const lastIndexInSection = ordered.reduce(
+      (last, field, index) => ((field.section || null) === section ? index : last),
+      ordered.length - 1
+    );
+    ordered.splice(lastIndexInSection + 1, 0, { ...dragged, section });
+    saveOrder(ordered.map((field, index) => ({ ...field, position: index })));
+  };
+
+  const handleRenameSection = (from: string) => {
+    const to = sectionName.trim();
+    setRenamingSection(null);
+    if (!to || to === from) return;
+    
+    saveOrder(activeFields.map(field => (
+      (field.section || DEFAULT_FIELD_SECTION) === from
+        ? { ...field, section: to === DEFAULT_FIELD_SECTION ? null : to }
+        : field
+    )));
+  };
+
+  const handleArchiveField = async (field: CustomField) => {
     try {
       setIsLoading(true);
-      
-      // Process options for select fields
-      const options = data.type === 'select' && data.options
-        ? data.options.split(',').map(opt => opt.trim())
-        : null;
-      
-      const fieldData = {
-        name: data.name,
-        type: data.type,
-        options,
-      };
-      
-      console.log('Creating new field with data:', fieldData);
-      
-      const newField = await customFieldService.create(fieldData);
-      console.log('New field created:', newField);
-      
-      // Only add the field if it has all required properties
-      if (newField && newField.id && newField.name && newField.type) {
-        setFields(prev => [...prev, newField]);
-        toast.success(`Field "${data.name}" created successfully`);
-        setShowAddField(false);
-        form.reset();
-      } else {
-        toast.error('Created field has invalid data');
-      }
+      await customFieldService.archive(field.id);
+      setFields(prev => prev.map(f => f.id === field.id ? { ...f, archived: true } : f));
+      toast.success(`Field "${field.name}" archived`, {
+        description: 'It is hidden from forms and cards. Existing values are kept.',
+      });
+    } catch (error) {
+      console.error('Error archiving custom field:', error);
+      toast.error('Failed to archive custom field');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestoreField = async (field: CustomField) => {
+    try {
+      setIsLoading(true);
+      const restored = await customFieldService.restore(field.id);
+      setFields(prev => prev.map(f => f.id === field.id ? { ...f, ...restored, archived: false } : f));
+      toast.success(`Field "${field.name}" restored`);
+    } catch (error) {
+      console.error('Error restoring custom field:', error);
+      toast.error('Failed to restore custom field');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Download the active field definitions as a versioned JSON document
+  const handleExportSchema = () => {
+    const blob = new Blob([JSON.stringify(exportFieldSchema(fields), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `custom-fields-schema-${format(new Date(), 'yyyy-MM-dd')}.json`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setImportDocument(parseFieldSchema(await file.text()));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the schema file');
+    } finally {
+      // Allow picking the same file again
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  // Look up how many customers hold (or lack) a value before confirming a bulk change
+  const loadUsage = async (id: string) => {
+    try {
+      const fieldUsage = await customFieldService.getUsage(id);
+      setUsage(prev => ({ ...prev, [id]: fieldUsage }));
+    } catch (error) {
+      console.error('Error loading custom field usage:', error);
+    }
+  };
+
+  const handleBackfillField = async (field: CustomField) => {
+    try {
+      setIsLoading(true);
+      const { updated } = await customFieldService.backfill(field.id);
+      setUsage(prev => {
+        const next = { ...prev };
+        delete next[field.id];
+        return next;
+      });
+      toast.success(`Default value applied to ${updated} customer${updated === 1 ? '' : 's'}`);
     } catch (error) {
-      console.error('Error adding custom field:', error);
-      toast.error('Failed to create custom field');
+      console.error('Error applying default value:', error);
+      toast.error('Failed to apply the default value');
     } finally {
       setIsLoading(false);
     }
@@ -186,86 +304,300 @@ export function CustomFieldsManager({ isOpen, onClose }: CustomFieldsManagerProp
         <DialogHeader>
           <DialogTitle className="text-2xl">Manage Custom Fields</DialogTitle>
           <DialogDescription>
-            Add, edit, or remove custom fields for customer records.
+            Add, edit, or archive custom fields for customer records. Drag fields to reorder them or move them between sections.
           </DialogDescription>
         </DialogHeader>
         
         <div className="my-4">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-medium">Current Fields</h3>
-            <Button onClick={() => setShowAddField(true)} disabled={isLoading}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Field
-            </Button>
+            <Tabs value={view} onValueChange={(value) => setView(value as 'active' | 'archived')}>
+              <TabsList>
+                <TabsTrigger value="active">Current Fields</TabsTrigger>
+                <TabsTrigger value="archived">Archived ({archivedFields.length})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {view === 'active' && (
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={handleExportSchema} disabled={isLoading || activeFields.length === 0}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+                <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={isLoading}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => handleImportFile(e.target.files?.[0])}
+                />
+                <Button onClick={() => setShowAddField(true)} disabled={isLoading}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Field
+                </Button>
+              </div>
+            )}
           </div>
           
           {isLoading && fields.length === 0 ? (
             <div className="flex justify-center py-8">
               <div className="h-8 w-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
             </div>
-          ) : (
+          ) : view === 'archived' ? (
             <div className="rounded-md border">
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Field Name</TableHead>
                     <TableHead>Type</TableHead>
-                    <TableHead>Options</TableHead>
-                    <TableHead className="w-[80px]">Actions</TableHead>
+                    <TableHead>Archived</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {fields.length === 0 ? (
+                  {archivedFields.length === 0 ? (
                     <TableRow>
                       <TableCell colSpan={4} className="h-24 text-center">
-                        No custom fields defined yet.
+                        No archived fields.
                       </TableCell>
                     </TableRow>
                   ) : (
-                    fields.map((field) => (
+                    archivedFields.map((field) => (
                       <TableRow key={field.id}>
                         <TableCell className="font-medium">{field.name}</TableCell>
                         <TableCell>
-                          <Badge variant="outline">{field.type}</Badge>
+                          <Badge variant="outline">
+                            {customFieldTypeLabels[field.type as CustomFieldType] || field.type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {field.archivedAt ? format(new Date(field.archivedAt), 'PP') : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex space-x-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Restore"
+                              onClick={() => handleRestoreField(field)}
+                              disabled={isLoading}
+                            >
+                              <ArchiveRestore className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog onOpenChange={(open) => open && loadUsage(field.id)}>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-8 w-8" title="Delete permanently" disabled={isLoading}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete "{field.name}" permanently?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {usage[field.id] === undefined
+                                      ? 'Checking how many customers have a value for this field...'
+                                      : `${usage[field.id].customers} customer${usage[field.id].customers === 1 ? '' : 's'} will lose their value for this field${usage[field.id].trashed > 0 ? `, and ${usage[field.id].trashed} in the trash` : ''}.`}
+                                    {' '}This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDeleteField(field.id)}
+                                    disabled={usage[field.id] === undefined}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Delete permanently
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[32px]" />
+                    <TableHead>Field Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Options</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {activeFields.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        No custom fields defined yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    sections.map((section) => (
+                      <Fragment key={section.name}>
+                      <TableRow
+                        className="bg-muted/40 hover:bg-muted/40"
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={() => handleDropOnSection(section.name)}
+                      >
+                        <TableCell colSpan={5} className="py-2">
+                          {renamingSection === section.name ? (
+                            <div className="flex items-center gap-2">
+                              <Input
+                                value={sectionName}
+                                onChange={(e) => setSectionName(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleRenameSection(section.name);
+                                  if (e.key === 'Escape') setRenamingSection(null);
+                                }}
+                                className="h-8 max-w-xs"
+                                autoFocus
+                              />
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRenameSection(section.name)}>
+                                <Check className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setRenamingSection(null)}>
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-2 text-sm font-semibold">
+                              {section.name}
+                              {section.name !== DEFAULT_FIELD_SECTION && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  onClick={() => {
+                                    setRenamingSection(section.name);
+                                    setSectionName(section.name);
+                                  }}
+                                  disabled={isLoading}
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {section.fields.map((field) => (
+                      <TableRow
+                        key={field.id}
+                        draggable
+                        onDragStart={() => setDraggedFieldId(field.id)}
+                        onDragEnd={() => setDraggedFieldId(null)}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={(e) => {
+                          e.stopPropagation();
+                          handleDropOnField(field.id);
+                        }}
+                        className={draggedFieldId === field.id ? 'opacity-50' : undefined}
+                      >
+                        <TableCell className="cursor-grab px-2 text-muted-foreground">
+                          <GripVertical className="h-4 w-4" />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          <div>{field.name}</div>
+                          {describeValidationRules(field.validation).length > 0 && (
+                            <div className="mt-1 text-xs font-normal text-muted-foreground">
+                              {describeValidationRules(field.validation).join(' · ')}
+                            </div>
+                          )}
+                          {describeCustomFieldDefault(field) && (
+                            <div className="mt-1 text-xs font-normal text-muted-foreground">
+                              Default: {describeCustomFieldDefault(field)}
+                            </div>
+                          )}
+                          {describeVisibility(field, fields) && (
+                            <div className="mt-1 text-xs font-normal text-muted-foreground">
+                              Shown when {describeVisibility(field, fields)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {customFieldTypeLabels[field.type as CustomFieldType] || field.type}
+                          </Badge>
                         </TableCell>
                         <TableCell>
-                          {field.type === 'select' && field.options ? (
+                          {fieldTypeHasOptions(field.type) && field.options ? (
                             <div className="flex flex-wrap gap-1">
-                              {field.options.map((option, index) => (
-                                <Badge key={`${option}-${index}`} variant="secondary" className="text-xs">
-                                  {option}
-                                </Badge>
+                              {field.options.map((option) => (
+                                <CustomFieldOptionBadge key={option.value} option={option} />
                               ))}
                             </div>
+                          ) : field.type === 'formula' && field.formula ? (
+                            <code className="break-all text-xs text-muted-foreground">{field.formula}</code>
                           ) : (
                             <span className="text-muted-foreground">N/A</span>
                           )}
                         </TableCell>
                         <TableCell>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isLoading}>
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  This will permanently delete the "{field.name}" field from all customer records.
-                                  This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => handleDeleteField(field.id)}>
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                          <div className="flex space-x-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => setEditingField(field)}
+                              disabled={isLoading}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {field.defaultValue && !field.validation?.unique && (
+                              <AlertDialog onOpenChange={(open) => open && loadUsage(field.id)}>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Fill in default value" disabled={isLoading}>
+                                    <Wand2 className="h-4 w-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Fill in "{field.name}" for existing customers?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      {usage[field.id] === undefined
+                                        ? 'Checking how many customers have no value for this field...'
+                                        : `${usage[field.id].missing} customer${usage[field.id].missing === 1 ? '' : 's'} without a value will be set to "${describeCustomFieldDefault(field)}".`}
+                                      {' '}Customers that already have a value are not changed.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => handleBackfillField(field)}
+                                      disabled={!usage[field.id]?.missing}
+                                    >
+                                      Fill in default
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Archive"
+                              onClick={() => handleArchiveField(field)}
+                              disabled={isLoading}
+                            >
+                              <Archive className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </TableCell>
                       </TableRow>
+                      ))}
+                      </Fragment>
                     ))
                   )}
                 </TableBody>
@@ -274,91 +606,26 @@ export function CustomFieldsManager({ isOpen, onClose }: CustomFieldsManagerProp
           )}
         </div>
         
-        <Dialog open={showAddField} onOpenChange={setShowAddField}>
-          <DialogContent className="animate-slide-in">
-            <DialogHeader>
-              <DialogTitle>Add Custom Field</DialogTitle>
-              <DialogDescription>
-                Create a new custom field for your customer records.
-              </DialogDescription>
-            </DialogHeader>
-            
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Field Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="e.g., Company Size" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="type"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Field Type</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select field type" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="text">Text</SelectItem>
-                          <SelectItem value="number">Number</SelectItem>
-                          <SelectItem value="date">Date</SelectItem>
-                          <SelectItem value="select">Select (Dropdown)</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                {form.watch('type') === 'select' && (
-                  <FormField
-                    control={form.control}
-                    name="options"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Options</FormLabel>
-                        <FormControl>
-                          <Input 
-                            placeholder="Option 1, Option 2, Option 3" 
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                )}
-                
-                <div className="flex justify-end space-x-2 pt-4">
-                  <Button type="button" variant="outline" onClick={() => setShowAddField(false)} disabled={isLoading}>
-                    Cancel
-                  </Button>
-                  <Button type="submit" disabled={isLoading}>
-                    {isLoading ? (
-                      <>
-                        <div className="h-4 w-4 mr-2 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                        Adding...
-                      </>
-                    ) : 'Add Field'}
-                  </Button>
-                </div>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+        <CustomFieldSchemaImportDialog
+          document={importDocument}
+          fields={fields}
+          onClose={() => setImportDocument(null)}
+          onImported={loadFields}
+        />
+
+        <CustomFieldEditorDialog
+          open={showAddField || !!editingField}
+          field={editingField}
+          sections={sectionNames}
+          fields={activeFields}
+          onOpenChange={(open) => {
+            if (!open) {
+              setShowAddField(false);
+              setEditingField(null);
+            }
+          }}
+          onSaved={handleFieldSaved}
+        />
         
         <div className="flex justify-end">
           <Button variant="outline" onClick={onClose} disabled={isLoading}>
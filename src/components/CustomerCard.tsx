@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { format } from 'date-fns';
 import { MoreHorizontal, Calendar, Phone, Mail, Briefcase, MapPin } from 'lucide-react';
 import { 
@@ -11,6 +11,8 @@ import {
   CardTitle 
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { cn } from '@/lib/utils';
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -19,49 +21,129 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Customer } from '@/utils/data';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Customer, CustomField, groupCustomFieldsBySection, isEmptyCustomFieldValue } from '@/utils/data';
 import { Badge } from '@/components/ui/badge';
+import { CustomFieldValueDisplay } from '@/components/CustomFieldValueDisplay';
+import { TagList } from '@/components/TagBadge';
+import { getCustomFieldValues } from '@/utils/formula';
+import { getVisibleFieldIds } from '@/utils/visibility';
 
 interface CustomerCardProps {
   customer: Customer;
+  customFields?: CustomField[]; // Field definitions, used for ordering and sections
+  customerNames?: Map<string, string>; // Names of all customers, for relation fields
   onEdit: (customer: Customer) => void;
   onDelete: (id: string) => void;
+  onOpenCustomer?: (id: string) => void; // Follow a relation link
+  onView?: (customer: Customer) => void; // Open the detail page when the card is clicked
+  selected?: boolean;
+  onToggleSelect?: (range: boolean) => void; // Shows a checkbox; `range` is set on shift-click
 }
 
-export function CustomerCard({ customer, onEdit, onDelete }: CustomerCardProps) {
-  // Function to format custom field values
-  const formatCustomFieldValue = (value: string | number | Date | null): string => {
-    if (value === null || value === undefined) return '';
-    if (value instanceof Date) return format(value, 'PP');
-    return String(value);
-  };
+export function CustomerCard({
+  customer,
+  customFields = [],
+  customerNames,
+  onEdit,
+  onDelete,
+  onOpenCustomer,
+  onView,
+  selected = false,
+  onToggleSelect
+}: CustomerCardProps) {
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  // Prefer the field definitions (ordering, sections, formulas); fall back to the values carried by the customer
+  const values = getCustomFieldValues(customer, customFields);
+  const visibleFieldIds = getVisibleFieldIds(customFields, values);
+  const fieldsWithValues = customFields.length > 0
+    ? customFields.filter(definition => visibleFieldIds.has(definition.id)).map(definition => ({
+        ...definition,
+        value: values.get(definition.id),
+      }))
+    : customer.customFields;
+  const sections = groupCustomFieldsBySection(
+    fieldsWithValues.filter(field => !isEmptyCustomFieldValue(field.value))
+  );
 
   return (
-    <Card className="animate-fadeIn transition-all hover:shadow-md hover:bg-white/90 dark:hover:bg-gray-800/70">
+    <Card
+      className={cn(
+        'animate-fadeIn transition-all hover:shadow-md hover:bg-white/90 dark:hover:bg-gray-800/70',
+        onView && 'cursor-pointer',
+        selected && 'ring-2 ring-primary'
+      )}
+      tabIndex={onView ? 0 : undefined}
+      onClick={() => onView?.(customer)}
+      onKeyDown={(event) => {
+        if (onView && event.key === 'Enter' && event.target === event.currentTarget) {
+          onView(customer);
+        }
+      }}
+    >
       <CardHeader className="pb-2">
         <div className="flex justify-between items-start">
-          <CardTitle className="text-xl font-medium">{customer.name}</CardTitle>
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" size="icon" className="h-8 w-8">
-                <MoreHorizontal className="h-4 w-4" />
-                <span className="sr-only">Open menu</span>
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuLabel>Actions</DropdownMenuLabel>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={() => onEdit(customer)}>
-                Edit customer
-              </DropdownMenuItem>
-              <DropdownMenuItem 
-                className="text-destructive focus:text-destructive"
-                onClick={() => onDelete(customer.id)}
-              >
-                Delete customer
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+          <div className="flex items-center gap-2">
+            {onToggleSelect && (
+              // The checkbox must not open the card; shift-click selects a range
+              <Checkbox
+                checked={selected}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onToggleSelect(event.shiftKey);
+                }}
+                aria-label={`Select ${customer.name}`}
+              />
+            )}
+            <CardTitle className="text-xl font-medium">{customer.name}</CardTitle>
+          </div>
+          {/* The menu, its items and the confirmation must not open the card */}
+          <div onClick={(event) => event.stopPropagation()}>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8">
+                  <MoreHorizontal className="h-4 w-4" />
+                  <span className="sr-only">Open menu</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => onEdit(customer)}>
+                  Edit customer
+                </DropdownMenuItem>
+                <DropdownMenuItem 
+                  className="text-destructive focus:text-destructive"
+                  onClick={() => setConfirmDelete(true)}
+                >
+                  Delete customer
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {customer.name}'s record will be moved to the trash, where it can be restored.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => onDelete(customer.id)}>Delete</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
         </div>
         <CardDescription>
           {customer.dob && (
@@ -71,6 +153,7 @@ export function CustomerCard({ customer, onEdit, onDelete }: CustomerCardProps)
             </span>
           )}
         </CardDescription>
+        <TagList tags={customer.tags} className="pt-1" />
       </CardHeader>
       <CardContent className="pb-3">
         <div className="grid gap-2 text-sm">
@@ -92,22 +175,30 @@ export function CustomerCard({ customer, onEdit, onDelete }: CustomerCardProps)
           </div>
         </div>
       </CardContent>
-      {customer.customFields.length > 0 && (
+      {sections.length > 0 && (
         <CardFooter className="border-t pt-3 pb-3">
-          <div className="w-full">
-            <h4 className="text-xs font-semibold text-muted-foreground mb-2">Additional Information</h4>
-            <div className="grid gap-2 text-sm">
-              {customer.customFields.map((field, index) => (
-                field.value && (
-                  <div key={`${customer.id}-${field.id || index}`} className="flex items-start">
-                    <Badge variant="outline" className="mr-2 mt-0.5">
-                      {field.name}
-                    </Badge>
-                    <span>{formatCustomFieldValue(field.value)}</span>
-                  </div>
-                )
-              ))}
-            </div>
+          <div className="w-full space-y-3">
+            {sections.map((section) => (
+              <div key={section.name}>
+                <h4 className="text-xs font-semibold text-muted-foreground mb-2">{section.name}</h4>
+                <div className="grid gap-2 text-sm">
+                  {section.fields.map((field, index) => (
+                    <div key={`${customer.id}-${field.id || index}`} className="flex items-start">
+                      <Badge variant="outline" className="mr-2 mt-0.5 shrink-0">
+                        {field.name}
+                      </Badge>
+                      <CustomFieldValueDisplay
+                        type={field.type}
+                        value={field.value}
+                        options={field.options}
+                        customerNames={customerNames}
+                        onOpenCustomer={onOpenCustomer}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
           </div>
         </CardFooter>
       )}
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { CustomField, CustomFieldValue } from '@/utils/data';
+
+// Moving on after a save: to the next or previous cell (Tab, Shift+Tab) or down a row (Enter)
+export type CellEditorMove = 'next' | 'previous' | 'down';
+
+interface CustomerCellEditorProps {
+  field: CustomField; // Built-in columns are described as text, phone, email or date fields
+  value: CustomFieldValue | undefined;
+  validate: (value: CustomFieldValue) => string | null;
+  excludeCustomerId?: string; // Relation fields: the customer being edited
+  onSave: (value: CustomFieldValue, move?: CellEditorMove) => void;
+  onCancel: () => void;
+}
+
+// Picking a value from these is the whole edit, so they save right away
+const INSTANT_TYPES = ['select', 'boolean', 'date'];
+
+// In-place editor for a table cell: Enter or Tab saves, Escape cancels
+export function CustomerCellEditor({ field, value, validate, excludeCustomerId, onSave, onCancel }: CustomerCellEditorProps) {
+  const [draft, setDraft] = useState<CustomFieldValue>(value ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    containerRef.current?.querySelector<HTMLElement>('input, button, [role="combobox"]')?.focus();
+  }, []);
+
+  const save = (next: CustomFieldValue, move?: CellEditorMove) => {
+    const message = validate(next);
+    setError(message);
+    if (!message) onSave(next, move);
+  };
+
+  const handleChange = (next: CustomFieldValue) => {
+    setDraft(next);
+    if (INSTANT_TYPES.includes(field.type)) {
+      save(next);
+    } else if (error) {
+      setError(validate(next));
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Keys never reach the table's own navigation while editing
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onCancel();
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      save(draft, event.shiftKey ? 'previous' : 'next');
+    } else if (event.key === 'Enter' && event.target instanceof HTMLInputElement) {
+      event.preventDefault();
+      save(draft, 'down');
+    }
+  };
+
+  return (
+    // Clicks, also inside popovers, must not open the row
+    <div
+      ref={containerRef}
+      className="min-w-[180px] space-y-1"
+      onClick={(event) => event.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex items-start gap-1">
+        <div className="min-w-0 flex-1">
+          <CustomFieldInput
+            field={field}
+            value={draft}
+            onChange={handleChange}
+            excludeCustomerId={excludeCustomerId}
+            aria-invalid={!!error}
+          />
+        </div>
+        {!INSTANT_TYPES.includes(field.type) && (
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Save" onClick={() => save(draft)}>
+            <Check className="h-4 w-4" />
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Cancel" onClick={onCancel}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && <p className="text-xs font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
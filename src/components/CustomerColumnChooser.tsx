@@ -0,0 +1,65 @@
+import { Columns3, RotateCcw } from 'lucide-react';
+import type { Column, Table } from '@tanstack/react-table';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Customer } from '@/utils/data';
+
+interface CustomerColumnChooserProps {
+  table: Table<Customer>;
+  getLabel: (column: Column<Customer>) => string;
+  onReset: () => void; // Back to the default columns, widths, order and sort
+}
+
+// Menu for showing and hiding the columns of the customer table, custom fields included
+export function CustomerColumnChooser({ table, getLabel, onReset }: CustomerColumnChooserProps) {
+  const columns = table.getAllLeafColumns().filter(column => column.getCanHide());
+  const builtIn = columns.filter(column => !column.id.startsWith('custom:'));
+  const custom = columns.filter(column => column.id.startsWith('custom:'));
+
+  const renderItem = (column: Column<Customer>) => (
+    <DropdownMenuCheckboxItem
+      key={column.id}
+      checked={column.getIsVisible()}
+      onCheckedChange={(checked) => column.toggleVisibility(!!checked)}
+      // Keep the menu open while picking several columns
+      onSelect={(event) => event.preventDefault()}
+    >
+      {getLabel(column)}
+    </DropdownMenuCheckboxItem>
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 className="mr-2 h-4 w-4" />
+          Columns
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-[60vh] w-56 overflow-y-auto">
+        <DropdownMenuLabel>Customer fields</DropdownMenuLabel>
+        {builtIn.map(renderItem)}
+        {custom.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Custom fields</DropdownMenuLabel>
+            {custom.map(renderItem)}
+          </>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onReset}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset layout
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import { Filter, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  CUSTOMER_FILTER_OPERATORS,
+  CustomerFilterCondition,
+  CustomerFilterField,
+  CustomerFilterGroup,
+  CustomerFilterNode,
+  CustomerFilterOperator,
+  EMPTY_CUSTOMER_FILTER,
+  countFilterConditions,
+  getFilterOperatorLabel,
+  pruneCustomerFilter
+} from '@/utils/customerFilter';
+
+interface CustomerFilterBuilderProps {
+  fields: CustomerFilterField[];
+  filter: CustomerFilterGroup;
+  onChange: (filter: CustomerFilterGroup) => void;
+}
+
+// Groups can hold groups one level down; the server accepts deeper filters
+const MAX_GROUP_DEPTH = 2;
+
+const newCondition = (field: CustomerFilterField): CustomerFilterCondition => ({
+  kind: 'condition',
+  field: field.id,
+  operator: CUSTOMER_FILTER_OPERATORS[field.kind][0],
+  value: field.kind === 'boolean' ? 'true' : undefined,
+});
+
+// The number of values an operator takes: none, one, a pair or a list
+const valueShape = (operator: CustomerFilterOperator) =>
+  operator === 'isEmpty' || operator === 'isNotEmpty' ? 'none' : operator === 'between' ? 'pair' : operator === 'inList' ? 'list' : 'single';
+
+interface ConditionValueProps {
+  field: CustomerFilterField;
+  condition: CustomerFilterCondition;
+  onChange: (value: CustomerFilterCondition['value']) => void;
+}
+
+// Inputs for the values of a condition, depending on the field and operator
+function ConditionValue({ field, condition, onChange }: ConditionValueProps) {
+  const shape = valueShape(condition.operator);
+  const values = Array.isArray(condition.value) ? condition.value : condition.value ? [condition.value] : [];
+  if (shape === 'none') return null;
+
+  if (field.kind === 'boolean') {
+    return (
+      <Select value={values[0] ?? 'true'} onValueChange={onChange}>
+        <SelectTrigger className="h-8 w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="true">Yes</SelectItem>
+          <SelectItem value="false">No</SelectItem>
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (field.kind === 'option' || field.kind === 'options') {
+    const options = field.options || [];
+    if (shape === 'list') {
+      return (
+        <div className="max-h-32 w-48 space-y-1 overflow-y-auto rounded-md border p-2">
+          {options.map(option => (
+            <label key={option.value} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={values.includes(option.value)}
+                onCheckedChange={(checked) => onChange(checked
+                  ? [...values, option.value]
+                  : values.filter(value => value !== option.value))}
+              />
+              <span className="truncate">{option.label}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+    return (
+      <Select value={values[0] ?? ''} onValueChange={onChange}>
+        <SelectTrigger className="h-8 w-48">
+          <SelectValue placeholder="Choose an option" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  const inputType = field.kind === 'number' ? 'number' : field.kind === 'date' ? 'date' : 'text';
+  if (shape === 'pair') {
+    return (
+      <div className="flex items-center gap-1">
+        <Input
+          type={inputType}
+          className="h-8 w-36"
+          value={values[0] ?? ''}
+          onChange={(event) => onChange([event.target.value, values[1] ?? ''])}
+        />
+        <span className="text-sm text-muted-foreground">and</span>
+        <Input
+          type={inputType}
+          className="h-8 w-36"
+          value={values[1] ?? ''}
+          onChange={(event) => onChange([values[0] ?? '', event.target.value])}
+        />
+      </div>
+    );
+  }
+  if (shape === 'list') {
+    // Several text values are typed separated by commas
+    return (
+      <Input
+        className="h-8 w-48"
+        placeholder="Values, separated by commas"
+        value={values.join(',')}
+        onChange={(event) => onChange(event.target.value.split(','))}
+      />
+    );
+  }
+  return (
+    <Input
+      type={inputType}
+      className="h-8 w-48"
+      value={values[0] ?? ''}
+      onChange={(event) => onChange(event.target.value)}
+    />
+  );
+}
+
+interface FilterGroupEditorProps {
+  fields: CustomerFilterField[];
+  group: CustomerFilterGroup;
+  depth: number;
+  onChange: (group: CustomerFilterGroup) => void;
+  onRemove?: () => void;
+}
+
+function FilterGroupEditor({ fields, group, depth, onChange, onRemove }: FilterGroupEditorProps) {
+  const updateNode = (index: number, node: CustomerFilterNode | null) => {
+    const conditions = [...group.conditions];
+    if (node) conditions[index] = node;
+    else conditions.splice(index, 1);
+    onChange({ ...group, conditions });
+  };
+
+  const changeField = (index: number, fieldId: string) => {
+    const field = fields.find(entry => entry.id === fieldId);
+    if (field) updateNode(index, newCondition(field));
+  };
+
+  // Values are kept while the operator takes the same number of them
+  const changeOperator = (index: number, condition: CustomerFilterCondition, operator: CustomerFilterOperator) => {
+    const keep = valueShape(operator) === valueShape(condition.operator);
+    updateNode(index, { ...condition, operator, value: keep ? condition.value : undefined });
+  };
+
+  return (
+    <div className={cn('space-y-2', depth > 1 && 'rounded-md border bg-muted/30 p-3')}>
+      <div className="flex items-center gap-2 text-sm">
+        <span>Match</span>
+        <Select
+          value={group.combinator}
+          onValueChange={(combinator) => onChange({ ...group, combinator: combinator as CustomerFilterGroup['combinator'] })}
+        >
+          <SelectTrigger className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of the following</span>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="ml-auto h-7 w-7" onClick={onRemove}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Remove group</span>
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((node, index) => {
+        if (node.kind === 'group') {
+          return (
+            <FilterGroupEditor
+              key={index}
+              fields={fields}
+              group={node}
+              depth={depth + 1}
+              onChange={(changed) => updateNode(index, changed)}
+              onRemove={() => updateNode(index, null)}
+            />
+          );
+        }
+
+        const field = fields.find(entry => entry.id === node.field);
+        return (
+          <div key={index} className="flex flex-wrap items-start gap-2">
+            <Select value={field ? node.field : undefined} onValueChange={(fieldId) => changeField(index, fieldId)}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue placeholder="Deleted field" />
+              </SelectTrigger>
+              <SelectContent>
+                {fields.map(entry => (
+                  <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {field && (
+              <>
+                <Select
+                  value={node.operator}
+                  onValueChange={(operator) => changeOperator(index, node, operator as CustomerFilterOperator)}
+                >
+                  <SelectTrigger className="h-8 w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOMER_FILTER_OPERATORS[field.kind].map(operator => (
+                      <SelectItem key={operator} value={operator}>{getFilterOperatorLabel(operator, field.kind)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ConditionValue
+                  field={field}
+                  condition={node}
+                  onChange={(value) => updateNode(index, { ...node, value })}
+                />
+              </>
+            )}
+            <Button variant="ghost" size="icon" className="ml-auto h-8 w-8" onClick={() => updateNode(index, null)}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove condition</span>
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, newCondition(fields[0])] })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({
+              ...group,
+              conditions: [
+                ...group.conditions,
+                { kind: 'group', combinator: group.combinator === 'and' ? 'or' : 'and', conditions: [newCondition(fields[0])] },
+              ],
+            })}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Narrow the customer list down with conditions on built-in and custom fields, combined
+// in groups. Changes apply when the user confirms them.
+export function CustomerFilterBuilder({ fields, filter, onChange }: CustomerFilterBuilderProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(filter);
+  const activeCount = countFilterConditions(pruneCustomerFilter(filter, fields) ?? EMPTY_CUSTOMER_FILTER);
+
+  const handleOpenChange = (next: boolean) => {
+    // Start from the applied filter, with a first condition when there is none
+    if (next) {
+      setDraft(filter.conditions.length > 0 ? filter : { ...filter, conditions: [newCondition(fields[0])] });
+    }
+    setOpen(next);
+  };
+
+  const apply = (next: CustomerFilterGroup) => {
+    onChange(next);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant={activeCount > 0 ? 'default' : 'outline'} size="sm" className="flex items-center gap-1">
+          <Filter className="h-4 w-4" />
+          <span>{activeCount > 0 ? `Filters (${activeCount})` : 'Filters'}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="max-h-[70vh] w-[40rem] max-w-[95vw] overflow-y-auto" align="end">
+        <FilterGroupEditor fields={fields} group={draft} depth={1} onChange={setDraft} />
+        <div className="mt-4 flex justify-end gap-2 border-t pt-3">
+          <Button variant="ghost" size="sm" onClick={() => apply(EMPTY_CUSTOMER_FILTER)}>
+            Clear
+          </Button>
+          <Button size="sm" onClick={() => apply(draft)}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
+import { isAxiosError } from 'axios';
 import { z } from 'zod';
 import { format } from 'date-fns';
-import { Calendar as CalendarIcon } from 'lucide-react';
+import { AlertTriangle, Calendar as CalendarIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Form,
@@ -14,43 +17,66 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
-import { Customer, CustomField } from '@/utils/data';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { customFieldService } from '@/services/api';
+import {
+  Customer,
+  CustomField,
+  CustomFieldValue,
+  formatCustomFieldValue,
+  groupCustomFieldsBySection,
+  isComputedFieldType,
+  isEmptyCustomFieldValue,
+  resolveCustomFieldDefault
+} from '@/utils/data';
+import { CustomFieldInput } from '@/components/CustomFieldInput';
+import { TagInput } from '@/components/TagInput';
+import { customerService, customFieldService } from '@/services/api';
+import { buildCustomFieldsSchema, customerBaseSchema } from '@/utils/validation';
+import { computeFormulaFields } from '@/utils/formula';
+import { getVisibleFieldIds } from '@/utils/visibility';
+import { findLikelyDuplicates } from '@/utils/duplicates';
 import { toast } from 'sonner';
 
 // Define the form schema with zod
-const formSchema = z.object({
-  name: z.string().min(2, { message: 'Name must be at least 2 characters' }),
-  dob: z.date().nullable().optional(),
-  phone: z.string().min(5, { message: 'Phone number must be valid' }),
-  email: z.string().email({ message: 'Please enter a valid email address' }),
-  occupation: z.string().min(2, { message: 'Occupation must be at least 2 characters' }),
-  location: z.string().min(2, { message: 'Location must be at least 2 characters' }),
+const formSchema = customerBaseSchema.extend({
+  tags: z.array(z.string()).optional(), // Tag names; unknown names become new tags
   // Custom fields will be added dynamically
 });
 
 // Create a type for the form values
 type FormValues = z.infer<typeof formSchema> & {
-  customFields?: Record<string, string | number | null>;
+  customFields?: Record<string, CustomFieldValue>;
 };
 
 interface CustomerFormProps {
   customer?: Customer;
-  onSubmit: (data: any) => void;
+  onSubmit: (data: any) => void | Promise<unknown>; // A rejected promise can carry the server's unique value conflicts
   onCancel: () => void;
 }
 
+interface UniqueConflict {
+  fieldId?: string;
+  customerName: string;
+  inTrash: boolean;
+}
+
+const describeUniqueConflict = (conflict: UniqueConflict) =>
+  `Already used by ${conflict.customerName}${conflict.inTrash ? ' (in the trash)' : ''}`;
+
 export function CustomerForm({ customer, onSubmit, onCancel }: CustomerFormProps) {
   const [customFields, setCustomFields] = useState<CustomField[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Messages for unique fields whose value is already used by another customer, keyed by field id
+  const [uniqueConflicts, setUniqueConflicts] = useState<Record<string, string>>({});
+  // Schema including the rules of the loaded custom fields; rebuilt whenever they change
+  const schemaRef = useRef<z.ZodTypeAny>(formSchema);
   
   // Initialize the form
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: (values, context, options) => zodResolver(schemaRef.current)(values, context, options),
     defaultValues: {
       name: customer?.name || '',
       dob: customer?.dob || null,
@@ -58,6 +84,7 @@ export function CustomerForm({ customer, onSubmit, onCancel }: CustomerFormProps
       email: customer?.email || '',
       occupation: customer?.occupation || '',
       location: customer?.location || '',
+      tags: customer?.tags?.map(tag => tag.name) || [],
       customFields: {},
     },
   });
@@ -80,18 +107,33 @@ export function CustomerForm({ customer, onSubmit, onCancel }: CustomerFormProps
         );
         
         setCustomFields(validFields);
+        schemaRef.current = formSchema.extend({
+          customFields: buildCustomFieldsSchema(validFields),
+        });
         
         // If editing an existing customer, set custom field values
         if (customer?.customFields?.length) {
-          const customFieldValues: Record<string, string | number | null> = {};
+          const customFieldValues: Record<string, CustomFieldValue> = {};
           
           customer.customFields.forEach(field => {
             if (field && field.id) {
-              customFieldValues[field.id.toString()] = field.value as string | number | null;
+              customFieldValues[field.id.toString()] = field.value ?? null;
             }
           });
           
           form.setValue('customFields', customFieldValues);
+        } else if (!customer) {
+          // New customers start from each field's default value
+          const defaultValues: Record<string, CustomFieldValue> = {};
+          
+          validFields.forEach(field => {
+            const value = resolveCustomFieldDefault(field);
+            if (!isEmptyCustomFieldValue(value)) {
+              defaultValues[field.id.toString()] = value;
+            }
+          });
+          
+          form.setValue('customFields', defaultValues);
         }
       } catch (error) {
         console.error('Error loading custom fields for form:', error);
@@ -105,18 +147,139 @@ export function CustomerForm({ customer, onSubmit, onCancel }: CustomerFormProps
     loadCustomFields();
   }, [customer, form]);
 
+  // Formula fields are recomputed live from the values being edited
+  const watchedValues = form.watch();
+  const formulaResults = computeFormulaFields({
+    name: watchedValues.name,
+    dob: watchedValues.dob ?? null,
+    phone: watchedValues.phone,
+    email: watchedValues.email,
+    occupation: watchedValues.occupation,
+    location: watchedValues.location,
+    createdAt: customer?.createdAt ?? new Date(),
+    updatedAt: customer?.updatedAt ?? new Date(),
+    customFields: Object.entries(watchedValues.customFields || {}).map(([id, value]) => ({ id, value })),
+  }, customFields);
+
+  // Show-when conditions are evaluated live against the values being edited
+  const visibleFieldIds = getVisibleFieldIds(
+    customFields,
+    new Map(Object.entries(watchedValues.customFields || {}))
+  );
+
+  // Warn about existing customers that look like the one being entered
+  const { data: existingCustomers = [] } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => customerService.getAll(),
+  });
+  const likelyDuplicates = findLikelyDuplicates(
+    { name: watchedValues.name, email: watchedValues.email, phone: watchedValues.phone },
+    existingCustomers,
+    customer?.id.toString()
+  ).slice(0, 3);
+
+  // Check unique fields against other customers while the user types (debounced)
+  const uniqueKey = JSON.stringify(
+    customFields
+      .filter(field => field.validation?.unique && visibleFieldIds.has(field.id.toString()))
+      .map(field => [field.id.toString(), watchedValues.customFields?.[field.id.toString()] ?? null])
+  );
+
+  useEffect(() => {
+    const entries: [string, CustomFieldValue][] = JSON.parse(uniqueKey);
+    if (entries.length === 0) {
+      setUniqueConflicts({});
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const results = await Promise.all(entries.map(async ([fieldId, value]) => {
+        try {
+          const conflict = await customFieldService.findConflict(fieldId, value, customer?.id);
+          return [fieldId, conflict ? describeUniqueConflict(conflict) : null] as const;
+        } catch (error) {
+          console.error('Error checking unique custom field value:', error);
+          return [fieldId, null] as const;
+        }
+      }));
+
+      if (!cancelled) {
+        setUniqueConflicts(Object.fromEntries(results.filter(([, message]) => message !== null)));
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [uniqueKey, customer?.id]);
+
+  // Render the input widget matching the custom field type
+  const renderCustomFieldInput = (field: CustomField, fieldId: string) => {
+    const value = form.watch(`customFields.${fieldId}`);
+    const setValue = (newValue: CustomFieldValue) => form.setValue(`customFields.${fieldId}`, newValue, {
+      shouldDirty: true,
+      shouldValidate: form.formState.isSubmitted,
+    });
+
+    switch (field.type) {
+      case 'formula': {
+        const result = formulaResults.get(fieldId);
+        return (
+          <>
+            <FormControl>
+              <Input
+                readOnly
+                tabIndex={-1}
+                className="bg-muted text-muted-foreground"
+                value={formatCustomFieldValue(field.type, result?.value)}
+                placeholder="Calculated automatically"
+              />
+            </FormControl>
+            {result?.error && <p className="text-xs text-destructive">{result.error}</p>}
+          </>
+        );
+      }
+      case 'relation':
+      case 'multiselect':
+        return (
+          <CustomFieldInput field={field} value={value} onChange={setValue} excludeCustomerId={customer?.id?.toString()} />
+        );
+      default:
+        return (
+          <FormControl>
+            <CustomFieldInput field={field} value={value} onChange={setValue} />
+          </FormControl>
+        );
+    }
+  };
+
   // Handle form submission
-  const handleFormSubmit = (data: FormValues) => {
+  const handleFormSubmit = async (data: FormValues) => {
+    const conflictingFieldIds = Object.keys(uniqueConflicts);
+    if (conflictingFieldIds.length > 0) {
+      conflictingFieldIds.forEach(fieldId => {
+        form.setError(`customFields.${fieldId}`, { message: uniqueConflicts[fieldId] });
+      });
+      return;
+    }
+
     // Process custom fields before sending data
+    const submittedVisibleIds = getVisibleFieldIds(customFields, new Map(Object.entries(data.customFields || {})));
     const processedCustomFields = customFields
-      .filter(field => field && field.id)
+      // Formula values are computed, never submitted
+      .filter(field => field && field.id && !isComputedFieldType(field.type))
       .map(field => {
         const fieldId = field.id.toString(); // Ensure id is a string for consistency
+        // Hidden fields are cleared so stale answers do not linger
+        const value = submittedVisibleIds.has(fieldId) ? data.customFields?.[fieldId] : null;
         return {
           id: fieldId,
           name: field.name,
           type: field.type,
-          value: data.customFields?.[fieldId] || null,
+          // Keep `false` for booleans; only genuinely empty values become null
+          value: isEmptyCustomFieldValue(value) ? null : value,
         };
       });
     
@@ -126,7 +289,20 @@ export function CustomerForm({ customer, onSubmit, onCancel }: CustomerFormProps
     };
     
     console.log('Submitting form data:', formData);
-    onSubmit(formData);
+    try {
+      await onSubmit(formData);
+    } catch (error) {
+      // Values taken since the live check, or that it could not check, come back from the
+      // server as a 409 listing the fields; other failures are reported by the caller
+      const conflicts: UniqueConflict[] = isAxiosError(error) && error.response?.status === 409
+        ? error.response.data?.conflicts ?? []
+        : [];
+      conflicts
+        .filter(conflict => conflict.fieldId)
+        .forEach(conflict => {
+          form.setError(`customFields.${conflict.fieldId}`, { message: describeUniqueConflict(conflict) });
+        });
+    }
   };
 
   return (
@@ -245,6 +421,20 @@ export function CustomerForm({ customer, onSubmit, onCancel }: CustomerFormProps
               </FormItem>
             )}
           />
+
+          <FormField
+            control={form.control}
+            name="tags"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Tags</FormLabel>
+                <FormControl>
+                  <TagInput value={field.value || []} onChange={field.onChange} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
 
         {/* Custom Fields */}
@@ -253,89 +443,56 @@ export function CustomerForm({ customer, onSubmit, onCancel }: CustomerFormProps
             <div className="h-6 w-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
           </div>
         ) : customFields.length > 0 ? (
-          <div className="mt-6">
-            <h3 className="mb-4 text-lg font-medium">Additional Information</h3>
+          groupCustomFieldsBySection(customFields.filter(field => visibleFieldIds.has(field.id.toString()))).map((section) => (
+          <div key={section.name} className="mt-6">
+            <h3 className="mb-4 text-lg font-medium">{section.name}</h3>
             <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-              {customFields.map((field) => {
+              {section.fields.map((field) => {
                 const fieldId = field.id.toString(); // Ensure consistent string ID
                 return (
-                <FormItem key={fieldId}>
-                  <FormLabel>{field.name}</FormLabel>
-                  <FormControl>
-                    {field.type === 'text' ? (
-                      <Input
-                        placeholder={field.name}
-                        value={form.watch(`customFields.${fieldId}`) as string || ''}
-                        onChange={(e) => {
-                          form.setValue(`customFields.${fieldId}`, e.target.value);
-                        }}
-                      />
-                    ) : field.type === 'number' ? (
-                      <Input
-                        type="number"
-                        placeholder={field.name}
-                        value={form.watch(`customFields.${fieldId}`) as string || ''}
-                        onChange={(e) => {
-                          form.setValue(`customFields.${fieldId}`, e.target.valueAsNumber || null);
-                        }}
-                      />
-                    ) : field.type === 'select' && field.options ? (
-                      <Select
-                        onValueChange={(value) => form.setValue(`customFields.${fieldId}`, value)}
-                        defaultValue={form.watch(`customFields.${fieldId}`) as string || ''}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder={`Select ${field.name}`} />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {field.options.map((option) => (
-                            <SelectItem key={option} value={option}>{option}</SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    ) : field.type === 'date' ? (
-                      <Popover>
-                        <PopoverTrigger asChild>
-                          <Button
-                            variant="outline"
-                            className={cn(
-                              "w-full justify-start text-left font-normal",
-                              !form.watch(`customFields.${fieldId}`) && "text-muted-foreground"
-                            )}
-                          >
-                            {form.watch(`customFields.${fieldId}`) ? (
-                              format(new Date(form.watch(`customFields.${fieldId}`) as string), "PPP")
-                            ) : (
-                              <span>Pick a date</span>
-                            )}
-                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                          </Button>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-auto p-0" align="start">
-                          <Calendar
-                            mode="single"
-                            selected={form.watch(`customFields.${fieldId}`) ? new Date(form.watch(`customFields.${fieldId}`) as string) : undefined}
-                            onSelect={(date) => form.setValue(`customFields.${fieldId}`, date ? date.toISOString() : null)}
-                            initialFocus
-                          />
-                        </PopoverContent>
-                      </Popover>
-                    ) : (
-                      <Input
-                        placeholder={field.name}
-                        value={form.watch(`customFields.${fieldId}`) as string || ''}
-                        onChange={(e) => {
-                          form.setValue(`customFields.${fieldId}`, e.target.value);
-                        }}
-                      />
-                    )}
-                  </FormControl>
-                </FormItem>
+                <FormField
+                  key={fieldId}
+                  control={form.control}
+                  name={`customFields.${fieldId}`}
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>
+                        {field.name}
+                        {field.validation?.required && <span className="ml-0.5 text-destructive">*</span>}
+                      </FormLabel>
+                      {renderCustomFieldInput(field, fieldId)}
+                      <FormMessage />
+                      {uniqueConflicts[fieldId] && !form.formState.errors.customFields?.[fieldId] && (
+                        <p className="text-sm font-medium text-destructive">{uniqueConflicts[fieldId]}</p>
+                      )}
+                    </FormItem>
+                  )}
+                />
               )})}
             </div>
           </div>
+          ))
         ) : null}
 
+        {likelyDuplicates.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This may be a duplicate</AlertTitle>
+            <AlertDescription>
+              <ul className="mt-1 space-y-1">
+                {likelyDuplicates.map(({ customer: match, reasons }) => (
+                  <li key={match.id}>
+                    <Link to={`/customers/${match.id}`} className="font-medium text-primary underline-offset-4 hover:underline">
+                      {match.name}
+                    </Link>
+                    <span className="text-muted-foreground"> · {reasons.join(', ')}</span>
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="flex justify-end space-x-2">
           <Button type="button" variant="outline" onClick={onCancel}>
             Cancel
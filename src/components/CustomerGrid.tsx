@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Briefcase } from 'lucide-react';
+import { CustomerCard } from '@/components/CustomerCard';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { Customer, CustomField } from '@/utils/data';
+
+interface CustomerGridProps {
+  customers: Customer[];
+  customFields?: CustomField[];
+  customerNames?: Map<string, string>; // Names of all customers, for relation fields
+  onEdit: (customer: Customer) => void;
+  onDelete: (id: string) => void;
+  onOpenCustomer?: (id: string) => void; // Follow a relation link
+  onView?: (customer: Customer) => void; // Open the detail page when a card is clicked
+  selectedIds?: string[];
+  onToggleSelect?: (id: string, range: boolean) => void; // Cards get checkboxes; `range` is set on shift-click
+}
+
+// Cards per row at the breakpoints of the grid classes below
+const getColumnCount = (width: number) => (width >= 1280 ? 4 : width >= 1024 ? 3 : width >= 640 ? 2 : 1);
+
+// Customer cards in a responsive grid. Only the rows of cards in and near the window are
+// rendered, and the arrow keys move between cards.
+export function CustomerGrid({
+  customers,
+  customFields = [],
+  customerNames,
+  onEdit,
+  onDelete,
+  onOpenCustomer,
+  onView,
+  selectedIds = [],
+  onToggleSelect
+}: CustomerGridProps) {
+  const [columns, setColumns] = useState(() => getColumnCount(window.innerWidth));
+  // Card to focus once it is rendered, after moving to it with the arrow keys
+  const focusPending = useRef<number | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => setColumns(getColumnCount(window.innerWidth));
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const rowCount = Math.ceil(customers.length / columns);
+  const virtual = useVirtualRows<HTMLDivElement>({
+    count: rowCount,
+    estimateSize: 260,
+    // Heights depend on the cards in the row, so the key names its first card
+    getKey: (index) => `${columns}:${customers[index * columns].id}`,
+    overscan: 2,
+  });
+
+  useEffect(() => {
+    if (focusPending.current === null) return;
+    const card = virtual.listRef.current?.querySelector<HTMLElement>(`[data-card-index="${focusPending.current}"] > [tabindex]`);
+    if (card) {
+      focusPending.current = null;
+      card.focus();
+    }
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const steps: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -columns, ArrowDown: columns };
+    const wrapper = (event.target as HTMLElement).parentElement;
+    // Only when a card itself has the focus, not one of its buttons
+    if (!(event.key in steps) || !wrapper?.dataset.cardIndex || event.target !== wrapper.firstElementChild) return;
+
+    const next = Number(wrapper.dataset.cardIndex) + steps[event.key];
+    if (next < 0 || next >= customers.length) return;
+    event.preventDefault();
+    // Cards outside the window are focused once scrolling has rendered them
+    focusPending.current = next;
+    virtual.scrollToIndex(Math.floor(next / columns));
+    const card = virtual.listRef.current?.querySelector<HTMLElement>(`[data-card-index="${next}"] > [tabindex]`);
+    if (card) {
+      focusPending.current = null;
+      card.focus();
+    }
+  };
+
+  if (customers.length === 0) {
+    return (
+      <div className="bg-white/80 dark:bg-gray-800/50 text-center py-12 rounded-xl shadow-md border border-gray-100 dark:border-gray-700">
+        <Briefcase className="h-12 w-12 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-muted-foreground">No customers found.</p>
+      </div>
+    );
+  }
+
+  const selectedSet = new Set(selectedIds);
+  const rows = Array.from({ length: virtual.end - virtual.start }, (_, offset) => virtual.start + offset);
+
+  return (
+    <div
+      ref={virtual.listRef}
+      style={{ paddingTop: virtual.paddingTop, paddingBottom: virtual.paddingBottom }}
+      onKeyDown={handleKeyDown}
+    >
+      {rows.map((row) => (
+        <div
+          key={`${columns}:${row}`}
+          data-virtual-key={`${columns}:${customers[row * columns].id}`}
+          className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 pb-6"
+        >
+          {customers.slice(row * columns, (row + 1) * columns).map((customer, column) => (
+            <div key={customer.id} data-card-index={row * columns + column}>
+              <CustomerCard
+                customer={customer}
+                customFields={customFields}
+                customerNames={customerNames}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onOpenCustomer={onOpenCustomer}
+                onView={onView}
+                selected={selectedSet.has(customer.id.toString())}
+                onToggleSelect={onToggleSelect && ((range) => onToggleSelect(customer.id.toString(), range))}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { customerService } from '@/services/api';
+import { Customer } from '@/utils/data';
+
+interface CustomerLinkPickerProps {
+  value: string[]; // Ids of the linked customers
+  onChange: (ids: string[]) => void;
+  excludeId?: string; // The customer being edited, who cannot link to itself
+  placeholder?: string;
+}
+
+// Searchable picker for the customers a relation field links to
+export function CustomerLinkPicker({ value, onChange, excludeId, placeholder = 'Link a customer' }: CustomerLinkPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  // Names of customers picked from search results, for chips of customers not in the cached list
+  const [pickedNames, setPickedNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(query.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: customers = [] } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => customerService.getAll(),
+  });
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ['customers', 'search', searchQuery],
+    queryFn: () => customerService.search(searchQuery),
+    enabled: !!searchQuery,
+  });
+
+  const nameOf = (id: string) =>
+    pickedNames[id] ?? customers.find((customer: Customer) => customer.id.toString() === id)?.name;
+
+  const candidates = (results as Customer[]).filter(customer => {
+    const id = customer.id.toString();
+    return id !== excludeId && !value.includes(id);
+  });
+
+  const handleSelect = (customer: Customer) => {
+    const id = customer.id.toString();
+    setPickedNames(names => ({ ...names, [id]: customer.name }));
+    onChange([...value, id]);
+    setQuery('');
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((id) => (
+            <Badge key={id} variant="secondary" className="gap-1 pr-1">
+              {nameOf(id) ?? <span className="italic text-muted-foreground">Unknown customer</span>}
+              <button
+                type="button"
+                className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                onClick={() => onChange(value.filter(linked => linked !== id))}
+                aria-label={`Remove ${nameOf(id) ?? 'link'}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="font-normal">
+            <Link2 className="mr-2 h-4 w-4" />
+            {placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-0" align="start">
+          {/* Results come from the server search, so cmdk must not filter them again */}
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Search by name, email or phone..." value={query} onValueChange={setQuery} />
+            <CommandList>
+              {searchQuery && !isFetching && (
+                <CommandEmpty>No matching customers.</CommandEmpty>
+              )}
+              {!searchQuery && (
+                <p className="py-6 text-center text-sm text-muted-foreground">Type to search customers</p>
+              )}
+              {candidates.length > 0 && (
+                <CommandGroup>
+                  {candidates.map((customer) => (
+                    <CommandItem
+                      key={customer.id}
+                      value={customer.id.toString()}
+                      onSelect={() => handleSelect(customer)}
+                    >
+                      <div className="flex flex-col">
+                        <span>{customer.name}</span>
+                        <span className="text-xs text-muted-foreground">{customer.email}</span>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -1,18 +1,82 @@
 
-import { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { format } from 'date-fns';
-import { Edit, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
-import { Customer } from '@/utils/data';
+import {
+  ArrowLeft,
+  ArrowRight,
+  ChevronDown,
+  ChevronUp,
+  ChevronsUpDown,
+  Edit,
+  EyeOff,
+  ExternalLink,
+  Pin,
+  PinOff,
+  Trash2
+} from 'lucide-react';
+import {
+  Column,
+  ColumnDef,
+  ColumnOrderState,
+  ColumnPinningState,
+  flexRender,
+  functionalUpdate,
+  getCoreRowModel,
+  getSortedRowModel,
+  Header,
+  SortingFn,
+  SortingState,
+  Updater,
+  useReactTable
+} from '@tanstack/react-table';
+import {
+  Customer,
+  CustomField,
+  CustomFieldValue,
+  compareCustomFieldValues,
+  fieldTypeHasOptions,
+  formatCustomFieldValue,
+  formatCustomerLinks,
+  groupCustomFieldsBySection,
+  isComputedFieldType,
+  isEmptyCustomFieldValue
+} from '@/utils/data';
+import { getCustomFieldValues } from '@/utils/formula';
+import { getVisibleFieldIds } from '@/utils/visibility';
+import { CustomerBaseField, validateCustomerBaseField, validateCustomFieldValue } from '@/utils/validation';
+import {
+  CUSTOMER_TABLE_LAYOUT_KEY,
+  CustomerTableLayout,
+  DEFAULT_CUSTOMER_TABLE_LAYOUT,
+  parseCustomerTableLayout
+} from '@/utils/tableLayout';
+import { canSortOnServer, sortsOnPageOnly } from '@/utils/customerQuery';
+import { usePreference } from '@/hooks/use-preference';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { CustomFieldValueDisplay } from '@/components/CustomFieldValueDisplay';
+import { CellEditorMove, CustomerCellEditor } from '@/components/CustomerCellEditor';
+import { CustomerColumnChooser } from '@/components/CustomerColumnChooser';
+import { TagList } from '@/components/TagBadge';
 import { Button } from '@/components/ui/button';
-import { 
-  Table, 
-  TableBody, 
-  TableCell, 
-  TableHead, 
-  TableHeader, 
-  TableRow 
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { toggleSelection } from '@/utils/selection';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
 } from '@/components/ui/table';
-import { 
+import {
   AlertDialog,
   AlertDialogAction,
   AlertDialogCancel,
@@ -24,169 +88,713 @@ import {
   AlertDialogTrigger
 } from '@/components/ui/alert-dialog';
 
-type SortField = 'name' | 'dob' | 'email' | 'phone' | 'occupation' | 'location';
-type SortDirection = 'asc' | 'desc';
+// A cell of the table: the customer's id and the column, a built-in field key or `custom:<field id>`
+interface CellPosition {
+  id: string;
+  column: string;
+}
+
+interface CustomerColumnMeta {
+  label: string; // Shown in the column chooser and header menus
+  field?: CustomField; // The field the column shows; cells of editable fields are edited in place
+  interactive?: boolean; // Cells with their own controls, which must not open the row
+}
+
+// Built-in columns, described as the field types their inline editors use
+const BASE_COLUMNS: { key: CustomerBaseField; field: CustomField; size: number }[] = [
+  { key: 'name', field: { id: 'name', name: 'Name', type: 'text' }, size: 180 },
+  { key: 'dob', field: { id: 'dob', name: 'Date of Birth', type: 'date' }, size: 150 },
+  { key: 'phone', field: { id: 'phone', name: 'Phone', type: 'phone' }, size: 150 },
+  { key: 'email', field: { id: 'email', name: 'Email', type: 'email' }, size: 220 },
+  { key: 'occupation', field: { id: 'occupation', name: 'Occupation', type: 'text' }, size: 160 },
+  { key: 'location', field: { id: 'location', name: 'Location', type: 'text' }, size: 160 },
+];
+
+// The checkbox and action columns stay at the edges; they cannot be hidden or moved
+const FIXED_COLUMNS = ['select', 'actions'];
+
+// Every column sorts with the comparator of custom field values; empty values are
+// `undefined` and stay at the bottom in both directions
+const compareValues: SortingFn<Customer> = (a, b, columnId) =>
+  compareCustomFieldValues(a.getValue<CustomFieldValue>(columnId), b.getValue<CustomFieldValue>(columnId));
+
+const getMeta = (column: Column<Customer>) => column.columnDef.meta as CustomerColumnMeta;
+
+// The sort direction of a header; `numbered` shows its place when several columns sort
+function SortIcon({ column, numbered }: { column: Column<Customer>; numbered: boolean }) {
+  const direction = column.getIsSorted();
+  if (!direction) {
+    return column.getCanSort() ? <ChevronsUpDown className="ml-1 h-3.5 w-3.5 shrink-0 opacity-0 group-hover/head:opacity-50" /> : null;
+  }
+  return (
+    <span className="ml-1 flex shrink-0 items-center">
+      {direction === 'asc' ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      {numbered && <span className="text-[10px] text-muted-foreground">{column.getSortIndex() + 1}</span>}
+    </span>
+  );
+}
 
 interface CustomerListProps {
   customers: Customer[];
+  customFields?: CustomField[];
+  customerNames?: Map<string, string>; // Names of all customers, for relation fields
   onEdit: (customer: Customer) => void;
   onDelete: (id: string) => void;
+  onOpenCustomer?: (id: string) => void; // Follow a relation link
+  onView?: (customer: Customer) => void; // Open the detail page when a row is clicked
+  selectedIds?: string[]; // Ids of the selected customers; rows get checkboxes with onSelectionChange
+  onSelectionChange?: (ids: string[]) => void;
+  onUpdateCustomer?: (customer: Customer) => void; // Makes cells editable; receives the customer with the edited value
+  manualSorting?: boolean; // The customers come sorted by the server; formula columns sort the page, others it cannot sort by are not sortable
+  sorting?: SortingState; // Sort kept elsewhere, such as in the address; changes are still saved in the layout
+  onSortingChange?: (sorting: SortingState) => void;
 }
 
-export function CustomerList({ customers, onEdit, onDelete }: CustomerListProps) {
-  const [sortField, setSortField] = useState<SortField>('name');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+export function CustomerList({
+  customers,
+  customFields = [],
+  customerNames,
+  onEdit,
+  onDelete,
+  onOpenCustomer,
+  onView,
+  selectedIds = [],
+  onSelectionChange,
+  onUpdateCustomer,
+  manualSorting = false,
+  sorting,
+  onSortingChange
+}: CustomerListProps) {
+  // Columns, widths, order, pinning and sort of the current user
+  const [layout, setLayout] = usePreference<CustomerTableLayout>(CUSTOMER_TABLE_LAYOUT_KEY, parseCustomerTableLayout);
+  // Row toggled last; shift-clicking another row selects everything in between
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  // Cell reached by the arrow keys, and the cell being edited in place
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
+  // Column whose header is being dragged to another place
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const tableRef = useRef<HTMLDivElement>(null);
+  const focusPending = useRef(false);
+
+  const { visibleFields, fieldValues } = useMemo(() => {
+    // Custom fields shown for every customer, keyed by customer id; the others are hidden
+    // by their show-when conditions
+    const visibleFields = new Map<string, Set<string>>();
+    // Stored and computed custom field values of every customer, keyed by customer id.
+    // Fields hidden by their show-when conditions are left out.
+    const fieldValues = new Map(
+      customers.map(customer => {
+        const values = getCustomFieldValues(customer, customFields);
+        const visibleFieldIds = getVisibleFieldIds(customFields, values);
+        visibleFields.set(customer.id, visibleFieldIds);
+        return [customer.id, new Map([...values].filter(([id]) => visibleFieldIds.has(id)))];
+      })
+    );
+    return { visibleFields, fieldValues };
+  }, [customers, customFields]);
+
+  // Built-in columns, tags and every custom field, including formula fields
+  const dataColumns = useMemo<ColumnDef<Customer>[]>(() => {
+    const orderedFields = groupCustomFieldsBySection(customFields).flatMap(section => section.fields);
+
+    // Options sort by their label and relations by the linked names, not their stored keys
+    const toSortValue = (field: CustomField, value: CustomFieldValue | undefined) => {
+      if (isEmptyCustomFieldValue(value)) return undefined;
+      if (field.type === 'relation') return formatCustomerLinks(value, customerNames || new Map()) || undefined;
+      return fieldTypeHasOptions(field.type) ? formatCustomFieldValue(field.type, value, field.options) : value;
+    };
+
+    return [
+      ...BASE_COLUMNS.map(({ key, field, size }): ColumnDef<Customer> => ({
+        id: key,
+        accessorFn: (customer) => isEmptyCustomFieldValue(customer[key]) ? undefined : customer[key],
+        header: field.name,
+        cell: ({ row }) => key === 'dob'
+          ? (row.original.dob ? format(row.original.dob, 'PP') : 'N/A')
+          : row.original[key],
+        size,
+        meta: { label: field.name, field },
+      })),
+      {
+        id: 'tags',
+        accessorFn: (customer) => customer.tags?.length ? customer.tags.map(tag => tag.name).join(', ') : undefined,
+        header: 'Tags',
+        cell: ({ row }) => <TagList tags={row.original.tags} />,
+        size: 200,
+        meta: { label: 'Tags' },
+      },
+      ...orderedFields.map((field): ColumnDef<Customer> => ({
+        id: `custom:${field.id}`,
+        accessorFn: (customer) => toSortValue(field, fieldValues.get(customer.id)?.get(field.id)),
+        header: field.name,
+        cell: ({ row }) => (
+          <CustomFieldValueDisplay
+            type={field.type}
+            value={fieldValues.get(row.original.id)?.get(field.id)}
+            options={field.options}
+            customerNames={customerNames}
+            onOpenCustomer={onOpenCustomer}
+          />
+        ),
+        size: 180,
+        meta: { label: field.name, field },
+      })),
+    ];
+  }, [customFields, customerNames, fieldValues, onOpenCustomer]);
+
+  const selectable = !!onSelectionChange;
+  const hasOpenButton = !!(onUpdateCustomer && onView);
+  const columns = useMemo<ColumnDef<Customer>[]>(() => [
+    ...(selectable ? [{
+      id: 'select',
+      size: 44,
+      enableResizing: false,
+      enableSorting: false,
+      enableHiding: false,
+      meta: { label: 'Select', interactive: true },
+    }] : []),
+    ...dataColumns.map(column => ({
+      ...column,
+      sortingFn: compareValues,
+      sortUndefined: 'last' as const,
+      enableSorting: !manualSorting || canSortOnServer(column.id!, customFields) || sortsOnPageOnly(column.id!, customFields),
+    })),
+    {
+      id: 'actions',
+      size: hasOpenButton ? 130 : 100,
+      enableResizing: false,
+      enableSorting: false,
+      enableHiding: false,
+      meta: { label: 'Actions', interactive: true },
+    },
+  ], [dataColumns, selectable, hasOpenButton, manualSorting, customFields]);
+
+  // The checkbox column comes first and the actions last, whatever the saved order says;
+  // columns added since the layout was saved keep their default place before the actions
+  const columnIds = columns.map(column => column.id!);
+  const savedOrder = layout.columnOrder.filter(id => columnIds.includes(id) && !FIXED_COLUMNS.includes(id));
+  const columnOrder: ColumnOrderState = [
+    'select',
+    ...savedOrder,
+    ...columnIds.filter(id => !savedOrder.includes(id) && !FIXED_COLUMNS.includes(id)),
+    'actions',
+  ];
+  const columnPinning: ColumnPinningState = {
+    left: ['select', ...(layout.columnPinning.left || []).filter(id => !FIXED_COLUMNS.includes(id))],
+    right: [...(layout.columnPinning.right || []).filter(id => !FIXED_COLUMNS.includes(id)), 'actions'],
+  };
+
+  // Fields deleted since the sort was saved no longer sort
+  const tableSorting = (sorting ?? layout.sorting).filter(sort => columnIds.includes(sort.id) &&
+    (!manualSorting || canSortOnServer(sort.id, customFields) || sortsOnPageOnly(sort.id, customFields)));
+  // The server leaves formula columns out of its sort, so a sort using one is redone here on
+  // the rows of the page, which already come in the server's order for the other columns
+  const sortingOnPage = manualSorting && tableSorting.some(sort => sortsOnPageOnly(sort.id, customFields));
 
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+  const updateLayout = <K extends keyof CustomerTableLayout>(key: K) => (updater: Updater<CustomerTableLayout[K]>) => {
+    setLayout({ ...layout, [key]: functionalUpdate(updater, layout[key]) });
+  };
+
+  const table = useReactTable({
+    data: customers,
+    columns,
+    getRowId: (customer) => customer.id.toString(),
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    enableMultiSort: true, // Shift-click a header to add it to the sort
+    manualSorting: manualSorting && !sortingOnPage,
+    columnResizeMode: 'onChange',
+    state: {
+      sorting: tableSorting,
+      columnVisibility: layout.columnVisibility,
+      columnSizing: layout.columnSizing,
+      columnOrder,
+      columnPinning,
+    },
+    onSortingChange: (updater) => {
+      const next = functionalUpdate(updater, tableSorting);
+      setLayout({ ...layout, sorting: next });
+      onSortingChange?.(next);
+    },
+    onColumnVisibilityChange: updateLayout('columnVisibility'),
+    onColumnSizingChange: updateLayout('columnSizing'),
+    onColumnOrderChange: (updater) => setLayout({
+      ...layout,
+      columnOrder: functionalUpdate(updater, columnOrder).filter(id => !FIXED_COLUMNS.includes(id)),
+    }),
+    onColumnPinningChange: (updater) => {
+      const pinning = functionalUpdate(updater, columnPinning);
+      setLayout({
+        ...layout,
+        columnPinning: {
+          left: (pinning.left || []).filter(id => !FIXED_COLUMNS.includes(id)),
+          right: (pinning.right || []).filter(id => !FIXED_COLUMNS.includes(id)),
+        },
+      });
+    },
+  });
+
+  const rows = table.getRowModel().rows;
+  // Only the rows in and near the window are rendered, so long lists stay fast
+  const virtual = useVirtualRows<HTMLTableSectionElement>({
+    count: rows.length,
+    estimateSize: 53,
+    getKey: (index) => rows[index].id,
+  });
+  const sortedIds = rows.map(row => row.id);
+  const selectedSet = new Set(selectedIds);
+  const selectedCount = sortedIds.filter(id => selectedSet.has(id)).length;
+  // Editable columns in display order; formula values are computed and cannot be edited
+  const editableColumns = table.getVisibleLeafColumns()
+    .filter(column => {
+      const field = getMeta(column).field;
+      return field && !isComputedFieldType(field.type);
+    })
+    .map(column => column.id);
+
+  // Formula values are computed, and fields hidden by their conditions stay hidden
+  const isCellEditable = (customer: Customer, columnId: string) => {
+    const field = getMeta(table.getColumn(columnId)!).field;
+    return !!onUpdateCustomer && !!field && !isComputedFieldType(field.type) &&
+      (!columnId.startsWith('custom:') || !!visibleFields.get(customer.id)?.has(field.id));
+  };
+
+  // Move a column before another one, or one step along the unpinned columns
+  const moveColumn = (id: string, target: string | -1 | 1) => {
+    const order = table.getState().columnOrder.filter(entry => entry !== id);
+    let index: number;
+    if (typeof target === 'string') {
+      index = order.indexOf(target);
     } else {
-      setSortField(field);
-      setSortDirection('asc');
+      // Step over hidden and pinned columns to the next one that is shown between them
+      const center = table.getCenterLeafColumns().map(column => column.id);
+      const neighbour = center[center.indexOf(id) + target];
+      if (!neighbour) return;
+      index = order.indexOf(neighbour) + (target === 1 ? 1 : 0);
     }
+    if (index < 0) return;
+    table.setColumnOrder([...order.slice(0, index), id, ...order.slice(index)]);
+  };
+
+  const handleToggleRow = (id: string, range: boolean) => {
+    onSelectionChange?.(toggleSelection(selectedIds, sortedIds, id, selectionAnchor, range));
+    setSelectionAnchor(id);
   };
 
-  const sortedCustomers = [...customers].sort((a, b) => {
-    const direction = sortDirection === 'asc' ? 1 : -1;
-    
-    switch (sortField) {
-      case 'name':
-        return a.name.localeCompare(b.name) * direction;
-      case 'email':
-        return a.email.localeCompare(b.email) * direction;
-      case 'phone':
-        return a.phone.localeCompare(b.phone) * direction;
-      case 'occupation':
-        return a.occupation.localeCompare(b.occupation) * direction;
-      case 'location':
-        return a.location.localeCompare(b.location) * direction;
-      case 'dob':
-        if (!a.dob) return direction;
-        if (!b.dob) return -direction;
-        return (a.dob.getTime() - b.dob.getTime()) * direction;
-      default:
-        return 0;
+  // The header checkbox selects or clears every listed customer
+  const handleToggleAll = () => {
+    const rowIds = new Set(sortedIds);
+    onSelectionChange?.(
+      selectedCount === sortedIds.length
+        ? selectedIds.filter(id => !rowIds.has(id))
+        : [...selectedIds, ...sortedIds.filter(id => !selectedSet.has(id))]
+    );
+  };
+
+  const findCell = (cell: CellPosition) =>
+    tableRef.current?.querySelector<HTMLElement>(`[data-cell="${cell.id}:${cell.column}"]`) || null;
+
+  // Give the active cell the keyboard focus once it is rendered, e.g. after editing or
+  // after scrolling to a row that was outside the window
+  useEffect(() => {
+    const element = focusPending.current && activeCell && !editingCell ? findCell(activeCell) : null;
+    if (element) {
+      focusPending.current = false;
+      element.focus();
     }
   });
 
-  const SortIcon = ({ field }: { field: SortField }) => {
-    if (sortField !== field) return null;
-    return sortDirection === 'asc' ? (
-      <ChevronUp className="ml-1 h-4 w-4" />
-    ) : (
-      <ChevronDown className="ml-1 h-4 w-4" />
+  const focusCell = (cell: CellPosition) => {
+    focusPending.current = true;
+    setActiveCell(cell);
+  };
+
+  // Move to the nearest editable cell in a direction; cells of hidden fields are skipped
+  const moveFrom = (cell: CellPosition, rowStep: number, columnStep: number) => {
+    let row = sortedIds.indexOf(cell.id);
+    let column = editableColumns.indexOf(cell.column);
+    for (;;) {
+      row += rowStep;
+      column += columnStep;
+      if (row < 0 || row >= sortedIds.length || column < 0 || column >= editableColumns.length) return;
+      const next = { id: sortedIds[row], column: editableColumns[column] };
+      if (isCellEditable(rows[row].original, next.column)) {
+        virtual.scrollToIndex(row);
+        focusCell(next);
+        return;
+      }
+    }
+  };
+
+  const handleCellKeyDown = (event: React.KeyboardEvent, cell: CellPosition) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1],
+    };
+    if (event.key in steps) {
+      event.preventDefault();
+      moveFrom(cell, ...steps[event.key]);
+    } else if (event.key === 'Enter' || event.key === 'F2') {
+      event.preventDefault();
+      setEditingCell(cell);
+    }
+  };
+
+  const getCellValue = (customer: Customer, column: string): CustomFieldValue | undefined => {
+    if (column.startsWith('custom:')) {
+      return fieldValues.get(customer.id)?.get(column.slice('custom:'.length));
+    }
+    if (column === 'dob') {
+      return customer.dob ? customer.dob.toISOString() : null;
+    }
+    return customer[column as CustomerBaseField];
+  };
+
+  // The same rules as the customer form
+  const validateCell = (column: string, field: CustomField, value: CustomFieldValue): string | null => {
+    if (column.startsWith('custom:')) {
+      return validateCustomFieldValue(field, value);
+    }
+    if (column === 'dob') {
+      return validateCustomerBaseField('dob', value ? new Date(value as string) : null);
+    }
+    return validateCustomerBaseField(column as CustomerBaseField, value ?? '');
+  };
+
+  const handleSaveCell = (customer: Customer, cell: CellPosition, field: CustomField, value: CustomFieldValue, move?: CellEditorMove) => {
+    setEditingCell(null);
+    focusCell(cell);
+    if (move) {
+      moveFrom(cell, move === 'down' ? 1 : 0, move === 'next' ? 1 : move === 'previous' ? -1 : 0);
+    }
+
+    if (JSON.stringify(value ?? null) === JSON.stringify(getCellValue(customer, cell.column) ?? null)) return;
+
+    if (cell.column.startsWith('custom:')) {
+      const otherFields = customer.customFields.filter(entry => entry.id?.toString() !== field.id.toString());
+      onUpdateCustomer?.({
+        ...customer,
+        customFields: isEmptyCustomFieldValue(value)
+          ? otherFields
+          : [...otherFields, { id: field.id, name: field.name, type: field.type, value }],
+      });
+    } else if (cell.column === 'dob') {
+      onUpdateCustomer?.({ ...customer, dob: value ? new Date(value as string) : null });
+    } else {
+      onUpdateCustomer?.({ ...customer, [cell.column]: typeof value === 'string' ? value.trim() : '' });
+    }
+  };
+
+  // Width of a column, and where it sticks while the table scrolls sideways when pinned
+  const getColumnStyle = (column: Column<Customer>): React.CSSProperties => {
+    const pinned = column.getIsPinned();
+    return {
+      width: column.getSize(),
+      minWidth: column.getSize(),
+      maxWidth: column.getSize(),
+      position: pinned ? 'sticky' : undefined,
+      left: pinned === 'left' ? column.getStart('left') : undefined,
+      right: pinned === 'right' ? column.getAfter('right') : undefined,
+      zIndex: pinned ? 1 : undefined,
+    };
+  };
+
+  const pinnedClassName = (column: Column<Customer>) =>
+    column.getIsPinned() ? 'bg-background group-data-[state=selected]:bg-muted' : undefined;
+
+  const renderHead = (header: Header<Customer, unknown>) => {
+    const { column } = header;
+
+    if (column.id === 'select') {
+      return (
+        <TableHead key={header.id} style={getColumnStyle(column)} className={pinnedClassName(column)}>
+          <Checkbox
+            checked={selectedCount > 0 && selectedCount === sortedIds.length ? true : selectedCount > 0 ? 'indeterminate' : false}
+            onCheckedChange={handleToggleAll}
+            disabled={sortedIds.length === 0}
+            aria-label="Select all"
+          />
+        </TableHead>
+      );
+    }
+    if (column.id === 'actions') {
+      return (
+        <TableHead key={header.id} style={getColumnStyle(column)} className={pinnedClassName(column)}>
+          Actions
+        </TableHead>
+      );
+    }
+
+    const pinned = column.getIsPinned();
+    const pageOnly = manualSorting && sortsOnPageOnly(column.id, customFields);
+    return (
+      <TableHead
+        key={header.id}
+        style={getColumnStyle(column)}
+        className={cn(
+          'group/head relative whitespace-nowrap',
+          pinnedClassName(column),
+          draggedColumn && draggedColumn !== column.id && 'hover:bg-primary/10'
+        )}
+        // Drag a header onto another one to move the column there
+        draggable={!pinned && !header.column.getIsResizing()}
+        onDragStart={(event) => {
+          event.dataTransfer.effectAllowed = 'move';
+          setDraggedColumn(column.id);
+        }}
+        onDragOver={(event) => {
+          if (draggedColumn && draggedColumn !== column.id && !pinned) event.preventDefault();
+        }}
+        onDrop={(event) => {
+          event.preventDefault();
+          if (draggedColumn) moveColumn(draggedColumn, column.id);
+          setDraggedColumn(null);
+        }}
+        onDragEnd={() => setDraggedColumn(null)}
+      >
+        <div className="flex items-center">
+          <button
+            type="button"
+            className="flex min-w-0 flex-1 items-center text-left"
+            onClick={column.getToggleSortingHandler()}
+            title={column.getCanSort()
+              ? `${pageOnly ? 'Sort the customers on this page only' : 'Sort'}; shift-click to sort by several columns`
+              : undefined}
+          >
+            <span className="truncate">{getMeta(column).label}</span>
+            <SortIcon column={column} numbered={table.getState().sorting.length > 1} />
+            {pageOnly && column.getIsSorted() && <span className="ml-1 shrink-0 text-[10px] text-muted-foreground">this page</span>}
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0 opacity-0 group-hover/head:opacity-100 data-[state=open]:opacity-100">
+                <ChevronDown className="h-3.5 w-3.5" />
+                <span className="sr-only">Column options</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {column.getCanSort() && (
+                <>
+                  <DropdownMenuItem onSelect={() => column.toggleSorting(false)}>
+                    <ChevronUp className="mr-2 h-4 w-4" />
+                    Sort ascending
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => column.toggleSorting(true)}>
+                    <ChevronDown className="mr-2 h-4 w-4" />
+                    Sort descending
+                  </DropdownMenuItem>
+                  {pageOnly && (
+                    <p className="px-2 py-1 text-xs text-muted-foreground">Formula values sort the customers on this page only</p>
+                  )}
+                  <DropdownMenuSeparator />
+                </>
+              )}
+              {pinned ? (
+                <DropdownMenuItem onSelect={() => column.pin(false)}>
+                  <PinOff className="mr-2 h-4 w-4" />
+                  Unpin
+                </DropdownMenuItem>
+              ) : (
+                <>
+                  <DropdownMenuItem onSelect={() => column.pin('left')}>
+                    <Pin className="mr-2 h-4 w-4" />
+                    Pin to the left
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => column.pin('right')}>
+                    <Pin className="mr-2 h-4 w-4" />
+                    Pin to the right
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => moveColumn(column.id, -1)}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Move left
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => moveColumn(column.id, 1)}>
+                    <ArrowRight className="mr-2 h-4 w-4" />
+                    Move right
+                  </DropdownMenuItem>
+                </>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => column.toggleVisibility(false)}>
+                <EyeOff className="mr-2 h-4 w-4" />
+                Hide column
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {column.getCanResize() && (
+          <div
+            onMouseDown={header.getResizeHandler()}
+            onTouchStart={header.getResizeHandler()}
+            onDoubleClick={() => column.resetSize()}
+            onClick={(event) => event.stopPropagation()}
+            className={cn(
+              'absolute right-0 top-0 h-full w-1.5 cursor-col-resize touch-none select-none hover:bg-primary/40',
+              column.getIsResizing() && 'bg-primary'
+            )}
+          />
+        )}
+      </TableHead>
+    );
+  };
+
+  const renderActions = (customer: Customer) => (
+    <div className="flex space-x-1">
+      {/* Clicking an editable cell edits it, so the detail page gets a button */}
+      {onUpdateCustomer && onView && (
+        <Button variant="ghost" size="icon" onClick={() => onView(customer)} className="h-8 w-8" title="Open">
+          <ExternalLink className="h-4 w-4" />
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" onClick={() => onEdit(customer)} className="h-8 w-8">
+        <Edit className="h-4 w-4" />
+      </Button>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {customer.name}'s record will be moved to the trash, where it can be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onDelete(customer.id)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+
+  // A cell that is edited in place when clicked, or with Enter or F2 once it has the focus
+  const renderCell = (customer: Customer, column: Column<Customer>, content: React.ReactNode) => {
+    const meta = getMeta(column);
+    const style = getColumnStyle(column);
+    const className = cn(pinnedClassName(column), column.id === 'name' && 'font-medium');
+
+    if (column.id === 'select') {
+      return (
+        // The checkbox must not open the row; shift-click selects a range
+        <TableCell key={column.id} style={style} className={className} onClick={(event) => event.stopPropagation()}>
+          <Checkbox
+            checked={selectedSet.has(customer.id.toString())}
+            onClick={(event) => handleToggleRow(customer.id.toString(), event.shiftKey)}
+            aria-label={`Select ${customer.name}`}
+          />
+        </TableCell>
+      );
+    }
+    if (meta.interactive) {
+      return (
+        // Actions and their dialogs must not open the row
+        <TableCell key={column.id} style={style} className={className} onClick={(event) => event.stopPropagation()}>
+          {renderActions(customer)}
+        </TableCell>
+      );
+    }
+
+    const field = meta.field;
+    if (!field || !isCellEditable(customer, column.id)) {
+      return <TableCell key={column.id} style={style} className={cn(className, 'truncate')}>{content}</TableCell>;
+    }
+
+    const cell = { id: customer.id.toString(), column: column.id };
+    const isEditing = editingCell?.id === cell.id && editingCell.column === column.id;
+    // Until a cell is picked, the first one takes the tab stop
+    const isActive = activeCell
+      ? activeCell.id === cell.id && activeCell.column === column.id
+      : cell.id === sortedIds[0] && column.id === editableColumns[0];
+
+    return (
+      <TableCell
+        key={column.id}
+        data-cell={`${cell.id}:${column.id}`}
+        tabIndex={isActive ? 0 : -1}
+        style={isEditing ? { ...style, maxWidth: undefined } : style}
+        className={cn(className, !isEditing && 'truncate', 'cursor-text focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary')}
+        onClick={(event) => {
+          event.stopPropagation();
+          setActiveCell(cell);
+          setEditingCell(cell);
+        }}
+        onKeyDown={(event) => handleCellKeyDown(event, cell)}
+      >
+        {isEditing ? (
+          <CustomerCellEditor
+            field={field}
+            value={getCellValue(customer, column.id)}
+            validate={(value) => validateCell(column.id, field, value)}
+            excludeCustomerId={cell.id}
+            onSave={(value, move) => handleSaveCell(customer, cell, field, value, move)}
+            onCancel={() => {
+              setEditingCell(null);
+              focusCell(cell);
+            }}
+          />
+        ) : content}
+      </TableCell>
     );
   };
 
   return (
-    <div className="w-full overflow-auto rounded-md border animate-fade-in">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead 
-              className="cursor-pointer hover:bg-muted/50"
-              onClick={() => handleSort('name')}
-            >
-              <div className="flex items-center">
-                Name
-                <SortIcon field="name" />
-              </div>
-            </TableHead>
-            <TableHead 
-              className="cursor-pointer hover:bg-muted/50"
-              onClick={() => handleSort('dob')}
-            >
-              <div className="flex items-center">
-                Date of Birth
-                <SortIcon field="dob" />
-              </div>
-            </TableHead>
-            <TableHead 
-              className="cursor-pointer hover:bg-muted/50"
-              onClick={() => handleSort('phone')}
-            >
-              <div className="flex items-center">
-                Phone
-                <SortIcon field="phone" />
-              </div>
-            </TableHead>
-            <TableHead 
-              className="cursor-pointer hover:bg-muted/50"
-              onClick={() => handleSort('email')}
-            >
-              <div className="flex items-center">
-                Email
-                <SortIcon field="email" />
-              </div>
-            </TableHead>
-            <TableHead 
-              className="cursor-pointer hover:bg-muted/50"
-              onClick={() => handleSort('occupation')}
-            >
-              <div className="flex items-center">
-                Occupation
-                <SortIcon field="occupation" />
-              </div>
-            </TableHead>
-            <TableHead 
-              className="cursor-pointer hover:bg-muted/50"
-              onClick={() => handleSort('location')}
-            >
-              <div className="flex items-center">
-                Location
-                <SortIcon field="location" />
-              </div>
-            </TableHead>
-            <TableHead className="w-[100px]">Actions</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {sortedCustomers.length === 0 ? (
-            <TableRow>
-              <TableCell colSpan={7} className="h-24 text-center">
-                No customers found.
-              </TableCell>
-            </TableRow>
-          ) : (
-            sortedCustomers.map((customer) => (
-              <TableRow key={customer.id} className="group animate-slide-in">
-                <TableCell className="font-medium">{customer.name}</TableCell>
-                <TableCell>{customer.dob ? format(customer.dob, 'PP') : 'N/A'}</TableCell>
-                <TableCell>{customer.phone}</TableCell>
-                <TableCell className="max-w-[200px] truncate">{customer.email}</TableCell>
-                <TableCell>{customer.occupation}</TableCell>
-                <TableCell>{customer.location}</TableCell>
-                <TableCell>
-                  <div className="flex space-x-1">
-                    <Button variant="ghost" size="icon" onClick={() => onEdit(customer)} className="h-8 w-8">
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button variant="ghost" size="icon" className="h-8 w-8">
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            This will permanently delete {customer.name}'s record and cannot be undone.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                          <AlertDialogAction onClick={() => onDelete(customer.id)}>Delete</AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
-                  </div>
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <CustomerColumnChooser
+          table={table}
+          getLabel={(column) => getMeta(column).label}
+          onReset={() => {
+            setLayout(DEFAULT_CUSTOMER_TABLE_LAYOUT);
+            onSortingChange?.(DEFAULT_CUSTOMER_TABLE_LAYOUT.sorting);
+          }}
+        />
+      </div>
+      <div ref={tableRef} className="w-full overflow-auto rounded-md border animate-fade-in">
+        <Table className="table-fixed" style={{ width: table.getTotalSize(), minWidth: '100%' }}>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map(renderHead)}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody ref={virtual.listRef}>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={table.getVisibleLeafColumns().length} className="h-24 text-center">
+                  No customers found.
                 </TableCell>
               </TableRow>
-            ))
-          )}
-        </TableBody>
-      </Table>
+            ) : (
+              <>
+                {/* Rows above and below the window are left out; spacers keep their height */}
+                {virtual.paddingTop > 0 && <tr aria-hidden style={{ height: virtual.paddingTop }} />}
+                {rows.slice(virtual.start, virtual.end).map((row) => (
+                  <TableRow
+                    key={row.id}
+                    data-virtual-key={row.id}
+                    className={cn('group', onView && 'cursor-pointer')}
+                    data-state={selectedSet.has(row.id) ? 'selected' : undefined}
+                    onClick={() => onView?.(row.original)}
+                  >
+                    {row.getVisibleCells().map((cell) =>
+                      renderCell(row.original, cell.column, flexRender(cell.column.columnDef.cell, cell.getContext()))
+                    )}
+                  </TableRow>
+                ))}
+                {virtual.paddingBottom > 0 && <tr aria-hidden style={{ height: virtual.paddingBottom }} />}
+              </>
+            )}
+          </TableBody>
+        </Table>
+      </div>
     </div>
   );
 }
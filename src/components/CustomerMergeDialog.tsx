@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ArrowLeftRight, Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { CustomFieldValueDisplay } from '@/components/CustomFieldValueDisplay';
+import { TagList } from '@/components/TagBadge';
+import { cn } from '@/lib/utils';
+import { customerService, customFieldService } from '@/services/api';
+import {
+  Customer,
+  CustomFieldOption,
+  CustomFieldType,
+  CustomFieldValue,
+  isComputedFieldType,
+  isEmptyCustomFieldValue
+} from '@/utils/data';
+import { getCustomFieldValues } from '@/utils/formula';
+
+type BaseFieldKey = 'name' | 'dob' | 'phone' | 'email' | 'occupation' | 'location';
+
+const BASE_FIELDS: { key: BaseFieldKey; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'dob', label: 'Date of birth' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'occupation', label: 'Occupation' },
+  { key: 'location', label: 'Location' },
+];
+
+interface MergeRow {
+  key: string; // Base field key, or the custom field id
+  label: string;
+  type: CustomFieldType;
+  field?: { id: string; name: string; options?: CustomFieldOption[] | null };
+  values: [CustomFieldValue | undefined, CustomFieldValue | undefined]; // Per side, in display order
+}
+
+interface CustomerMergeDialogProps {
+  customers: [Customer, Customer] | null; // The pair to merge; the dialog is open while set
+  onClose: () => void;
+  onMerged?: (customer: Customer) => void;
+}
+
+// Side-by-side merge of two customers: pick the record to keep and, per field, the value that survives
+export function CustomerMergeDialog({ customers, onClose, onMerged }: CustomerMergeDialogProps) {
+  const queryClient = useQueryClient();
+  const [keepSide, setKeepSide] = useState<0 | 1>(0);
+  // Which side's value wins, keyed by row; rows without an entry follow the kept record
+  const [choices, setChoices] = useState<Record<string, 0 | 1>>({});
+
+  const { data: customFields = [] } = useQuery({
+    queryKey: ['customFields'],
+    queryFn: () => customFieldService.getAll(),
+  });
+
+  const { data: allCustomers = [] } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => customerService.getAll(),
+  });
+
+  // Start over whenever another pair is opened
+  useEffect(() => {
+    setKeepSide(0);
+    setChoices({});
+  }, [customers]);
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ keep, source, data }: { keep: Customer; source: Customer; data: Partial<Customer> }) =>
+      customerService.merge(keep.id, source.id, data),
+    onSuccess: (merged) => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['notes'] });
+      toast.success('Customers merged successfully');
+      onClose();
+      onMerged?.(merged);
+    },
+    onError: (error) => {
+      console.error('Error merging customers:', error);
+      toast.error('Failed to merge customers');
+    }
+  });
+
+  if (!customers) {
+    return null;
+  }
+
+  const fieldValues = customers.map(customer => getCustomFieldValues(customer, customFields));
+  const rows: MergeRow[] = [
+    ...BASE_FIELDS.map(({ key, label }) => ({
+      key,
+      label,
+      type: (key === 'dob' ? 'date' : 'text') as CustomFieldType,
+      values: [customers[0][key], customers[1][key]] as MergeRow['values'],
+    })),
+    // Formula values are computed from the others, so there is nothing to pick
+    ...customFields
+      .filter(field => !isComputedFieldType(field.type))
+      .map(field => ({
+        key: field.id.toString(),
+        label: field.name,
+        type: field.type,
+        field: { id: field.id.toString(), name: field.name, options: field.options },
+        values: [fieldValues[0].get(field.id.toString()), fieldValues[1].get(field.id.toString())] as MergeRow['values'],
+      })),
+  ];
+
+  // The kept record's value wins unless it is empty and the other one is not
+  const chosenSide = (row: MergeRow): 0 | 1 => {
+    if (row.key in choices) return choices[row.key];
+    const other = keepSide === 0 ? 1 : 0;
+    return isEmptyCustomFieldValue(row.values[keepSide]) && !isEmptyCustomFieldValue(row.values[other])
+      ? other
+      : keepSide;
+  };
+
+  const keep = customers[keepSide];
+  const source = customers[keepSide === 0 ? 1 : 0];
+  const mergedIds = [keep.id.toString(), source.id.toString()];
+  const customerNames = new Map<string, string>(allCustomers.map(entry => [entry.id.toString(), entry.name]));
+
+  const handleMerge = () => {
+    const data: Partial<Customer> = { customFields: [] };
+    rows.forEach(row => {
+      let value = row.values[chosenSide(row)] ?? null;
+      if (!row.field) {
+        Object.assign(data, { [row.key]: value ?? (row.key === 'dob' ? null : '') });
+        return;
+      }
+      // Links between the two customers would point at the kept record itself
+      if (row.type === 'relation' && Array.isArray(value)) {
+        const remaining = value.filter(linked => !mergedIds.includes(linked.toString()));
+        value = remaining.length > 0 ? remaining : null;
+      }
+      data.customFields!.push({ id: row.field.id, name: row.field.name, type: row.type, value });
+    });
+    mergeMutation.mutate({ keep, source, data });
+  };
+
+  const renderValue = (row: MergeRow, side: 0 | 1) => {
+    const value = row.values[side];
+    if (!row.field) {
+      if (isEmptyCustomFieldValue(value)) return <span className="text-muted-foreground">Not set</span>;
+      return row.key === 'dob' ? format(new Date(value as Date), 'PPP') : String(value);
+    }
+    return (
+      <CustomFieldValueDisplay
+        type={row.type}
+        value={value}
+        options={row.field.options}
+        customerNames={customerNames}
+        emptyText="Not set"
+      />
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Merge customers</DialogTitle>
+          <DialogDescription>
+            Pick the record to keep and click the value that should survive for each field. The other record is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[10rem_1fr_1fr] gap-2 text-sm">
+          <div className="flex items-end">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setKeepSide(keepSide === 0 ? 1 : 0);
+                setChoices({});
+              }}
+            >
+              <ArrowLeftRight className="mr-2 h-4 w-4" />
+              Swap
+            </Button>
+          </div>
+          {customers.map((customer, side) => (
+            <button
+              key={customer.id}
+              type="button"
+              onClick={() => {
+                setKeepSide(side as 0 | 1);
+                setChoices({});
+              }}
+              className={cn(
+                'rounded-lg border p-3 text-left transition-colors',
+                keepSide === side ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+              )}
+            >
+              <p className="font-medium">{customer.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {keepSide === side ? 'Kept' : 'Merged into the kept record'} · created {format(new Date(customer.createdAt), 'PP')}
+              </p>
+            </button>
+          ))}
+
+          {rows.map((row) => (
+            <div key={row.key} className="contents">
+              <div className="py-2 text-muted-foreground">{row.label}</div>
+              {([0, 1] as const).map((side) => {
+                const selected = chosenSide(row) === side;
+                return (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setChoices({ ...choices, [row.key]: side })}
+                    className={cn(
+                      'flex items-start justify-between gap-2 rounded-md border px-3 py-2 text-left transition-colors',
+                      selected ? 'border-primary bg-primary/5' : 'border-transparent hover:bg-muted/50'
+                    )}
+                  >
+                    <span className="min-w-0 break-words">{renderValue(row, side)}</span>
+                    {selected && <Check className="h-4 w-4 shrink-0 text-primary" />}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+
+          <div className="py-2 text-muted-foreground">Tags</div>
+          <div className="col-span-2 px-3 py-2">
+            <TagList tags={[...(keep.tags || []), ...(source.tags || []).filter(tag => !keep.tags?.some(entry => entry.id === tag.id))]} />
+            <p className="mt-1 text-xs text-muted-foreground">Tags of both records are kept.</p>
+          </div>
+
+          <div className="py-2 text-muted-foreground">Related data</div>
+          <div className="col-span-2 px-3 py-2 text-xs text-muted-foreground">
+            Notes on {source.name} move to {keep.name}, and links from other customers to {source.name} point at {keep.name}.
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={mergeMutation.isPending}>
+            {mergeMutation.isPending ? 'Merging...' : `Merge into ${keep.name}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
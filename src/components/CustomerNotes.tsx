@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Pencil, Pin, PinOff, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { customerService } from '@/services/api';
+import { CustomerNote } from '@/utils/data';
+
+interface CustomerNotesProps {
+  customerId: string;
+}
+
+// Timeline of notes on a customer, newest first with pinned notes on top
+export function CustomerNotes({ customerId }: CustomerNotesProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState('');
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const { data: notes = [], isLoading } = useQuery({
+    queryKey: ['notes', customerId],
+    queryFn: () => customerService.getNotes(customerId),
+  });
+
+  const refreshNotes = () => queryClient.invalidateQueries({ queryKey: ['notes', customerId] });
+
+  const addNoteMutation = useMutation({
+    mutationFn: (body: string) => customerService.addNote(customerId, body, user),
+    onSuccess: () => {
+      refreshNotes();
+      setDraft('');
+    },
+    onError: (error) => {
+      console.error('Error adding note:', error);
+      toast.error('Failed to add note');
+    }
+  });
+
+  const updateNoteMutation = useMutation({
+    mutationFn: ({ noteId, body }: { noteId: string; body: string }) =>
+      customerService.updateNote(customerId, noteId, body, user),
+    onSuccess: () => {
+      refreshNotes();
+      setEditingNoteId(null);
+    },
+    onError: (error) => {
+      console.error('Error updating note:', error);
+      toast.error('Failed to update note');
+    }
+  });
+
+  const pinNoteMutation = useMutation({
+    mutationFn: ({ noteId, pinned }: { noteId: string; pinned: boolean }) =>
+      customerService.pinNote(customerId, noteId, pinned),
+    onSuccess: refreshNotes,
+    onError: (error) => {
+      console.error('Error pinning note:', error);
+      toast.error('Failed to pin note');
+    }
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: (noteId: string) => customerService.deleteNote(customerId, noteId, user),
+    onSuccess: () => {
+      refreshNotes();
+      toast.success('Note deleted');
+    },
+    onError: (error) => {
+      console.error('Error deleting note:', error);
+      toast.error('Failed to delete note');
+    }
+  });
+
+  const isAuthor = (note: CustomerNote) => !!user && note.authorId === user.id.toString();
+
+  const handleAddNote = () => {
+    if (draft.trim()) {
+      addNoteMutation.mutate(draft);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Textarea
+          placeholder="Write a note..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Ctrl/Cmd+Enter posts, plain Enter starts a new line
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleAddNote();
+          }}
+          rows={3}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAddNote} disabled={!draft.trim() || addNoteMutation.isPending}>
+            {addNoteMutation.isPending ? 'Adding...' : 'Add note'}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="h-6 w-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : notes.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">No notes yet.</p>
+      ) : (
+        <ol className="space-y-3">
+          {notes.map((note) => (
+            <li
+              key={note.id}
+              className={cn(
+                'rounded-lg border p-3',
+                note.pinned && 'border-amber-200 bg-amber-50/60 dark:border-amber-900 dark:bg-amber-950/20'
+              )}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-7 w-7">
+                    <AvatarFallback className="bg-primary text-xs text-primary-foreground">
+                      {note.authorName.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="text-sm leading-tight">
+                    <p className="font-medium">{note.authorName}</p>
+                    <p className="text-xs text-muted-foreground" title={format(note.createdAt, 'PPp')}>
+                      {formatDistanceToNow(note.createdAt, { addSuffix: true })}
+                      {note.editedAt && <span title={format(note.editedAt, 'PPp')}> · edited</span>}
+                      {note.pinned && <span> · pinned</span>}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title={note.pinned ? 'Unpin' : 'Pin'}
+                    onClick={() => pinNoteMutation.mutate({ noteId: note.id, pinned: !note.pinned })}
+                  >
+                    {note.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </Button>
+                  {isAuthor(note) && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Edit"
+                        onClick={() => {
+                          setEditingNoteId(note.id);
+                          setEditText(note.body);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" title="Delete">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this note?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The note will be removed from the timeline. This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteNoteMutation.mutate(note.id)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {editingNoteId === note.id ? (
+                <div className="mt-3 space-y-2">
+                  <Textarea value={editText} onChange={(e) => setEditText(e.target.value)} rows={3} autoFocus />
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditingNoteId(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => updateNoteMutation.mutate({ noteId: note.id, body: editText })}
+                      disabled={!editText.trim() || updateNoteMutation.isPending}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="mt-2 whitespace-pre-wrap break-words text-sm">{note.body}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
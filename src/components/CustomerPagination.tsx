@@ -0,0 +1,106 @@
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { CUSTOMER_PAGE_SIZES } from '@/utils/customerQuery';
+
+interface CustomerPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number; // Customers on all pages
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+// Pages shown around the current one; the others collapse into an ellipsis
+const SIBLING_PAGES = 1;
+
+// The page numbers to show, with null where pages are left out
+const getPageItems = (page: number, pageCount: number): (number | null)[] => {
+  const items: (number | null)[] = [];
+  for (let number = 1; number <= pageCount; number++) {
+    if (number === 1 || number === pageCount || Math.abs(number - page) <= SIBLING_PAGES) {
+      items.push(number);
+    } else if (items[items.length - 1] !== null) {
+      items.push(null);
+    }
+  }
+  return items;
+};
+
+// Page links and the page size under the customer list
+export function CustomerPagination({ page, pageSize, total, onPageChange, onPageSizeChange }: CustomerPaginationProps) {
+  const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  const linkTo = (target: number) => ({
+    href: '#',
+    onClick: (event: React.MouseEvent) => {
+      event.preventDefault();
+      if (target >= 1 && target <= pageCount && target !== page) {
+        onPageChange(target);
+        window.scrollTo({ top: 0 });
+      }
+    },
+  });
+  const disabledClass = (disabled: boolean) => cn(disabled && 'pointer-events-none opacity-50');
+
+  return (
+    <div className="mt-6 flex flex-col items-center justify-between gap-4 sm:flex-row">
+      <p className="text-sm text-muted-foreground">
+        {total === 0 ? 'No customers' : `${first}–${last} of ${total} customers`}
+      </p>
+
+      {pageCount > 1 && (
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious {...linkTo(page - 1)} aria-disabled={page === 1} className={disabledClass(page === 1)} />
+            </PaginationItem>
+            {getPageItems(page, pageCount).map((number, index) => (
+              <PaginationItem key={number ?? `gap-${index}`}>
+                {number === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink {...linkTo(number)} isActive={number === page}>
+                    {number}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                {...linkTo(page + 1)}
+                aria-disabled={page === pageCount}
+                className={disabledClass(page === pageCount)}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <span>Per page</span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CUSTOMER_PAGE_SIZES.map(size => (
+              <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ import {
 } from '@/components/ui/dialog';
 import { Customer, CustomField, generateExcelData } from '@/utils/data';
 import { useToast } from '@/hooks/use-toast';
-import { customFieldService } from '@/services/api';
+import { customerService, customFieldService } from '@/services/api';
 
 interface ExcelExportProps {
   isOpen: boolean;
@@ -55,9 +55,18 @@ export function ExcelExport({ isOpen, onClose, customers }: ExcelExportProps) {
     try {
       setLoading(true);
 
+      // Relation fields can link to customers outside the exported ones, so their names
+      // come from every customer that is not in the trash
+      const linkedCustomers = customFields.some(field => field.type === 'relation')
+        ? await customerService.getAll()
+        : [];
+      const customerNames = new Map<string, string>(
+        linkedCustomers.map((customer: Customer): [string, string] => [customer.id.toString(), customer.name])
+      );
+
       // Generate Excel data from customers, only including custom fields
       // Set exportBaseFields to false to exclude standard fields
-      const data = generateExcelData(customers, customFields, true, exportBaseFields);
+      const data = generateExcelData(customers, customFields, true, exportBaseFields, customerNames);
       
       if (data.length === 0) {
         toast({
@@ -1,6 +1,6 @@
 
-import { useState } from 'react';
-import { Search, UserPlus, FilePlus, Download, Menu, LogOut, LayoutGrid, List } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Search, UserPlus, FilePlus, Download, Menu, LogOut, LayoutGrid, List, Tags, Trash2, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
@@ -18,34 +18,49 @@ import {
 import { toast } from 'sonner';
 
 interface NavbarProps {
+  searchQuery: string; // The search the list shows, which views and links can change
   onSearch: (query: string) => void;
   onAddCustomer: () => void;
   onManageFields: () => void;
+  onManageTags: () => void;
+  onFindDuplicates: () => void;
+  onOpenTrash: () => void;
   onExport: () => void;
   activeTab: string;
   onTabChange: (value: string) => void;
+  viewsMenu?: React.ReactNode;
 }
 
 export function Navbar({
+  searchQuery,
   onSearch,
   onAddCustomer,
   onManageFields,
+  onManageTags,
+  onFindDuplicates,
+  onOpenTrash,
   onExport,
   activeTab,
   onTabChange,
+  viewsMenu,
 }: NavbarProps) {
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchInput, setSearchInput] = useState(searchQuery);
   const isMobile = useIsMobile();
   const { user, logout } = useAuth();
 
+  // The box follows searches set from elsewhere, such as by picking a view
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch(searchQuery);
+    onSearch(searchInput);
   };
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
-    setSearchQuery(value);
+    setSearchInput(value);
     
     // Real-time search if at least 2 characters or empty
     if (value === '' || value.length >= 2) {
@@ -102,6 +117,18 @@ export function Navbar({
             <FilePlus className="mr-2 h-4 w-4" />
             Manage Fields
           </Button>
+          <Button className="justify-start" variant="ghost" onClick={onManageTags}>
+            <Tags className="mr-2 h-4 w-4" />
+            Manage Tags
+          </Button>
+          <Button className="justify-start" variant="ghost" onClick={onFindDuplicates}>
+            <Users className="mr-2 h-4 w-4" />
+            Find Duplicates
+          </Button>
+          <Button className="justify-start" variant="ghost" onClick={onOpenTrash}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Trash
+          </Button>
           <Button className="justify-start" variant="ghost" onClick={onExport}>
             <Download className="mr-2 h-4 w-4" />
             Export Data
@@ -159,12 +186,14 @@ export function Navbar({
                 type="search"
                 placeholder="Search by name, phone, or email..."
                 className="w-full bg-background pl-8 md:w-[300px] lg:w-[400px]"
-                value={searchQuery}
+                value={searchInput}
                 onChange={handleSearchChange}
               />
             </div>
           </form>
           
+          {viewsMenu}
+
           {!isMobile && (
             <div className="flex items-center gap-2">
               <div className="flex items-center space-x-1 bg-muted/40 p-1 rounded-md">
@@ -195,6 +224,18 @@ export function Navbar({
                 <FilePlus className="mr-2 h-4 w-4" />
                 Fields
               </Button>
+              <Button variant="ghost" size="sm" onClick={onManageTags}>
+                <Tags className="mr-2 h-4 w-4" />
+                Tags
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onFindDuplicates}>
+                <Users className="mr-2 h-4 w-4" />
+                Duplicates
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onOpenTrash}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Trash
+              </Button>
               <Button variant="ghost" size="sm" onClick={onExport}>
                 <Download className="mr-2 h-4 w-4" />
                 Export
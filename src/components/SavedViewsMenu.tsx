@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Bookmark, Check, Pencil, RotateCcw, Save, Share2, Star, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/contexts/AuthContext';
+import { viewService } from '@/services/api';
+import { cn } from '@/lib/utils';
+import { CustomerViewState, MAX_VIEW_NAME_LENGTH, SavedView } from '@/utils/savedViews';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  activeView: SavedView | null;
+  modified: boolean; // The list no longer shows what the active view saved
+  currentState: CustomerViewState;
+  onApply: (view: SavedView | null) => void; // null goes back to the plain customer list
+}
+
+// The name dialog either saves the list as a new view or renames the active one
+type NameDialog = { mode: 'create' } | { mode: 'rename'; view: SavedView };
+
+// Pick, save and share named views of the customer list
+export function SavedViewsMenu({ views, activeView, modified, currentState, onApply }: SavedViewsMenuProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [deletingView, setDeletingView] = useState<SavedView | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const ownViews = views.filter(view => view.isOwner);
+  const sharedViews = views.filter(view => !view.isOwner);
+  const trimmedName = name.trim().replace(/\s+/g, ' ');
+  const nameConflict = ownViews.some(view =>
+    view.name === trimmedName && (nameDialog?.mode !== 'rename' || view.id !== nameDialog.view.id));
+
+  // Run a change and refresh the views; resolves to the change's result, or undefined when it failed
+  const applyChange = async <T,>(change: () => Promise<T>, success: string, failure: string) => {
+    try {
+      setIsSaving(true);
+      const result = await change();
+      toast.success(success);
+      return result;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error && !('response' in error) ? error.message : failure);
+      return undefined;
+    } finally {
+      setIsSaving(false);
+      queryClient.invalidateQueries({ queryKey: ['views'] });
+    }
+  };
+
+  const openNameDialog = (dialog: NameDialog) => {
+    setName(dialog.mode === 'rename' ? dialog.view.name : '');
+    setShared(false);
+    setMakeDefault(false);
+    setNameDialog(dialog);
+  };
+
+  const handleSubmitName = async () => {
+    if (!nameDialog || !trimmedName || nameConflict) return;
+
+    if (nameDialog.mode === 'rename') {
+      const { view } = nameDialog;
+      setNameDialog(null);
+      if (trimmedName === view.name) return;
+      await applyChange(
+        () => viewService.update(view.id, { name: trimmedName }, user),
+        `View renamed to "${trimmedName}"`,
+        'Failed to rename view'
+      );
+      return;
+    }
+
+    const created = await applyChange(
+      async () => {
+        const view = await viewService.create({ name: trimmedName, shared, state: currentState }, user);
+        if (makeDefault) await viewService.setDefault(view.id, user);
+        return view;
+      },
+      `View "${trimmedName}" saved`,
+      'Failed to save view'
+    );
+    if (created) {
+      setNameDialog(null);
+      onApply(created);
+    }
+  };
+
+  const handleSaveChanges = (view: SavedView) =>
+    applyChange(
+      () => viewService.update(view.id, { state: currentState }, user),
+      `View "${view.name}" updated`,
+      'Failed to update view'
+    );
+
+  const handleToggleDefault = (view: SavedView) =>
+    applyChange(
+      () => viewService.setDefault(view.isDefault ? null : view.id, user),
+      view.isDefault ? 'The customer list opens without a view' : `The customer list opens with "${view.name}"`,
+      'Failed to change the default view'
+    );
+
+  const handleToggleShared = (view: SavedView) =>
+    applyChange(
+      () => viewService.update(view.id, { shared: !view.shared }, user),
+      view.shared ? `"${view.name}" is no longer shared` : `"${view.name}" is shared with the team`,
+      'Failed to update view'
+    );
+
+  const handleDelete = async (view: SavedView) => {
+    setDeletingView(null);
+    await applyChange(() => viewService.delete(view.id, user), `View "${view.name}" deleted`, 'Failed to delete view');
+    if (activeView?.id === view.id) onApply(null);
+  };
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onClick={() => onApply(view)} className="gap-2">
+      <Check className={cn('h-4 w-4', activeView?.id !== view.id && 'invisible')} />
+      <span className="flex-1 truncate">
+        {view.name}
+        {!view.isOwner && <span className="ml-1 text-xs text-muted-foreground">by {view.ownerName}</span>}
+      </span>
+      {view.shared && view.isOwner && <Share2 className="h-3 w-3 text-muted-foreground" />}
+      {view.isDefault && <Star className="h-3 w-3 fill-current text-amber-500" />}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="flex max-w-[12rem] items-center">
+            <Bookmark className="mr-1 h-4 w-4 shrink-0" />
+            <span className="truncate">{activeView ? activeView.name : 'Views'}</span>
+            {activeView && modified && <span className="ml-1 text-muted-foreground">*</span>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>My views</DropdownMenuLabel>
+          {ownViews.length === 0 ? (
+            <p className="px-2 pb-2 text-sm text-muted-foreground">Save the current filters, sort and columns as a view.</p>
+          ) : (
+            ownViews.map(renderViewItem)
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Shared with the team</DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          {activeView?.isOwner && modified && (
+            <DropdownMenuItem onClick={() => handleSaveChanges(activeView)} disabled={isSaving}>
+              <Save className="mr-2 h-4 w-4" />
+              Save changes to "{activeView.name}"
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => openNameDialog({ mode: 'create' })} disabled={isSaving}>
+            <Bookmark className="mr-2 h-4 w-4" />
+            Save as new view…
+          </DropdownMenuItem>
+          {activeView && (
+            <DropdownMenuItem onClick={() => handleToggleDefault(activeView)} disabled={isSaving}>
+              <Star className="mr-2 h-4 w-4" />
+              {activeView.isDefault ? 'Stop opening with this view' : 'Open with this view'}
+            </DropdownMenuItem>
+          )}
+          {activeView?.isOwner && (
+            <>
+              <DropdownMenuItem onClick={() => handleToggleShared(activeView)} disabled={isSaving}>
+                <Share2 className="mr-2 h-4 w-4" />
+                {activeView.shared ? 'Stop sharing' : 'Share with the team'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openNameDialog({ mode: 'rename', view: activeView })} disabled={isSaving}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename…
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setDeletingView(activeView)}
+                disabled={isSaving}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete view
+              </DropdownMenuItem>
+            </>
+          )}
+          {activeView && (
+            <DropdownMenuItem onClick={() => onApply(null)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Show all customers
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.mode === 'rename' ? 'Rename view' : 'Save view'}</DialogTitle>
+            {nameDialog?.mode === 'create' && (
+              <DialogDescription>
+                Saves the search, filters, tags, sort, columns and list or grid mode.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Input
+                placeholder="View name"
+                value={name}
+                maxLength={MAX_VIEW_NAME_LENGTH}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmitName()}
+                autoFocus
+              />
+              {nameConflict && (
+                <p className="mt-1 text-sm text-destructive">You already have a view named "{trimmedName}".</p>
+              )}
+            </div>
+            {nameDialog?.mode === 'create' && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Checkbox id="view-shared" checked={shared} onCheckedChange={(checked) => setShared(checked === true)} />
+                  <Label htmlFor="view-shared">Share with the team</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="view-default"
+                    checked={makeDefault}
+                    onCheckedChange={(checked) => setMakeDefault(checked === true)}
+                  />
+                  <Label htmlFor="view-default">Open the customer list with this view</Label>
+                </div>
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>Cancel</Button>
+            <Button onClick={handleSubmitName} disabled={isSaving || !trimmedName || nameConflict}>
+              {nameDialog?.mode === 'rename' ? 'Rename' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deletingView !== null} onOpenChange={(open) => !open && setDeletingView(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deletingView?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingView?.shared
+                ? 'The view is shared, so it disappears for the whole team. Customers are not affected.'
+                : 'Customers are not affected.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingView && handleDelete(deletingView)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
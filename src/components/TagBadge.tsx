@@ -0,0 +1,55 @@
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { CustomerTag, customFieldOptionColorClasses } from '@/utils/data';
+
+interface TagBadgeProps {
+  tag: Pick<CustomerTag, 'name' | 'color'>;
+  onRemove?: () => void; // Shows a remove button inside the chip
+  className?: string;
+}
+
+// A tag rendered as a chip in its color; tags share the option color palette
+export function TagBadge({ tag, onRemove, className }: TagBadgeProps) {
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        'text-xs font-medium',
+        tag.color && customFieldOptionColorClasses[tag.color].badge,
+        onRemove && 'gap-1 pr-1',
+        className
+      )}
+    >
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+          onClick={onRemove}
+          aria-label={`Remove ${tag.name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </Badge>
+  );
+}
+
+interface TagListProps {
+  tags?: CustomerTag[];
+  className?: string;
+}
+
+// The tags of a customer as a wrapping row of chips; renders nothing without tags
+export function TagList({ tags = [], className }: TagListProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {tags.map((tag) => (
+        <TagBadge key={tag.id} tag={tag} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { Check, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CustomFieldOptionSwatch } from '@/components/CustomFieldOptionBadge';
+import { cn } from '@/lib/utils';
+import { CustomerTag } from '@/utils/data';
+
+interface TagFilterProps {
+  tags: CustomerTag[];
+  selected: string[]; // Ids of the tags customers must carry
+  onChange: (ids: string[]) => void;
+}
+
+// Narrow the customer list down to customers carrying all of the selected tags
+export function TagFilter({ tags, selected, onChange }: TagFilterProps) {
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter(entry => entry !== id) : [...selected, id]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={selected.length > 0 ? 'default' : 'outline'} size="sm" className="flex items-center gap-1">
+          <Tag className="h-4 w-4" />
+          <span>{selected.length > 0 ? `Tags (${selected.length})` : 'Tags'}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Filter tags..." />
+          <CommandList>
+            <CommandEmpty>No tags found.</CommandEmpty>
+            <CommandGroup>
+              {tags.map((tag) => (
+                <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                  <Check className={cn('mr-2 h-4 w-4', selected.includes(tag.id) ? 'opacity-100' : 'opacity-0')} />
+                  <CustomFieldOptionSwatch color={tag.color} className="mr-2" />
+                  <span className="flex-1 truncate">{tag.name}</span>
+                  {tag.customers !== undefined && (
+                    <span className="ml-2 text-xs text-muted-foreground">{tag.customers}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {selected.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup>
+                  <CommandItem onSelect={() => onChange([])} className="justify-center text-center">
+                    Clear filter
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Plus, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CustomFieldOptionSwatch } from '@/components/CustomFieldOptionBadge';
+import { TagBadge } from '@/components/TagBadge';
+import { customerService } from '@/services/api';
+import { MAX_TAG_LENGTH, findTagByName, isSameTagName, normalizeTagName } from '@/utils/tags';
+
+interface TagInputProps {
+  value: string[]; // Names of the customer's tags
+  onChange: (names: string[]) => void;
+}
+
+// Chips for the customer's tags plus a picker that suggests existing tags and creates new ones by name
+export function TagInput({ value, onChange }: TagInputProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['tags'],
+    queryFn: () => customerService.getTags(),
+  });
+
+  const name = normalizeTagName(query);
+  const suggestions = tags.filter(tag => !value.some(selected => isSameTagName(selected, tag.name)));
+  // Offer to create the typed name unless a tag by that name already exists
+  const canCreate = !!name && !findTagByName(tags, name) && !value.some(selected => isSameTagName(selected, name));
+
+  const handleAdd = (tagName: string) => {
+    onChange([...value, tagName]);
+    setQuery('');
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tagName) => (
+            <TagBadge
+              key={tagName}
+              // New tags have no color until one is picked on the tags screen
+              tag={findTagByName(tags, tagName) ?? { name: tagName }}
+              onRemove={() => onChange(value.filter(selected => selected !== tagName))}
+            />
+          ))}
+        </div>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="font-normal">
+            <Tag className="mr-2 h-4 w-4" />
+            Add tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Find or create a tag..."
+              value={query}
+              onValueChange={setQuery}
+              maxLength={MAX_TAG_LENGTH}
+            />
+            <CommandList>
+              {!canCreate && <CommandEmpty>No more tags to add.</CommandEmpty>}
+              {suggestions.length > 0 && (
+                <CommandGroup>
+                  {suggestions.map((tag) => (
+                    <CommandItem key={tag.id} value={tag.name} onSelect={() => handleAdd(tag.name)}>
+                      <CustomFieldOptionSwatch color={tag.color} className="mr-2" />
+                      {tag.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {canCreate && (
+                <CommandGroup>
+                  {/* The typed text is part of the value so cmdk never filters this item out */}
+                  <CommandItem value={`create ${query}`} onSelect={() => handleAdd(name)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create "{name}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, GitMerge, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomFieldOptionSwatch } from '@/components/CustomFieldOptionBadge';
+import { TagBadge } from '@/components/TagBadge';
+import { customerService } from '@/services/api';
+import { CustomFieldOptionColor, CustomerTag, customFieldOptionColors } from '@/utils/data';
+import { MAX_TAG_LENGTH, findTagByName, normalizeTagName } from '@/utils/tags';
+import { toast } from 'sonner';
+
+const NO_COLOR = 'none';
+
+interface TagColorSelectProps {
+  value?: CustomFieldOptionColor | null;
+  onChange: (color: CustomFieldOptionColor | null) => void;
+  disabled?: boolean;
+}
+
+function TagColorSelect({ value, onChange, disabled }: TagColorSelectProps) {
+  return (
+    <Select
+      value={value || NO_COLOR}
+      onValueChange={(color) => onChange(color === NO_COLOR ? null : color as CustomFieldOptionColor)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-8 w-[120px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_COLOR}>
+          <span className="flex items-center gap-2">
+            <CustomFieldOptionSwatch />
+            No color
+          </span>
+        </SelectItem>
+        {customFieldOptionColors.map((color) => (
+          <SelectItem key={color} value={color}>
+            <span className="flex items-center gap-2 capitalize">
+              <CustomFieldOptionSwatch color={color} />
+              {color}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface TagsManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Admin screen for tags: create, rename, recolor, merge and delete
+export function TagsManager({ isOpen, onClose }: TagsManagerProps) {
+  const queryClient = useQueryClient();
+  const [isSaving, setIsSaving] = useState(false);
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState<CustomFieldOptionColor | null>(null);
+  const [renamingTagId, setRenamingTagId] = useState<string | null>(null);
+  const [tagName, setTagName] = useState('');
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const { data: tags = [], isLoading } = useQuery({
+    queryKey: ['tags'],
+    queryFn: () => customerService.getTags(),
+    enabled: isOpen,
+  });
+
+  // Another tag already using a name; renames to it must be merges instead
+  const findOtherTag = (name: string, id?: string) => {
+    const existing = findTagByName(tags, name);
+    return existing && existing.id !== id ? existing : undefined;
+  };
+
+  // Run a change and refresh the tags and the customers showing them
+  const applyChange = async (change: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      setIsSaving(true);
+      await change();
+      toast.success(success);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(failure);
+    } finally {
+      setIsSaving(false);
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+    }
+  };
+
+  const handleCreateTag = async () => {
+    const name = normalizeTagName(newTagName);
+    if (!name || findOtherTag(name)) return;
+
+    await applyChange(
+      () => customerService.createTag({ name, color: newTagColor }),
+      `Tag "${name}" created`,
+      'Failed to create tag'
+    );
+    setNewTagName('');
+    setNewTagColor(null);
+  };
+
+  const handleRenameTag = async (tag: CustomerTag) => {
+    const name = normalizeTagName(tagName);
+    if (!name || findOtherTag(name, tag.id)) return;
+    setRenamingTagId(null);
+    if (name === tag.name) return;
+
+    await applyChange(
+      () => customerService.updateTag(tag.id, { name, color: tag.color || null }),
+      `Tag renamed to "${name}"`,
+      'Failed to rename tag'
+    );
+  };
+
+  const handleRecolorTag = (tag: CustomerTag, color: CustomFieldOptionColor | null) =>
+    applyChange(
+      () => customerService.updateTag(tag.id, { name: tag.name, color }),
+      `Tag "${tag.name}" updated`,
+      'Failed to update tag'
+    );
+
+  const handleMergeTag = (tag: CustomerTag) => {
+    const target = tags.find(entry => entry.id === mergeTargetId);
+    if (!target) return;
+
+    return applyChange(
+      () => customerService.mergeTags(tag.id, target.id),
+      `"${tag.name}" merged into "${target.name}"`,
+      'Failed to merge tags'
+    );
+  };
+
+  const handleDeleteTag = (tag: CustomerTag) =>
+    applyChange(
+      () => customerService.deleteTag(tag.id),
+      `Tag "${tag.name}" deleted`,
+      'Failed to delete tag'
+    );
+
+  const newTagConflict = findOtherTag(newTagName);
+  const renameConflict = renamingTagId ? findOtherTag(tagName, renamingTagId) : undefined;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl animate-fade-in">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">Manage Tags</DialogTitle>
+          <DialogDescription>
+            Rename, recolor, merge or delete the tags customers carry. Changes apply to every customer with the tag.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="my-4 space-y-4">
+          <div className="flex items-start gap-2">
+            <div className="flex-1">
+              <Input
+                placeholder="New tag name"
+                value={newTagName}
+                maxLength={MAX_TAG_LENGTH}
+                onChange={(e) => setNewTagName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateTag()}
+              />
+              {newTagConflict && (
+                <p className="mt-1 text-sm text-destructive">A tag named "{newTagConflict.name}" already exists.</p>
+              )}
+            </div>
+            <TagColorSelect value={newTagColor} onChange={setNewTagColor} disabled={isSaving} />
+            <Button onClick={handleCreateTag} disabled={isSaving || !normalizeTagName(newTagName) || !!newTagConflict}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tag
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="h-8 w-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tag</TableHead>
+                    <TableHead>Color</TableHead>
+                    <TableHead>Customers</TableHead>
+                    <TableHead className="w-[120px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tags.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center">
+                        No tags yet. Tags are created here or while editing a customer.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    tags.map((tag) => (
+                      <TableRow key={tag.id}>
+                        <TableCell>
+                          {renamingTagId === tag.id ? (
+                            <div>
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  value={tagName}
+                                  maxLength={MAX_TAG_LENGTH}
+                                  onChange={(e) => setTagName(e.target.value)}
+                                  onKeyDown={(e) => {
+                                    if (e.key === 'Enter') handleRenameTag(tag);
+                                    if (e.key === 'Escape') setRenamingTagId(null);
+                                  }}
+                                  className="h-8 max-w-xs"
+                                  autoFocus
+                                />
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => handleRenameTag(tag)}
+                                  disabled={!!renameConflict}
+                                >
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setRenamingTagId(null)}>
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </div>
+                              {renameConflict && (
+                                <p className="mt-1 text-xs text-destructive">
+                                  "{renameConflict.name}" already exists; merge the tags instead.
+                                </p>
+                              )}
+                            </div>
+                          ) : (
+                            <TagBadge tag={tag} />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <TagColorSelect
+                            value={tag.color}
+                            onChange={(color) => handleRecolorTag(tag, color)}
+                            disabled={isSaving}
+                          />
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{tag.customers ?? '—'}</TableCell>
+                        <TableCell>
+                          <div className="flex space-x-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Rename"
+                              onClick={() => {
+                                setRenamingTagId(tag.id);
+                                setTagName(tag.name);
+                              }}
+                              disabled={isSaving}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog onOpenChange={(open) => open && setMergeTargetId('')}>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  title="Merge into another tag"
+                                  disabled={isSaving || tags.length < 2}
+                                >
+                                  <GitMerge className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Merge "{tag.name}" into another tag</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {tag.customers ?? 0} customer{tag.customers === 1 ? '' : 's'} will carry the chosen tag
+                                    instead, and "{tag.name}" will be deleted.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Choose a tag" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {tags.filter(entry => entry.id !== tag.id).map((entry) => (
+                                      <SelectItem key={entry.id} value={entry.id}>
+                                        <span className="flex items-center gap-2">
+                                          <CustomFieldOptionSwatch color={entry.color} />
+                                          {entry.name}
+                                        </span>
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleMergeTag(tag)} disabled={!mergeTargetId}>
+                                    Merge
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-8 w-8" title="Delete" disabled={isSaving}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete "{tag.name}"?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    The tag will be removed from {tag.customers ?? 0} customer{tag.customers === 1 ? '' : 's'}.
+                                    {' '}This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDeleteTag(tag)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
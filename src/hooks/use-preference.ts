@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { preferenceService } from '@/services/api';
+
+// Changes settle this long before they are saved, so resizing a column saves once
+const SAVE_DELAY = 500;
+
+/**
+ * A setting of the current user, loaded from and saved to the server.
+ * `parse` turns the stored JSON (null when never saved) into a valid value.
+ * Changes apply right away and are saved shortly after the last one. The third entry
+ * tells whether the stored value has loaded yet.
+ */
+export function usePreference<T>(key: string, parse: (value: unknown) => T): [T, (value: T) => void, boolean] {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['preferences', user?.id ?? null, key];
+  const { data, isFetched } = useQuery({
+    queryKey,
+    queryFn: () => preferenceService.get(key),
+    staleTime: Infinity,
+  });
+
+  // The change waiting to be saved
+  const pending = useRef<{ timeout: ReturnType<typeof setTimeout>; save: () => void } | null>(null);
+
+  // A change that is still waiting is saved when the component goes away
+  useEffect(() => () => {
+    if (pending.current) {
+      clearTimeout(pending.current.timeout);
+      pending.current.save();
+    }
+  }, []);
+
+  const setValue = (value: T) => {
+    queryClient.setQueryData(queryKey, value);
+    if (pending.current) clearTimeout(pending.current.timeout);
+
+    const save = () => {
+      pending.current = null;
+      preferenceService.set(key, value).catch(error => console.error('Error saving preference:', error));
+    };
+    pending.current = { timeout: setTimeout(save, SAVE_DELAY), save };
+  };
+
+  return [parse(data ?? null), setValue, isFetched];
+}
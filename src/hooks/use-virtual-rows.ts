@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  estimateSize: number; // Height in pixels assumed for rows that have not been rendered yet
+  getKey: (index: number) => string; // Measured heights are remembered per key
+  overscan?: number; // Rows rendered beyond each edge of the window
+}
+
+/**
+ * Windowed rendering for long lists that scroll with the page. Only the rows in and
+ * near the window are rendered; the space of the others is kept by `paddingTop` and
+ * `paddingBottom`. Attach `listRef` to the element holding the rows and give every
+ * rendered row a `data-virtual-key` attribute with its key, so its height is measured.
+ */
+export function useVirtualRows<T extends HTMLElement>({ count, estimateSize, getKey, overscan = 6 }: VirtualRowsOptions) {
+  const listRef = useRef<T>(null);
+  const sizes = useRef(new Map<string, number>());
+  const [, setMeasured] = useState(0);
+  // Part of the list inside the window, relative to the top of the list
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+
+  const updateViewport = useCallback(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const top = -list.getBoundingClientRect().top;
+    setViewport(current =>
+      current.top === top && current.height === window.innerHeight ? current : { top, height: window.innerHeight }
+    );
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const handleChange = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateViewport);
+    };
+    window.addEventListener('scroll', handleChange, { passive: true });
+    window.addEventListener('resize', handleChange);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleChange);
+      window.removeEventListener('resize', handleChange);
+    };
+  }, [updateViewport]);
+
+  // The list moves when the number of rows changes, e.g. with the bulk actions bar above it
+  useLayoutEffect(updateViewport, [count, updateViewport]);
+
+  // Top of every row, and the height of the whole list at the end
+  const offsets = new Array<number>(count + 1);
+  offsets[0] = 0;
+  for (let index = 0; index < count; index++) {
+    offsets[index + 1] = offsets[index] + (sizes.current.get(getKey(index)) ?? estimateSize);
+  }
+
+  // The last row starting at or above a position
+  const findRow = (position: number) => {
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= position) low = middle;
+      else high = middle - 1;
+    }
+    return Math.max(low, 0);
+  };
+
+  const start = count === 0 ? 0 : Math.max(findRow(viewport.top) - overscan, 0);
+  const end = count === 0 ? 0 : Math.min(findRow(viewport.top + viewport.height) + 1 + overscan, count);
+
+  // Remember the height of every rendered row; rows keep their size until they are measured again.
+  // A new `getKey` comes with every render of the caller, so changed content is measured too.
+  useLayoutEffect(() => {
+    let changed = false;
+    listRef.current?.querySelectorAll<HTMLElement>('[data-virtual-key]').forEach(element => {
+      const key = element.dataset.virtualKey!;
+      const height = element.getBoundingClientRect().height;
+      if (height > 0 && sizes.current.get(key) !== height) {
+        sizes.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasured(version => version + 1);
+  }, [start, end, getKey]);
+
+  // Scroll the page just enough to show a row, e.g. one reached with the keyboard
+  const scrollToIndex = (index: number) => {
+    const list = listRef.current;
+    if (!list || index < 0 || index >= count) return;
+    const rowTop = list.getBoundingClientRect().top + window.scrollY + offsets[index];
+    const rowBottom = rowTop + offsets[index + 1] - offsets[index];
+    if (rowTop < window.scrollY) {
+      window.scrollTo({ top: rowTop });
+    } else if (rowBottom > window.scrollY + window.innerHeight) {
+      window.scrollTo({ top: rowBottom - window.innerHeight });
+    }
+  };
+
+  return {
+    listRef,
+    start, // First rendered row
+    end, // Row after the last rendered one
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+    scrollToIndex,
+  };
+}
@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  Briefcase,
+  Calendar,
+  Clock,
+  Edit,
+  Link2,
+  Mail,
+  MapPin,
+  Phone,
+  Trash2
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { CustomerForm } from '@/components/CustomerForm';
+import { CustomFieldValueDisplay } from '@/components/CustomFieldValueDisplay';
+import { CustomerNotes } from '@/components/CustomerNotes';
+import { TagList } from '@/components/TagBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { customerService, customFieldService } from '@/services/api';
+import { Customer, CustomField, groupCustomFieldsBySection } from '@/utils/data';
+import { getCustomFieldValues } from '@/utils/formula';
+import { getVisibleFieldIds } from '@/utils/visibility';
+
+interface IncomingLink {
+  customer: Customer;
+  field: CustomField;
+}
+
+// Other customers whose relation fields point at this customer
+const findIncomingLinks = (id: string, customers: Customer[], customFields: CustomField[]): IncomingLink[] => {
+  const relationFields = customFields.filter(field => field.type === 'relation');
+
+  return customers
+    .filter(customer => customer.id.toString() !== id)
+    .flatMap(customer => {
+      const values = getCustomFieldValues(customer, customFields);
+      return relationFields
+        .filter(field => {
+          const value = values.get(field.id);
+          return Array.isArray(value) && value.map(String).includes(id);
+        })
+        .map(field => ({ customer, field }));
+    });
+};
+
+const CustomerDetail = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [showEditForm, setShowEditForm] = useState(false);
+
+  const { data: customer, isLoading, isError } = useQuery({
+    queryKey: ['customers', id],
+    queryFn: () => customerService.getById(id),
+    retry: false,
+  });
+
+  const { data: customFields = [] } = useQuery({
+    queryKey: ['customFields'],
+    queryFn: () => customFieldService.getAll(),
+  });
+
+  const { data: customers = [] } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => customerService.getAll(),
+  });
+
+  const updateCustomerMutation = useMutation({
+    mutationFn: (data: Partial<Customer>) => customerService.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      toast.success('Customer updated successfully');
+      setShowEditForm(false);
+    },
+    onError: (error) => {
+      console.error('Error updating customer:', error);
+      toast.error('Failed to update customer');
+    }
+  });
+
+  const restoreCustomerMutation = useMutation({
+    mutationFn: () => customerService.restore(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast.success('Customer restored');
+    },
+    onError: (error) => {
+      console.error('Error restoring customer:', error);
+      toast.error('Failed to restore customer');
+    }
+  });
+
+  const deleteCustomerMutation = useMutation({
+    mutationFn: () => customerService.delete(id, user),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast.success('Customer moved to the trash', {
+        action: { label: 'Undo', onClick: () => restoreCustomerMutation.mutate() }
+      });
+      navigate('/');
+    },
+    onError: (error) => {
+      console.error('Error deleting customer:', error);
+      toast.error('Failed to delete customer');
+    }
+  });
+
+  const customerNames = new Map<string, string>(customers.map(entry => [entry.id.toString(), entry.name]));
+  const openCustomer = (linkedId: string) => navigate(`/customers/${linkedId}`);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 to-blue-100 dark:from-gray-900 dark:to-gray-800">
+        <div className="flex flex-col items-center glass p-8 rounded-xl shadow-lg">
+          <div className="h-12 w-12 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          <p className="mt-6 text-muted-foreground font-medium">Loading customer...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isError || !customer) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-red-50 to-orange-50 dark:from-gray-900 dark:to-gray-800">
+        <div className="text-center glass p-8 rounded-xl shadow-lg">
+          <h2 className="text-2xl font-semibold text-red-600 mb-3">Customer not found</h2>
+          <p className="text-muted-foreground">The customer may have been deleted, or the link is wrong.</p>
+          <Button className="mt-4" onClick={() => navigate('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to customers
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Same rules as the card: formulas are computed and hidden fields are left out
+  const values = getCustomFieldValues(customer, customFields);
+  const visibleFieldIds = getVisibleFieldIds(customFields, values);
+  const sections = groupCustomFieldsBySection(customFields.filter(field => visibleFieldIds.has(field.id)));
+  const incomingLinks = findIncomingLinks(customer.id.toString(), customers, customFields);
+
+  const baseFields = [
+    { icon: Calendar, label: 'Date of birth', value: customer.dob ? format(new Date(customer.dob), 'PPP') : null },
+    { icon: Phone, label: 'Phone', value: customer.phone },
+    { icon: Mail, label: 'Email', value: customer.email },
+    { icon: Briefcase, label: 'Occupation', value: customer.occupation },
+    { icon: MapPin, label: 'Location', value: customer.location },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 dark:from-gray-900 dark:via-indigo-950 dark:to-purple-950">
+      <main className="container max-w-4xl py-8 px-4 lg:px-8 space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/')}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to customers
+        </Button>
+
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-white">{customer.name}</h1>
+            <p className="text-muted-foreground">{customer.occupation}</p>
+            <TagList tags={customer.tags} className="mt-2" />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowEditForm(true)}>
+              <Edit className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="text-destructive hover:text-destructive">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {customer.name}'s record will be moved to the trash, where it can be restored.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => deleteCustomerMutation.mutate()}>Delete</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Contact details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid gap-4 sm:grid-cols-2">
+              {baseFields.map(({ icon: Icon, label, value }) => (
+                <div key={label} className="flex items-start">
+                  <Icon className="mr-3 mt-0.5 h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <dt className="text-xs text-muted-foreground">{label}</dt>
+                    <dd className="text-sm">{value || <span className="text-muted-foreground">Not set</span>}</dd>
+                  </div>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+
+        {sections.map((section) => (
+          <Card key={section.name}>
+            <CardHeader>
+              <CardTitle className="text-lg">{section.name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid gap-4 sm:grid-cols-2">
+                {section.fields.map((field) => (
+                  <div key={field.id}>
+                    <dt className="text-xs text-muted-foreground">{field.name}</dt>
+                    <dd className="text-sm">
+                      <CustomFieldValueDisplay
+                        type={field.type}
+                        value={values.get(field.id)}
+                        options={field.options}
+                        customerNames={customerNames}
+                        onOpenCustomer={openCustomer}
+                        emptyText="Not set"
+                      />
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+        ))}
+
+        {incomingLinks.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Linked from</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm">
+                {incomingLinks.map(({ customer: linked, field }) => (
+                  <li key={`${linked.id}-${field.id}`} className="flex items-center">
+                    <Link2 className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <Link to={`/customers/${linked.id}`} className="font-medium text-primary underline-offset-4 hover:underline">
+                      {linked.name}
+                    </Link>
+                    <span className="ml-2 text-muted-foreground">via {field.name}</span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CustomerNotes customerId={customer.id.toString()} />
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-wrap gap-6 text-xs text-muted-foreground">
+          <span className="flex items-center">
+            <Clock className="mr-1.5 h-3.5 w-3.5" />
+            Created {format(new Date(customer.createdAt), 'PPp')}
+          </span>
+          <span className="flex items-center">
+            <Clock className="mr-1.5 h-3.5 w-3.5" />
+            Last updated {format(new Date(customer.updatedAt), 'PPp')}
+          </span>
+        </div>
+      </main>
+
+      <Dialog open={showEditForm} onOpenChange={setShowEditForm}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="text-2xl">Edit Customer</DialogTitle>
+          </DialogHeader>
+          <CustomerForm
+            customer={customer}
+            onSubmit={(data) => updateCustomerMutation.mutateAsync(data)}
+            onCancel={() => setShowEditForm(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CustomerDetail;
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, GitMerge, Mail, Phone } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { CustomerMergeDialog } from '@/components/CustomerMergeDialog';
+import { customerService } from '@/services/api';
+import { Customer } from '@/utils/data';
+import { findDuplicatePairs, STRONG_DUPLICATE_THRESHOLD } from '@/utils/duplicates';
+
+// Pairs of customers that look like the same person, each of which can be merged
+const Duplicates = () => {
+  const navigate = useNavigate();
+  const [mergePair, setMergePair] = useState<[Customer, Customer] | null>(null);
+
+  const { data: customers = [], isLoading } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => customerService.getAll(),
+  });
+
+  const pairs = findDuplicatePairs(customers);
+
+  const renderCustomer = (customer: Customer) => (
+    <div className="min-w-0 flex-1">
+      <Link to={`/customers/${customer.id}`} className="font-medium text-primary underline-offset-4 hover:underline">
+        {customer.name}
+      </Link>
+      <p className="flex items-center truncate text-xs text-muted-foreground">
+        <Mail className="mr-1.5 h-3 w-3" />
+        {customer.email || 'No email'}
+      </p>
+      <p className="flex items-center truncate text-xs text-muted-foreground">
+        <Phone className="mr-1.5 h-3 w-3" />
+        {customer.phone || 'No phone'}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 dark:from-gray-900 dark:via-indigo-950 dark:to-purple-950">
+      <main className="container max-w-4xl py-8 px-4 lg:px-8 space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/')}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to customers
+        </Button>
+
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">Possible duplicates</h1>
+          <p className="text-muted-foreground">
+            Customers are compared by email, phone number and name. Merge a pair to keep a single record.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : pairs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">No likely duplicates found.</CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {pairs.map(({ customer, other, score, reasons }) => (
+              <Card key={`${customer.id}-${other.id}`}>
+                <CardContent className="flex flex-wrap items-center gap-4 p-4">
+                  {renderCustomer(customer)}
+                  {renderCustomer(other)}
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant={score >= STRONG_DUPLICATE_THRESHOLD ? 'destructive' : 'secondary'}>
+                      {score >= STRONG_DUPLICATE_THRESHOLD ? 'Likely' : 'Possible'} · {score}%
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{reasons.join(', ')}</span>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setMergePair([customer, other])}>
+                    <GitMerge className="mr-2 h-4 w-4" />
+                    Merge
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <CustomerMergeDialog customers={mergePair} onClose={() => setMergePair(null)} />
+    </div>
+  );
+};
+
+export default Duplicates;
@@ -1,5 +1,6 @@
 
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   Dialog, 
   DialogContent, 
@@ -8,38 +9,179 @@ import {
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
 import { CustomerList } from '@/components/CustomerList';
-import { CustomerCard } from '@/components/CustomerCard';
+import { CustomerGrid } from '@/components/CustomerGrid';
 import { CustomerForm } from '@/components/CustomerForm';
 import { CustomFieldsManager } from '@/components/CustomFieldsManager';
+import { TagsManager } from '@/components/TagsManager';
+import { TagFilter } from '@/components/TagFilter';
+import { CustomerFilterBuilder } from '@/components/CustomerFilterBuilder';
 import { ExcelExport } from '@/components/ExcelExport';
+import { BulkActionsBar } from '@/components/BulkActionsBar';
+import { CustomerPagination } from '@/components/CustomerPagination';
 import { Navbar } from '@/components/Navbar';
-import { Customer } from '@/utils/data';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { customerService } from '@/services/api';
-import { Briefcase, Users, LayoutGrid, List } from 'lucide-react';
+import { SavedViewsMenu } from '@/components/SavedViewsMenu';
+import { useAuth } from '@/contexts/AuthContext';
+import { Customer, isEmptyCustomFieldValue } from '@/utils/data';
+import { toggleSelection } from '@/utils/selection';
+import { EMPTY_CUSTOMER_FILTER, getCustomerFilterFields, pruneCustomerFilter } from '@/utils/customerFilter';
+import { canSortOnServer, CustomerPage, CustomerQuery } from '@/utils/customerQuery';
+import {
+  CustomerListParams,
+  hasCustomerListParams,
+  readCustomerListParams,
+  writeCustomerListParams
+} from '@/utils/customerListParams';
+import { CUSTOMER_TABLE_LAYOUT_KEY, CustomerTableLayout, parseCustomerTableLayout } from '@/utils/tableLayout';
+import {
+  applyViewToLayout,
+  CustomerViewState,
+  isSameViewState,
+  parseCustomerViewState,
+  SavedView
+} from '@/utils/savedViews';
+import { usePreference } from '@/hooks/use-preference';
+import { cn } from '@/lib/utils';
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { customerService, customFieldService, viewService } from '@/services/api';
+import { Users, LayoutGrid, List } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 const Index = () => {
   const queryClient = useQueryClient();
-  const [searchQuery, setSearchQuery] = useState('');
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  // Search, tags, filter, sort, view mode and page live in the address, so the list can be
+  // linked to and back and forward step through it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const listParams = useMemo(() => readCustomerListParams(searchParams), [searchParams]);
+  const { search: searchQuery, tagIds: selectedTagIds, filter, viewMode, page, pageSize } = listParams;
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | undefined>(undefined);
   const [showCustomerForm, setShowCustomerForm] = useState(false);
   const [showFieldsManager, setShowFieldsManager] = useState(false);
+  const [showTagsManager, setShowTagsManager] = useState(false);
   const [showExport, setShowExport] = useState(false);
-  const [viewMode, setViewMode] = useState<'list' | 'grid'>('grid');
+  const [exportSelection, setExportSelection] = useState(false);
+  // The selection spans pages, but belongs to one search, set of tags and filter
+  const [selection, setSelection] = useState<{ key: string; ids: string[] }>({ key: '', ids: [] });
+  const [selectingAll, setSelectingAll] = useState(false);
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  // The server sorts the customers like the table says, in both views
+  const [layout, setLayout, layoutLoaded] = usePreference<CustomerTableLayout>(
+    CUSTOMER_TABLE_LAYOUT_KEY,
+    parseCustomerTableLayout
+  );
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+
+  const { data: customFields = [] } = useQuery({
+    queryKey: ['customFields'],
+    queryFn: () => customFieldService.getAll(),
+  });
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['tags'],
+    queryFn: () => customerService.getTags(),
+  });
+
+  const { data: views } = useQuery({
+    queryKey: ['views', user?.id ?? null],
+    queryFn: () => viewService.getAll(user),
+  });
+
+  // Tags that were deleted or merged away no longer filter anything
+  const activeTagIds = selectedTagIds.filter(id => tags.some(tag => tag.id === id));
+  const filterFields = useMemo(() => getCustomerFilterFields(customFields), [customFields]);
+  // Conditions still being filled in, or on fields deleted since, are left out
+  const activeFilter = pruneCustomerFilter(filter, filterFields);
+  // Links without a sort keep the user's own
+  const sorting = listParams.sorting ?? layout.sorting;
+  const sort = sorting.filter(entry => canSortOnServer(entry.id, customFields));
 
-  const { data: customers = [], isLoading, isError } = useQuery({
-    queryKey: ['customers'],
-    queryFn: () => customerService.getAll(),
+  // Every change but paging or switching between list and grid starts again at the first page.
+  // Changes add a step to the browser history unless `replace` is set.
+  const updateListParams = useCallback((changes: Partial<CustomerListParams>, replace = false) => {
+    setSearchParams(current => {
+      const list = readCustomerListParams(current);
+      const keepPage = Object.keys(changes).every(key => key === 'page' || key === 'viewMode');
+      return writeCustomerListParams({ ...list, ...(keepPage ? {} : { page: 1 }), ...changes }, current);
+    }, { replace });
+  }, [setSearchParams]);
+
+  // What a view saved now would bring back; tags and fields deleted since are left out
+  const resolveViewState = (state: CustomerViewState): CustomerViewState => ({
+    ...state,
+    tagIds: state.tagIds.filter(id => tags.some(tag => tag.id === id)),
+    filter: pruneCustomerFilter(state.filter, filterFields) ?? EMPTY_CUSTOMER_FILTER,
+  });
+  const currentViewState = resolveViewState({
+    viewMode,
+    search: searchQuery,
+    tagIds: selectedTagIds,
+    filter,
+    sorting,
+    columnOrder: layout.columnOrder,
+    columnVisibility: layout.columnVisibility,
   });
+  // A deleted or unshared view is no longer active
+  const activeView = views?.find(view => view.id === activeViewId) ?? null;
+  const isViewModified = !!activeView && !isSameViewState(resolveViewState(activeView.state), currentViewState);
+
+  const customerQuery: CustomerQuery = {
+    page,
+    pageSize,
+    sort,
+    search: searchQuery,
+    tagIds: activeTagIds,
+    filter: activeFilter,
+  };
 
-  const { data: filteredCustomers = [] } = useQuery({
-    queryKey: ['customers', 'search', searchQuery],
-    queryFn: () => searchQuery ? customerService.search(searchQuery) : customers,
-    enabled: !!searchQuery,
+  // Every page is cached on its own; the current one stays on screen while the next loads
+  const { data: customerPage, isLoading, isError, isPlaceholderData } = useQuery({
+    queryKey: ['customers', 'page', customerQuery],
+    queryFn: () => customerService.getPage(customerQuery),
+    placeholderData: keepPreviousData,
   });
 
-  const displayedCustomers = searchQuery ? filteredCustomers : customers;
+  const total = customerPage?.total ?? 0;
+  const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+
+  // Deleting the last customers of the last page leaves it empty, and links can point past
+  // the end; go to the last page
+  useEffect(() => {
+    if (customerPage && !isPlaceholderData && page > pageCount) updateListParams({ page: pageCount }, true);
+  }, [customerPage, isPlaceholderData, page, pageCount, updateListParams]);
+
+  const displayedCustomers = useMemo(() => customerPage?.customers ?? [], [customerPage]);
+  // Relation fields name the customers they link to
+  const customerNames = useMemo(
+    () => new Map<string, string>([
+      ...(customerPage?.linkedCustomers ?? []).map((customer): [string, string] => [customer.id, customer.name]),
+      ...(customerPage?.customers ?? []).map((customer): [string, string] => [customer.id.toString(), customer.name]),
+    ]),
+    [customerPage]
+  );
+
+  // Changing the search, tags or filter clears the selection
+  const selectionKey = JSON.stringify([searchQuery, activeTagIds, activeFilter]);
+  const selectedIds = selection.key === selectionKey ? selection.ids : [];
+  const setSelectedIds = (ids: string[]) => setSelection({ key: selectionKey, ids });
+  const displayedIds = displayedCustomers.map(customer => customer.id.toString());
+  const displayedIdSet = new Set(displayedIds);
+  const selectedIdSet = new Set(selectedIds);
+  const selectedCustomers = displayedCustomers.filter(customer => selectedIdSet.has(customer.id.toString()));
+  const selectionOnPage = selectedIds.every(id => displayedIdSet.has(id));
+
+  // Exports cover every matching customer, not only the current page; a selection reaching
+  // past the page is picked out of them
+  const { data: exportCustomers = [] } = useQuery({
+    queryKey: ['customers', 'export', { search: searchQuery, tagIds: activeTagIds, filter: activeFilter, sort }],
+    queryFn: () => customerService.getAll({ search: searchQuery, tagIds: activeTagIds, filter: activeFilter, sort }),
+    enabled: showExport && (!exportSelection || !selectionOnPage),
+  });
+  const exportedCustomers = !exportSelection || selectedIds.length === 0
+    ? exportCustomers
+    : selectionOnPage
+      ? selectedCustomers
+      : exportCustomers.filter(customer => selectedIdSet.has(customer.id.toString()));
 
   const createCustomerMutation = useMutation({
     mutationFn: (newCustomer: any) => customerService.create(newCustomer),
@@ -68,11 +210,70 @@ const Index = () => {
     }
   });
 
-  const deleteCustomerMutation = useMutation({
-    mutationFn: (id: string) => customerService.delete(id),
+  // Cells edited in the table show the new value right away; it is rolled back if the save fails
+  const inlineUpdateMutation = useMutation({
+    mutationFn: async (customer: Customer) => {
+      // Unique values are checked like in the form, so the message names the other customer
+      for (const field of customFields.filter(entry => entry.validation?.unique)) {
+        const value = customer.customFields.find(entry => entry.id?.toString() === field.id.toString())?.value;
+        if (isEmptyCustomFieldValue(value)) continue;
+        const conflict = await customFieldService.findConflict(field.id, value, customer.id);
+        if (conflict) {
+          throw new Error(`${field.name} is already used by ${conflict.customerName}${conflict.inTrash ? ' (in the trash)' : ''}`);
+        }
+      }
+      const { name, dob, phone, email, occupation, location } = customer;
+      return customerService.update(customer.id, {
+        name, dob, phone, email, occupation, location,
+        customFields: customer.customFields,
+      });
+    },
+    onMutate: async (customer) => {
+      await queryClient.cancelQueries({ queryKey: ['customers'] });
+      const previous = queryClient.getQueriesData<Customer[] | Customer | CustomerPage>({ queryKey: ['customers'] });
+      queryClient.setQueriesData<Customer[] | Customer | CustomerPage>({ queryKey: ['customers'] }, (data) => {
+        const replace = (entries: Customer[]) => entries.map(entry => entry.id === customer.id ? customer : entry);
+        if (!data) return data;
+        if (Array.isArray(data)) return replace(data);
+        if ('customers' in data) return { ...data, customers: replace(data.customers) };
+        return data.id === customer.id ? customer : data;
+      });
+      return { previous };
+    },
+    onError: (error, _, context) => {
+      context?.previous.forEach(([queryKey, data]) =>
+        queryClient.setQueryData<Customer[] | Customer | CustomerPage>(queryKey, data));
+      console.error('Error updating customer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update customer');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+    }
+  });
+
+  const restoreCustomerMutation = useMutation({
+    mutationFn: (id: string) => customerService.restore(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['customers'] });
-      toast.success('Customer deleted successfully');
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast.success('Customer restored');
+    },
+    onError: (error) => {
+      console.error('Error restoring customer:', error);
+      toast.error('Failed to restore customer');
+    }
+  });
+
+  // Deleted customers go to the trash, so the toast offers to undo right away
+  const deleteCustomerMutation = useMutation({
+    mutationFn: (id: string) => customerService.delete(id, user),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      setSelection(current => ({ ...current, ids: current.ids.filter(entry => entry !== id) }));
+      toast.success('Customer moved to the trash', {
+        action: { label: 'Undo', onClick: () => restoreCustomerMutation.mutate(id) }
+      });
     },
     onError: (error) => {
       console.error('Error deleting customer:', error);
@@ -80,17 +281,40 @@ const Index = () => {
     }
   });
 
+  // Show the list the way a view saved it; null goes back to every customer in the default layout
+  const applyView = useCallback((view: SavedView | null, replace = false) => {
+    const state = view ? view.state : parseCustomerViewState(null);
+    setActiveViewId(view ? view.id : null);
+    updateListParams({
+      search: state.search,
+      tagIds: state.tagIds,
+      filter: state.filter,
+      sorting: state.sorting,
+      viewMode: state.viewMode,
+    }, replace);
+    setLayout(applyViewToLayout(layout, state));
+  }, [layout, setLayout, updateListParams]);
+
+  // Without a link saying otherwise, the list opens with the user's default view once views
+  // and their table layout are in
+  const openedWithParams = useRef(hasCustomerListParams(searchParams));
+  const defaultViewApplied = useRef(false);
+  useEffect(() => {
+    if (defaultViewApplied.current || !views || !layoutLoaded) return;
+    defaultViewApplied.current = true;
+    const defaultView = views.find(view => view.isDefault);
+    if (defaultView && !openedWithParams.current) applyView(defaultView, true);
+  }, [views, layoutLoaded, applyView]);
+
+  // Typing on in the search box replaces the history step of the search started before
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
+    updateListParams({ search: query }, !!searchQuery && !!query);
   };
 
-  const handleCustomerSubmit = (data: any) => {
-    if (selectedCustomer) {
-      updateCustomerMutation.mutate({ id: selectedCustomer.id, data });
-    } else {
-      createCustomerMutation.mutate(data);
-    }
-  };
+  // The form waits for the save, so conflicts the server reports show on their fields
+  const handleCustomerSubmit = (data: any) => selectedCustomer
+    ? updateCustomerMutation.mutateAsync({ id: selectedCustomer.id, data })
+    : createCustomerMutation.mutateAsync(data);
 
   const handleDeleteCustomer = (id: string) => {
     deleteCustomerMutation.mutate(id);
@@ -101,13 +325,44 @@ const Index = () => {
     setShowCustomerForm(true);
   };
 
+  // Cards, rows and relation chips open the customer's detail page
+  const handleOpenCustomer = useCallback((id: string) => {
+    navigate(`/customers/${id}`);
+  }, [navigate]);
+
+  const handleViewCustomer = (customer: Customer) => handleOpenCustomer(customer.id.toString());
+
   const handleCancelForm = () => {
     setShowCustomerForm(false);
     setSelectedCustomer(undefined);
   };
 
   const handleViewModeChange = (mode: 'list' | 'grid') => {
-    setViewMode(mode);
+    updateListParams({ viewMode: mode });
+  };
+
+  // Grid cards select in display order; the list keeps its own order and anchor
+  const handleToggleCard = (id: string, range: boolean) => {
+    setSelectedIds(toggleSelection(selectedIds, displayedIds, id, selectionAnchor, range));
+    setSelectionAnchor(id);
+  };
+
+  // Select the customers matching the search, tags and filter on every page
+  const handleSelectAll = async () => {
+    try {
+      setSelectingAll(true);
+      setSelectedIds(await customerService.getIds({ search: searchQuery, tagIds: activeTagIds, filter: activeFilter }));
+    } catch (error) {
+      console.error('Error selecting customers:', error);
+      toast.error('Failed to select all matching customers');
+    } finally {
+      setSelectingAll(false);
+    }
+  };
+
+  const handleExportSelection = () => {
+    setExportSelection(true);
+    setShowExport(true);
   };
 
   if (isLoading) {
@@ -141,15 +396,31 @@ const Index = () => {
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 dark:from-gray-900 dark:via-indigo-950 dark:to-purple-950">
       <Navbar 
+        searchQuery={searchQuery}
         onSearch={handleSearch}
         onAddCustomer={() => {
           setSelectedCustomer(undefined);
           setShowCustomerForm(true);
         }}
         onManageFields={() => setShowFieldsManager(true)}
-        onExport={() => setShowExport(true)}
+        onManageTags={() => setShowTagsManager(true)}
+        onFindDuplicates={() => navigate('/duplicates')}
+        onOpenTrash={() => navigate('/trash')}
+        onExport={() => {
+          setExportSelection(false);
+          setShowExport(true);
+        }}
         activeTab={viewMode}
         onTabChange={handleViewModeChange}
+        viewsMenu={
+          <SavedViewsMenu
+            views={views ?? []}
+            activeView={activeView}
+            modified={isViewModified}
+            currentState={currentViewState}
+            onApply={applyView}
+          />
+        }
       />
       
       <main className="flex-1 container py-8 px-4 lg:px-8">
@@ -165,15 +436,21 @@ const Index = () => {
                 Customer Directory
               </h1>
               <p className="text-muted-foreground">
-                {displayedCustomers.length === customers.length 
-                  ? `${customers.length} total customers`
-                  : `Showing ${displayedCustomers.length} of ${customers.length} customers`
+                {searchQuery || activeTagIds.length > 0 || activeFilter
+                  ? `${total} matching customers`
+                  : `${total} total customers`
                 }
               </p>
             </div>
           </div>
           
           <div className="hidden sm:flex items-center gap-2 bg-white/30 dark:bg-gray-800/30 backdrop-blur-sm p-1.5 rounded-lg shadow-sm">
+            <CustomerFilterBuilder
+              fields={filterFields}
+              filter={filter}
+              onChange={(changed) => updateListParams({ filter: changed })}
+            />
+            <TagFilter tags={tags} selected={activeTagIds} onChange={(tagIds) => updateListParams({ tagIds })} />
             <Button 
               variant={viewMode === 'list' ? 'default' : 'outline'} 
               size="sm" 
@@ -194,41 +471,60 @@ const Index = () => {
             </Button>
           </div>
         </div>
+
+        <BulkActionsBar
+          selectedIds={selectedIds}
+          matchingCount={total}
+          customFields={customFields}
+          onSelectAll={handleSelectAll}
+          selectingAll={selectingAll}
+          onClear={() => setSelectedIds([])}
+          onExport={handleExportSelection}
+        />
         
-        {viewMode === 'list' ? (
-          <div 
-            className="bg-white/80 dark:bg-gray-800/50 rounded-xl backdrop-blur-sm shadow-lg p-6 border border-gray-100 dark:border-gray-700"
-          >
-            <CustomerList 
-              customers={displayedCustomers} 
-              onEdit={handleEditCustomer} 
-              onDelete={handleDeleteCustomer} 
+        <div className={cn('transition-opacity', isPlaceholderData && 'opacity-60')}>
+          {viewMode === 'list' ? (
+            <div 
+              className="bg-white/80 dark:bg-gray-800/50 rounded-xl backdrop-blur-sm shadow-lg p-6 border border-gray-100 dark:border-gray-700"
+            >
+              <CustomerList 
+                customers={displayedCustomers} 
+                customFields={customFields}
+                customerNames={customerNames}
+                onEdit={handleEditCustomer} 
+                onDelete={handleDeleteCustomer} 
+                onOpenCustomer={handleOpenCustomer}
+                onView={handleViewCustomer}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                onUpdateCustomer={(customer) => inlineUpdateMutation.mutate(customer)}
+                manualSorting
+                sorting={sorting}
+                onSortingChange={(changed) => updateListParams({ sorting: changed })}
+              />
+            </div>
+          ) : (
+            <CustomerGrid
+              customers={displayedCustomers}
+              customFields={customFields}
+              customerNames={customerNames}
+              onEdit={handleEditCustomer}
+              onDelete={handleDeleteCustomer}
+              onOpenCustomer={handleOpenCustomer}
+              onView={handleViewCustomer}
+              selectedIds={selectedIds}
+              onToggleSelect={handleToggleCard}
             />
-          </div>
-        ) : (
-          <div 
-            className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
-          >
-            {displayedCustomers.length === 0 ? (
-              <div 
-                className="col-span-full bg-white/80 dark:bg-gray-800/50 text-center py-12 rounded-xl shadow-md border border-gray-100 dark:border-gray-700"
-              >
-                <Briefcase className="h-12 w-12 mx-auto text-muted-foreground/50 mb-3" />
-                <p className="text-muted-foreground">No customers found.</p>
-              </div>
-            ) : (
-              displayedCustomers.map((customer) => (
-                <div key={customer.id}>
-                  <CustomerCard 
-                    customer={customer} 
-                    onEdit={handleEditCustomer} 
-                    onDelete={handleDeleteCustomer} 
-                  />
-                </div>
-              ))
-            )}
-          </div>
-        )}
+          )}
+        </div>
+
+        <CustomerPagination
+          page={Math.min(page, pageCount)}
+          pageSize={pageSize}
+          total={total}
+          onPageChange={(target) => updateListParams({ page: target })}
+          onPageSizeChange={(size) => updateListParams({ pageSize: size })}
+        />
       </main>
       
       <Dialog open={showCustomerForm} onOpenChange={setShowCustomerForm}>
@@ -249,13 +545,19 @@ const Index = () => {
         onClose={() => {
           setShowFieldsManager(false);
           queryClient.invalidateQueries({ queryKey: ['customers'] });
+          queryClient.invalidateQueries({ queryKey: ['customFields'] });
         }} 
       />
       
+      <TagsManager
+        isOpen={showTagsManager}
+        onClose={() => setShowTagsManager(false)}
+      />
+      
       <ExcelExport 
         isOpen={showExport} 
         onClose={() => setShowExport(false)} 
-        customers={displayedCustomers.length > 0 ? displayedCustomers : customers} 
+        customers={exportedCustomers}
       />
     </div>
   );
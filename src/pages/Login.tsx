@@ -1,6 +1,6 @@
 
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,6 +16,9 @@ const Login = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { login } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // AuthGuard sends users here with the page they asked for, e.g. a shared customer link
+  const redirectTo = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || '/';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -25,7 +28,7 @@ const Login = () => {
       const success = await login(email, password);
       if (success) {
         toast.success('Login successful');
-        navigate('/');
+        navigate(redirectTo, { replace: true });
       } else {
         toast.error('Invalid email or password');
       }
@@ -0,0 +1,167 @@
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { customerService } from '@/services/api';
+import { getTrashPurgeDate } from '@/utils/data';
+
+// Deleted customers, which can be restored or purged for good until the retention period ends
+const Trash = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: trash, isLoading } = useQuery({
+    queryKey: ['trash'],
+    queryFn: () => customerService.getTrash(),
+  });
+
+  const restoreCustomerMutation = useMutation({
+    mutationFn: (id: string) => customerService.restore(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      toast.success('Customer restored');
+    },
+    onError: (error) => {
+      console.error('Error restoring customer:', error);
+      toast.error('Failed to restore customer');
+    }
+  });
+
+  const purgeCustomerMutation = useMutation({
+    mutationFn: (id: string) => customerService.purge(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      // Links from other customers to the purged one are removed
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      toast.success('Customer deleted permanently');
+    },
+    onError: (error) => {
+      console.error('Error purging customer:', error);
+      toast.error('Failed to delete customer');
+    }
+  });
+
+  const customers = trash?.customers || [];
+  const retentionDays = trash?.retentionDays ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 dark:from-gray-900 dark:via-indigo-950 dark:to-purple-950">
+      <main className="container max-w-5xl py-8 px-4 lg:px-8 space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/')}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to customers
+        </Button>
+
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">Trash</h1>
+          <p className="text-muted-foreground">
+            {retentionDays > 0
+              ? `Deleted customers are kept for ${retentionDays} days, then deleted permanently.`
+              : 'Deleted customers are kept until they are deleted permanently.'}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : customers.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">The trash is empty.</CardContent>
+          </Card>
+        ) : (
+          <div className="rounded-md border bg-white/80 dark:bg-gray-900/50">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Deleted by</TableHead>
+                  <TableHead>Deleted permanently</TableHead>
+                  <TableHead className="w-[120px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers.map((customer) => {
+                  const purgeDate = getTrashPurgeDate(customer.deletedAt!, retentionDays);
+                  return (
+                    <TableRow key={customer.id}>
+                      <TableCell className="font-medium">{customer.name}</TableCell>
+                      <TableCell>{customer.email}</TableCell>
+                      <TableCell title={format(customer.deletedAt!, 'PPp')}>
+                        {formatDistanceToNow(customer.deletedAt!, { addSuffix: true })}
+                      </TableCell>
+                      <TableCell>{customer.deletedBy || <span className="text-muted-foreground">Unknown</span>}</TableCell>
+                      <TableCell>{purgeDate ? format(purgeDate, 'PP') : <span className="text-muted-foreground">Never</span>}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Restore"
+                            onClick={() => restoreCustomerMutation.mutate(customer.id)}
+                            disabled={restoreCustomerMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" title="Delete permanently">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This will permanently delete {customer.name}'s record, notes and links from other customers. This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => purgeCustomerMutation.mutate(customer.id)}>
+                                  Delete permanently
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Trash;
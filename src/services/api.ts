@@ -1,5 +1,27 @@
 import axios from 'axios';
 import { toast } from 'sonner';
+import {
+  Customer,
+  CustomerBatchAction,
+  CustomerBatchError,
+  CustomerNote,
+  CustomerTag,
+  CustomerTrash,
+  CustomField,
+  fieldTypeHasOptions,
+  getTrashPurgeDate,
+  isEmptyCustomFieldValue,
+  normalizeCustomFieldOptions,
+  resolveCustomFieldDefault,
+  sortCustomerNotes,
+  sortCustomFields,
+  TRASH_RETENTION_DAYS
+} from '@/utils/data';
+import { convertCustomFieldValue, renameOptionValue } from '@/utils/fieldConversion';
+import { normalizeUniqueValue, validateCustomFieldValue } from '@/utils/validation';
+import { findTagByName, isSameTagName, normalizeTagName, sortTags } from '@/utils/tags';
+import { CustomerPage, CustomerQuery, formatCustomerSort, queryCustomers } from '@/utils/customerQuery';
+import { CustomerViewState, parseCustomerViewState, SavedView, sortSavedViews } from '@/utils/savedViews';
 
 const API_URL = 'http://localhost:5000/api';
 
@@ -71,8 +93,18 @@ api.interceptors.response.use(
   }
 );
 
+// Network errors come back from the interceptor above as an empty mock response instead
+// of failing, so the caller falls back to the mock data
+const isMockResponse = (response: object): boolean => 'isMock' in response;
+
 // Mock data for development
-const mockCustomers = [
+const mockTags: CustomerTag[] = [
+  { id: '1', name: 'newsletter', color: 'blue' },
+  { id: '2', name: 'churn-risk', color: 'red' },
+  { id: '3', name: 'met at expo', color: null }
+];
+
+const mockCustomers: Customer[] = [
   {
     id: '1',
     name: 'John Doe',
@@ -84,7 +116,13 @@ const mockCustomers = [
     customFields: [
       { id: '1', name: 'Notes', type: 'text', value: 'Some notes here' },
       { id: '2', name: 'Customer Type', type: 'select', value: 'VIP' }
-    ]
+    ],
+    tags: [
+      { id: '1', name: 'newsletter', color: 'blue' },
+      { id: '3', name: 'met at expo', color: null }
+    ],
+    createdAt: new Date('2024-01-10'),
+    updatedAt: new Date('2024-02-02')
   },
   {
     id: '2',
@@ -94,32 +132,123 @@ const mockCustomers = [
     email: 'jane.smith@example.com',
     occupation: 'Marketing Manager',
     location: 'San Francisco, CA',
-    customFields: []
+    customFields: [],
+    tags: [{ id: '2', name: 'churn-risk', color: 'red' }],
+    createdAt: new Date('2024-03-05'),
+    updatedAt: new Date('2024-03-05')
+  }
+];
+
+const mockNotes: CustomerNote[] = [
+  {
+    id: '1',
+    customerId: '1',
+    authorId: '1',
+    authorName: 'Admin User',
+    body: 'Prefers to be contacted by email. Renewal is due in the spring.',
+    pinned: true,
+    createdAt: new Date('2024-01-12T10:30:00'),
+    editedAt: null
+  },
+  {
+    id: '2',
+    customerId: '1',
+    authorId: '1',
+    authorName: 'Admin User',
+    body: 'Met at the regional expo, interested in the corporate plan.',
+    pinned: false,
+    createdAt: new Date('2024-02-02T15:00:00'),
+    editedAt: null
   }
 ];
 
+// Deleted mock customers, most recently deleted first
+const mockTrash: Customer[] = [];
+
 // Default custom fields for development - using string IDs to match database
-const mockCustomFields = [
+const mockCustomFields: CustomField[] = [
   {
     id: '1',
     name: 'Notes',
     type: 'text',
-    options: null
+    options: null,
+    position: 0,
+    section: null
   },
   {
     id: '2',
     name: 'Customer Type',
     type: 'select',
-    options: ['Regular', 'VIP', 'Corporate']
+    options: [
+      { value: 'Regular', label: 'Regular', color: 'gray' },
+      { value: 'VIP', label: 'VIP', color: 'amber' },
+      { value: 'Corporate', label: 'Corporate', color: 'blue' }
+    ],
+    position: 1,
+    section: null
   },
   {
     id: '3',
     name: 'Annual Revenue',
     type: 'number',
-    options: null
+    options: null,
+    position: 2,
+    section: null
   }
 ];
 
+// Convert a raw value stored on the server (always text) into its typed form
+const parseCustomFieldValue = (type, value) => {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (type) {
+    case 'boolean':
+      return value === true || value === 'true' || value === '1' || value === 1;
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(value);
+      return isNaN(number) ? null : number;
+    }
+    case 'multiselect':
+    case 'relation':
+      if (Array.isArray(value)) return value;
+      try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+      } catch (e) {
+        // Older values may have been saved as comma-separated text
+        return String(value).split(',').map(item => item.trim()).filter(Boolean);
+      }
+    default:
+      return value;
+  }
+};
+
+// Convert a typed custom field value into the text representation the server stores
+const serializeCustomFieldValue = (type, value) => {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (type) {
+    case 'boolean':
+      return value === true || value === 'true' ? 'true' : 'false';
+    case 'multiselect':
+    case 'relation':
+      if (!Array.isArray(value)) return JSON.stringify([String(value)]);
+      return value.length > 0 ? JSON.stringify(value) : null;
+    case 'date':
+      return value instanceof Date ? value.toISOString() : value;
+    case 'number':
+      return String(value);
+    default:
+      return value;
+  }
+};
+
+const serializeCustomFields = (customFields) =>
+  customFields.map(field => ({
+    ...field,
+    value: serializeCustomFieldValue(field.type, field.value)
+  }));
+
 // Parse custom field values from API response
 const parseCustomFields = (customer) => {
   if (!customer) {
@@ -131,6 +260,12 @@ const parseCustomFields = (customer) => {
     customFields = [];
   }
 
+  customFields = customFields.map(field => ({
+    ...field,
+    id: field.id !== undefined && field.id !== null ? field.id.toString() : field.id,
+    value: parseCustomFieldValue(field.type, field.value)
+  }));
+
   let dob = customer.dob;
   if (dob && typeof dob === 'string') {
     dob = new Date(dob);
@@ -139,25 +274,43 @@ const parseCustomFields = (customer) => {
   return {
     ...customer,
     customFields,
+    tags: parseTags(customer.tags),
     dob
   };
 };
 
-// Parse options for select fields
+// Customers in the trash also carry when they were deleted
+const parseTrashedCustomer = (customer) => ({
+  ...parseCustomFields(customer),
+  deletedAt: new Date(customer.deletedAt),
+  deletedBy: customer.deletedBy || null
+});
+
+// Note ids and dates arrive as numbers and strings from the server
+const parseNote = (note) => ({
+  ...note,
+  id: note.id.toString(),
+  customerId: note.customerId.toString(),
+  authorId: note.authorId !== null && note.authorId !== undefined ? note.authorId.toString() : null,
+  createdAt: new Date(note.createdAt),
+  editedAt: note.editedAt ? new Date(note.editedAt) : null
+});
+
+// Tag ids are strings on the client, like field ids
+const parseTag = (tag) => ({ ...tag, id: tag.id.toString() });
+
+const parseTags = (tags) => (Array.isArray(tags) ? sortTags(tags.filter(Boolean).map(parseTag)) : []);
+
+// Bring a field's options into object form; older rows and clients send JSON strings
+// or plain string arrays
 const parseCustomFieldOptions = (field) => {
   if (!field) return field;
   
   let options = field.options;
   
-  // If options is a string, try to parse it as JSON
   if (options && typeof options === 'string') {
     try {
-      // Handle comma-separated string format
-      if (options.includes(',') && !options.startsWith('[')) {
-        options = options.split(',').map(opt => opt.trim());
-      } else {
-        options = JSON.parse(options);
-      }
+      options = JSON.parse(options);
     } catch (e) {
       console.warn(`Failed to parse options for field ${field.name}:`, e);
       // Return empty array instead of throwing
@@ -167,36 +320,232 @@ const parseCustomFieldOptions = (field) => {
   
   return {
     ...field,
-    options
+    options: options ? normalizeCustomFieldOptions(options) : options
   };
 };
 
+// Apply a custom field definition change to the values held by mock customers
+const migrateMockFieldValues = (id, previousType, fieldData, dryRun = false) => {
+  const renames = fieldTypeHasOptions(previousType) ? fieldData.optionRenames || [] : [];
+  const options = normalizeCustomFieldOptions(fieldData.options);
+  const preview = { total: 0, convertible: 0, failed: 0, failures: [] };
+
+  mockCustomers.forEach(customer => {
+    const field = customer.customFields.find(cf => cf.id?.toString() === id.toString());
+    if (!field || field.value === null || field.value === undefined || field.value === '') return;
+
+    const result = convertCustomFieldValue(
+      renameOptionValue(field.value, renames),
+      previousType,
+      fieldData.type,
+      options
+    );
+    preview.total++;
+    if (result.ok) {
+      preview.convertible++;
+    } else {
+      preview.failed++;
+      preview.failures.push({ customerId: customer.id, customerName: customer.name, value: String(field.value) });
+    }
+
+    if (!dryRun) {
+      field.name = fieldData.name;
+      field.type = fieldData.type;
+      field.value = result.ok ? result.value : null;
+    }
+  });
+
+  return preview;
+};
+
+// Values of a mock field shared by several customers, like findDuplicateValues on the server
+const describeMockDuplicateValues = (id) => {
+  const holders = new Map<string, string[]>();
+  mockCustomers.forEach(customer => {
+    const field = customer.customFields.find(cf => cf.id?.toString() === id.toString());
+    if (!field || isEmptyCustomFieldValue(field.value)) return;
+    const value = String(field.value).trim();
+    holders.set(value.toLowerCase(), [...(holders.get(value.toLowerCase()) ?? []), customer.name]);
+  });
+  return [...holders.entries()]
+    .filter(([, names]) => names.length > 1)
+    .map(([value, names]) => `"${value}" is used by ${names.join(', ')}`)
+    .join('; ');
+};
+
+// Move a mock customer to the trash; links and notes stay in place so a restore brings
+// them back. False when the customer is not found.
+const trashMockCustomer = (id, author = null) => {
+  const index = mockCustomers.findIndex(c => c.id.toString() === id.toString());
+  if (index === -1) return false;
+  
+  const [deleted] = mockCustomers.splice(index, 1);
+  mockTrash.unshift({ ...deleted, deletedAt: new Date(), deletedBy: author ? author.name : null });
+  return true;
+};
+
+// Bring a mock customer back from the trash; null when it is not in the trash
+const restoreMockCustomer = (id) => {
+  const index = mockTrash.findIndex(c => c.id.toString() === id.toString());
+  if (index === -1) return null;
+  
+  const [trashed] = mockTrash.splice(index, 1);
+  const restored = { ...trashed, deletedAt: null, deletedBy: null };
+  mockCustomers.push(restored);
+  return restored;
+};
+
+// Drop a mock customer in the trash for good; false when it is not in the trash
+const purgeMockCustomer = (id) => {
+  const index = mockTrash.findIndex(c => c.id.toString() === id.toString());
+  if (index === -1) return false;
+  
+  mockTrash.splice(index, 1);
+  unlinkMockCustomer(id);
+  for (let i = mockNotes.length - 1; i >= 0; i--) {
+    if (mockNotes[i].customerId === id.toString()) mockNotes.splice(i, 1);
+  }
+  return true;
+};
+
+// Remove a deleted mock customer from the relation values of the others, or point
+// those links at `replacementId` when customers are merged
+const unlinkMockCustomer = (id, replacementId = null) => {
+  [...mockCustomers, ...mockTrash].forEach(customer => {
+    // A customer never links to itself, so the replacement's own links are dropped
+    const replacement = replacementId && customer.id.toString() !== replacementId.toString()
+      ? replacementId.toString()
+      : null;
+    customer.customFields.forEach(field => {
+      if (field.type === 'relation' && Array.isArray(field.value)) {
+        const remaining = [...new Set(
+          field.value.map(linked => (linked.toString() === id.toString() ? replacement : linked.toString()))
+        )].filter(Boolean);
+        field.value = remaining.length > 0 ? remaining : null;
+      }
+    });
+  });
+};
+
+// Tags for a mock customer; names that do not exist yet become new tags
+const resolveMockTags = (names) => {
+  const tags = [];
+  (Array.isArray(names) ? names : []).forEach(entry => {
+    const name = normalizeTagName(String(entry));
+    if (!name || findTagByName(tags, name)) return;
+    
+    let tag = findTagByName(mockTags, name);
+    if (!tag) {
+      tag = { id: nextMockTagId(), name, color: null };
+      mockTags.push(tag);
+    }
+    tags.push({ ...tag });
+  });
+  return sortTags(tags);
+};
+
+const nextMockTagId = () => String(Math.max(0, ...mockTags.map(tag => Number(tag.id) || 0)) + 1);
+
+// Mock customers hold copies of their tags; bring them in line with mockTags after a change
+const syncMockCustomerTags = () => {
+  mockCustomers.forEach((customer, index) => {
+    if (!customer.tags?.length) return;
+    mockCustomers[index] = {
+      ...customer,
+      tags: sortTags(
+        customer.tags
+          .map(tag => mockTags.find(entry => entry.id === tag.id.toString()))
+          .filter(Boolean)
+          .map(tag => ({ ...tag }))
+      )
+    };
+  });
+};
+
+// Search, tag, filter and sort parameters of GET /customers; empty ones are left out.
+// Dates are filtered by the day they fall on for the user.
+const toCustomerQueryParams = ({ search, tagIds, filter, sort }: Partial<CustomerQuery>) => ({
+  search: search || undefined,
+  tags: tagIds?.length ? tagIds.join(',') : undefined,
+  filter: filter ? JSON.stringify(filter) : undefined,
+  utcOffset: filter ? -new Date().getTimezoneOffset() : undefined,
+  sort: sort?.length ? formatCustomerSort(sort) : undefined,
+});
+
+// Customers the server changes at most in one batch request (MAX_BATCH_SIZE in server/routes/customers.js)
+const MAX_BATCH_SIZE = 1000;
+
+const activeMockCustomFields = () => mockCustomFields.filter(field => !field.archived);
+
 // Customer Service
 export const customerService = {
-  getAll: async () => {
+  // Every customer matching the search and tags of `query` (all customers without one), in its sort order
+  getAll: async (query: Partial<Omit<CustomerQuery, 'page' | 'pageSize'>> = {}) => {
     try {
-      const response = await api.get('/customers');
-      return response.data.map(customer => parseCustomFields(customer));
+      const response = await api.get('/customers', { params: toCustomerQueryParams(query) });
+      if (!isMockResponse(response)) {
+        return response.data.map(customer => parseCustomFields(customer));
+      }
     } catch (error) {
-      console.error('Error fetching customers, using mock data:', error);
-      if (shouldUseMockData()) {
-        console.log('Using mock customer data');
-        return mockCustomers;
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    console.log('Using mock customer data');
+    return queryCustomers(
+      mockCustomers,
+      { search: '', tagIds: [], sort: [], ...query, page: 1, pageSize: Math.max(mockCustomers.length, 1) },
+      activeMockCustomFields()
+    ).customers;
+  },
+  // Ids of every customer matching the search, tags and filter of `query`, on all pages
+  getIds: async (query: Partial<Omit<CustomerQuery, 'page' | 'pageSize' | 'sort'>> = {}): Promise<string[]> => {
+    try {
+      const response = await api.get('/customers/ids', { params: toCustomerQueryParams(query) });
+      if (!isMockResponse(response)) {
+        return response.data.map(String);
       }
-      throw error;
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    return queryCustomers(
+      mockCustomers,
+      { search: '', tagIds: [], ...query, sort: [], page: 1, pageSize: Math.max(mockCustomers.length, 1) },
+      activeMockCustomFields()
+    ).customers.map(customer => customer.id.toString());
+  },
+  // One page of the customers matching `query`, with the number of matching customers
+  getPage: async (query: CustomerQuery): Promise<CustomerPage> => {
+    try {
+      const response = await api.get('/customers', {
+        params: { ...toCustomerQueryParams(query), page: query.page, pageSize: query.pageSize }
+      });
+      if (!isMockResponse(response)) {
+        return {
+          ...response.data,
+          customers: response.data.customers.map(customer => parseCustomFields(customer)),
+          linkedCustomers: response.data.linkedCustomers.map(customer => ({ id: customer.id.toString(), name: customer.name }))
+        };
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
     }
+    
+    return queryCustomers(mockCustomers, query, activeMockCustomFields());
   },
   getById: async (id) => {
     try {
       const response = await api.get(`/customers/${id}`);
-      return parseCustomFields(response.data);
-    } catch (error) {
-      if (shouldUseMockData()) {
-        const mockCustomer = mockCustomers.find(c => c.id === id);
-        if (mockCustomer) return mockCustomer;
+      if (!isMockResponse(response)) {
+        return parseCustomFields(response.data);
       }
-      throw error;
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
     }
+    
+    const mockCustomer = mockCustomers.find(c => c.id.toString() === id.toString());
+    if (!mockCustomer) throw new Error(`Customer ${id} not found`);
+    return mockCustomer;
   },
   create: async (customerData) => {
     // Get all available custom fields to ensure we only send valid IDs
@@ -210,7 +559,7 @@ export const customerService = {
       console.log('Could not fetch custom fields from server, using mock data');
       // If server request fails, use mock fields
       if (shouldUseMockData()) {
-        availableCustomFields = mockCustomFields.map(field => field.id.toString());
+        availableCustomFields = mockCustomFields.filter(field => !field.archived).map(field => field.id.toString());
       }
     }
     
@@ -222,19 +571,21 @@ export const customerService = {
     
     const processedData = {
       ...customerData,
-      customFields: validCustomFields
+      customFields: serializeCustomFields(validCustomFields)
     };
     
     try {
       const response = await api.post('/customers', processedData);
       return parseCustomFields(response.data);
     } catch (error) {
-      if (shouldUseMockData()) {
+      // The server rejected the data (e.g. validation); don't hide that behind mock data
+      if (shouldUseMockData() && !error.response) {
         // Create a mock customer with an ID
         const newCustomer = {
           id: Date.now().toString(),
           ...customerData,
-          customFields: processedData.customFields,
+          customFields: validCustomFields,
+          tags: resolveMockTags(customerData.tags),
           createdAt: new Date(),
           updatedAt: new Date()
         };
@@ -256,7 +607,7 @@ export const customerService = {
       console.log('Could not fetch custom fields from server, using mock data');
       // If server request fails, use mock fields
       if (shouldUseMockData()) {
-        availableCustomFields = mockCustomFields.map(field => field.id.toString());
+        availableCustomFields = mockCustomFields.filter(field => !field.archived).map(field => field.id.toString());
       }
     }
     
@@ -268,21 +619,30 @@ export const customerService = {
     
     const processedData = {
       ...customerData,
-      customFields: validCustomFields
+      customFields: serializeCustomFields(validCustomFields)
     };
     
     try {
       const response = await api.put(`/customers/${id}`, processedData);
       return parseCustomFields(response.data);
     } catch (error) {
-      if (shouldUseMockData()) {
+      // The server rejected the data (e.g. validation); don't hide that behind mock data
+      if (shouldUseMockData() && !error.response) {
         // Update mock customer
         const index = mockCustomers.findIndex(c => c.id === id);
         if (index !== -1) {
+          // Values of archived fields are not part of the form, keep them
+          const archivedValues = mockCustomers[index].customFields.filter(field =>
+            mockCustomFields.some(f => f.id === field.id?.toString() && f.archived)
+          );
           mockCustomers[index] = {
             ...mockCustomers[index],
             ...customerData,
-            customFields: processedData.customFields,
+            customFields: [...validCustomFields, ...archivedValues],
+            // Tags are only replaced when the form sends them
+            tags: Array.isArray(customerData.tags)
+              ? resolveMockTags(customerData.tags)
+              : mockCustomers[index].tags,
             updatedAt: new Date()
           };
           return mockCustomers[index];
@@ -291,50 +651,409 @@ export const customerService = {
       throw error;
     }
   },
-  delete: async (id) => {
+  // Move a customer to the trash. The server records the user of the auth token as the
+  // one who deleted it; `author` is only used in mock mode.
+  delete: async (id, author = null) => {
     try {
-      await api.delete(`/customers/${id}`);
-      return true;
+      const response = await api.delete(`/customers/${id}`);
+      if (!isMockResponse(response)) {
+        return true;
+      }
     } catch (error) {
-      if (shouldUseMockData()) {
-        const index = mockCustomers.findIndex(c => c.id === id);
-        if (index !== -1) {
-          mockCustomers.splice(index, 1);
-        }
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    if (!trashMockCustomer(id, author)) throw new Error('Customer not found');
+    return true;
+  },
+  // Customers in the trash; those past the retention period are purged first in mock mode
+  getTrash: async (): Promise<CustomerTrash> => {
+    try {
+      const response = await api.get('/customers/trash');
+      if (!isMockResponse(response)) {
+        return {
+          retentionDays: response.data.retentionDays,
+          customers: response.data.customers.map(parseTrashedCustomer)
+        };
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const now = new Date();
+    [...mockTrash].forEach(customer => {
+      const purgeDate = getTrashPurgeDate(customer.deletedAt, TRASH_RETENTION_DAYS);
+      if (purgeDate && purgeDate <= now) purgeMockCustomer(customer.id);
+    });
+    return { retentionDays: TRASH_RETENTION_DAYS, customers: [...mockTrash] };
+  },
+  restore: async (id) => {
+    try {
+      const response = await api.post(`/customers/trash/${id}/restore`);
+      if (!isMockResponse(response)) {
+        return parseCustomFields(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const restored = restoreMockCustomer(id);
+    if (!restored) throw new Error('Customer not found in the trash');
+    return restored;
+  },
+  // Delete a customer in the trash for good, along with its notes and the links to it
+  purge: async (id) => {
+    try {
+      const response = await api.delete(`/customers/trash/${id}`);
+      if (!isMockResponse(response)) {
         return true;
       }
-      throw error;
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
     }
+    
+    if (!purgeMockCustomer(id)) throw new Error('Customer not found in the trash');
+    return true;
+  },
+  // Apply one change to many customers, in one request per MAX_BATCH_SIZE customers; resolves
+  // to the number of customers changed. Each request is all or nothing, so a failure after
+  // the first rejects with a CustomerBatchError telling how many were changed already.
+  // `author` is only used in mock mode, for deletes.
+  batch: async (ids: string[], change: CustomerBatchAction, author = null): Promise<number> => {
+    if (ids.length > MAX_BATCH_SIZE) {
+      let updated = 0;
+      for (let start = 0; start < ids.length; start += MAX_BATCH_SIZE) {
+        try {
+          updated += await customerService.batch(ids.slice(start, start + MAX_BATCH_SIZE), change, author);
+        } catch (error) {
+          if (start === 0) throw error;
+          throw new CustomerBatchError(error.response?.data?.error ?? error.message, updated, ids.length);
+        }
+      }
+      return updated;
+    }
+    
+    const payload = change.action === 'setField'
+      ? { ids, action: change.action, fieldId: change.field.id, value: serializeCustomFieldValue(change.field.type, change.value) }
+      : { ...change, ids };
+    
+    try {
+      const response = await api.post('/customers/batch', payload);
+      if (!isMockResponse(response)) {
+        return response.data.updated;
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const targets = change.action === 'restore' ? mockTrash : mockCustomers;
+    const targetIds = ids.filter(id => targets.some(c => c.id.toString() === id.toString()));
+    if (targetIds.length === 0) throw new Error('Customer not found');
+    
+    switch (change.action) {
+      case 'delete':
+        targetIds.forEach(id => trashMockCustomer(id, author));
+        break;
+      case 'restore':
+        targetIds.forEach(id => restoreMockCustomer(id));
+        break;
+      case 'setField': {
+        const { field, value } = change;
+        const message = validateCustomFieldValue(field, value);
+        if (message) throw new Error(message);
+        if (field.validation?.unique && !isEmptyCustomFieldValue(value) && targetIds.length > 1) {
+          throw new Error(`${field.name} must be unique, so it cannot be set on several customers at once`);
+        }
+        mockCustomers.forEach((customer, index) => {
+          if (!targetIds.includes(customer.id.toString())) return;
+          const otherFields = customer.customFields.filter(entry => entry.id?.toString() !== field.id.toString());
+          mockCustomers[index] = {
+            ...customer,
+            customFields: isEmptyCustomFieldValue(value)
+              ? otherFields
+              : [...otherFields, { id: field.id, name: field.name, type: field.type, value }],
+            updatedAt: new Date()
+          };
+        });
+        break;
+      }
+      case 'addTags':
+      case 'removeTags': {
+        const tags = change.action === 'addTags' ? resolveMockTags(change.tags) : [];
+        mockCustomers.forEach((customer, index) => {
+          if (!targetIds.includes(customer.id.toString())) return;
+          const current = customer.tags || [];
+          mockCustomers[index] = {
+            ...customer,
+            tags: change.action === 'addTags'
+              ? sortTags([...current, ...tags.filter(tag => !current.some(entry => entry.id === tag.id))])
+              : current.filter(tag => !change.tags.some(name => isSameTagName(name, tag.name)))
+          };
+        });
+        break;
+      }
+    }
+    return targetIds.length;
   },
   search: async (query) => {
     try {
-      const response = await api.get(`/customers/search/${query}`);
-      return response.data.map(customer => parseCustomFields(customer));
+      const response = await api.get(`/customers/search/${encodeURIComponent(query)}`);
+      if (!isMockResponse(response)) {
+        return response.data.map(customer => parseCustomFields(customer));
+      }
     } catch (error) {
-      if (shouldUseMockData()) {
-        const filtered = mockCustomers.filter(c => 
-          c.name.toLowerCase().includes(query.toLowerCase()) ||
-          c.email.toLowerCase().includes(query.toLowerCase()) ||
-          c.phone.includes(query)
-        );
-        return filtered;
+      if (!shouldUseMockData()) throw error;
+    }
+    
+    return mockCustomers.filter(c => 
+      c.name.toLowerCase().includes(query.toLowerCase()) ||
+      c.email.toLowerCase().includes(query.toLowerCase()) ||
+      c.phone.includes(query)
+    );
+  },
+  // Merge another customer (`sourceId`) into this one. `customerData` holds the values the
+  // kept record ends up with; tags are combined, notes move over, links to the merged
+  // customer point at the kept one and the merged customer is deleted.
+  merge: async (id, sourceId, customerData) => {
+    try {
+      const response = await api.post(`/customers/${id}/merge`, {
+        ...customerData,
+        sourceId,
+        customFields: serializeCustomFields(customerData.customFields || [])
+      });
+      if (!isMockResponse(response)) {
+        return parseCustomFields(response.data);
       }
-      throw error;
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const index = mockCustomers.findIndex(c => c.id.toString() === id.toString());
+    const source = mockCustomers.find(c => c.id.toString() === sourceId.toString());
+    if (index === -1 || !source || source === mockCustomers[index]) throw new Error('Customer not found');
+    
+    const kept = mockCustomers[index];
+    const keptTags = kept.tags || [];
+    mockCustomers[index] = {
+      ...kept,
+      ...customerData,
+      customFields: (customerData.customFields || []).filter(field => !isEmptyCustomFieldValue(field.value)),
+      tags: sortTags([...keptTags, ...(source.tags || []).filter(tag => !keptTags.some(entry => entry.id === tag.id))]),
+      updatedAt: new Date()
+    };
+    mockNotes.forEach((note, noteIndex) => {
+      if (note.customerId === source.id.toString()) {
+        mockNotes[noteIndex] = { ...note, customerId: kept.id.toString() };
+      }
+    });
+    mockCustomers.splice(mockCustomers.indexOf(source), 1);
+    unlinkMockCustomer(source.id, kept.id);
+    
+    return mockCustomers.find(c => c.id.toString() === id.toString());
+  },
+  // The customer's timeline: pinned notes first, then newest first
+  getNotes: async (customerId) => {
+    try {
+      const response = await api.get(`/customers/${customerId}/notes`);
+      if (!isMockResponse(response)) {
+        return response.data.map(parseNote);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    return sortCustomerNotes(mockNotes.filter(note => note.customerId === customerId.toString()));
+  },
+  // The server attributes notes to the user of the auth token; `author` is only used in mock mode
+  addNote: async (customerId, body, author) => {
+    try {
+      const response = await api.post(`/customers/${customerId}/notes`, { body });
+      if (!isMockResponse(response)) {
+        return parseNote(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
     }
+    
+    const note = {
+      id: String(Math.max(0, ...mockNotes.map(entry => Number(entry.id) || 0)) + 1),
+      customerId: customerId.toString(),
+      authorId: author.id.toString(),
+      authorName: author.name,
+      body: body.trim(),
+      pinned: false,
+      createdAt: new Date(),
+      editedAt: null
+    };
+    mockNotes.push(note);
+    return note;
+  },
+  updateNote: async (customerId, noteId, body, author) => {
+    try {
+      const response = await api.put(`/customers/${customerId}/notes/${noteId}`, { body });
+      if (!isMockResponse(response)) {
+        return parseNote(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const index = mockNotes.findIndex(entry => entry.id === noteId.toString());
+    if (index === -1) throw new Error('Note not found');
+    if (mockNotes[index].authorId !== author.id.toString()) throw new Error('Only the author can edit this note');
+    mockNotes[index] = { ...mockNotes[index], body: body.trim(), editedAt: new Date() };
+    return mockNotes[index];
+  },
+  pinNote: async (customerId, noteId, pinned) => {
+    try {
+      const response = await api.post(`/customers/${customerId}/notes/${noteId}/pin`, { pinned });
+      if (!isMockResponse(response)) {
+        return parseNote(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const index = mockNotes.findIndex(entry => entry.id === noteId.toString());
+    if (index === -1) throw new Error('Note not found');
+    mockNotes[index] = { ...mockNotes[index], pinned };
+    return mockNotes[index];
+  },
+  deleteNote: async (customerId, noteId, author) => {
+    try {
+      const response = await api.delete(`/customers/${customerId}/notes/${noteId}`);
+      if (!isMockResponse(response)) {
+        return true;
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const index = mockNotes.findIndex(entry => entry.id === noteId.toString());
+    if (index === -1) throw new Error('Note not found');
+    if (mockNotes[index].authorId !== author.id.toString()) throw new Error('Only the author can delete this note');
+    mockNotes.splice(index, 1);
+    return true;
+  },
+  // Every tag with the number of customers carrying it, sorted by name
+  getTags: async () => {
+    try {
+      const response = await api.get('/tags');
+      if (!isMockResponse(response)) {
+        return parseTags(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData()) throw error;
+    }
+    
+    return sortTags(mockTags.map(tag => ({
+      ...tag,
+      customers: mockCustomers.filter(customer => customer.tags?.some(entry => entry.id === tag.id)).length
+    })));
+  },
+  createTag: async (tagData) => {
+    try {
+      const response = await api.post('/tags', tagData);
+      if (!isMockResponse(response)) {
+        return parseTag(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const name = normalizeTagName(tagData.name || '');
+    if (!name) throw new Error('Tag name is required');
+    if (findTagByName(mockTags, name)) throw new Error(`A tag named "${name}" already exists`);
+    
+    const tag = { id: nextMockTagId(), name, color: tagData.color || null };
+    mockTags.push(tag);
+    return { ...tag, customers: 0 };
+  },
+  // Rename or recolor a tag; customers keep carrying it
+  updateTag: async (id, tagData) => {
+    try {
+      const response = await api.put(`/tags/${id}`, tagData);
+      if (!isMockResponse(response)) {
+        return parseTag(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const tag = mockTags.find(entry => entry.id === id.toString());
+    if (!tag) throw new Error('Tag not found');
+    const name = normalizeTagName(tagData.name || '');
+    if (!name) throw new Error('Tag name is required');
+    if (mockTags.some(entry => entry.id !== tag.id && isSameTagName(entry.name, name))) {
+      throw new Error(`A tag named "${name}" already exists; merge the tags instead`);
+    }
+    
+    tag.name = name;
+    if (tagData.color !== undefined) tag.color = tagData.color || null;
+    syncMockCustomerTags();
+    return { ...tag };
+  },
+  // Move every customer of a tag onto another tag and delete the first one
+  mergeTags: async (id, targetId) => {
+    try {
+      const response = await api.post(`/tags/${id}/merge`, { targetId });
+      if (!isMockResponse(response)) {
+        return parseTag(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const sourceIndex = mockTags.findIndex(tag => tag.id === id.toString());
+    const target = mockTags.find(tag => tag.id === targetId.toString());
+    if (sourceIndex === -1 || !target) throw new Error('Tag not found');
+    if (mockTags[sourceIndex] === target) throw new Error('Choose another tag to merge into');
+    
+    mockCustomers.forEach(customer => {
+      if (customer.tags?.some(tag => tag.id === id.toString()) && !customer.tags.some(tag => tag.id === target.id)) {
+        customer.tags = [...customer.tags, { ...target }];
+      }
+    });
+    mockTags.splice(sourceIndex, 1);
+    syncMockCustomerTags();
+    return { ...target };
+  },
+  // Delete a tag and remove it from every customer
+  deleteTag: async (id) => {
+    try {
+      const response = await api.delete(`/tags/${id}`);
+      if (!isMockResponse(response)) {
+        return true;
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const index = mockTags.findIndex(tag => tag.id === id.toString());
+    if (index !== -1) {
+      mockTags.splice(index, 1);
+    }
+    syncMockCustomerTags();
+    return true;
   }
 };
 
 // Custom Fields Service
 export const customFieldService = {
-  getAll: async () => {
+  // Archived fields are left out unless `includeArchived` is set
+  getAll: async ({ includeArchived = false } = {}) => {
+    const visibleMockFields = () => sortCustomFields(
+      includeArchived ? mockCustomFields : mockCustomFields.filter(field => !field.archived)
+    );
+    
     try {
       // Always check if we should use mock data first to avoid unnecessary API calls
       if (shouldUseMockData()) {
         console.log('Using default custom fields');
-        return mockCustomFields;
+        return visibleMockFields();
       }
       
-      const response = await api.get('/custom-fields');
+      const response = await api.get('/custom-fields', { params: { includeArchived } });
       
       // Map and validate each field
       const parsedFields = response.data.map((field) => {
@@ -357,21 +1076,47 @@ export const customFieldService = {
         parsedFields.forEach(field => mockCustomFields.push(field));
       }
       
-      return parsedFields;
+      return sortCustomFields(parsedFields);
     } catch (error) {
       console.error('Error fetching custom fields, using default fields:', error);
       
       // Fallback to mock data if there's an error
       console.log('Using default custom fields');
-      return mockCustomFields;
+      return visibleMockFields();
+    }
+  },
+  // Persist the order and section of every field; `fields` is the full list in display order
+  reorder: async (fields) => {
+    const order = fields.map((field, index) => ({
+      id: field.id,
+      position: index,
+      section: field.section || null
+    }));
+    
+    try {
+      await api.put('/custom-fields/order', { fields: order });
+    } catch (error) {
+      console.error('Error reordering custom fields:', error);
+      if (!shouldUseMockData()) throw error;
     }
+    
+    // Keep mock data in the same order
+    order.forEach(entry => {
+      const field = mockCustomFields.find(f => f.id === entry.id.toString());
+      if (field) {
+        field.position = entry.position;
+        field.section = entry.section;
+      }
+    });
+    
+    return order;
   },
   create: async (fieldData) => {
     try {
       // Ensure options is properly formatted for the server
       const processedData = { ...fieldData };
       
-      if (processedData.type === 'select' && Array.isArray(processedData.options)) {
+      if (fieldTypeHasOptions(processedData.type) && Array.isArray(processedData.options)) {
         // Convert array to JSON string for server
         processedData.options = JSON.stringify(processedData.options);
       }
@@ -398,6 +1143,7 @@ export const customFieldService = {
         const newField = {
           ...fieldData,
           id: Date.now().toString(),
+          position: mockCustomFields.length,
         };
         mockCustomFields.push(newField);
         return newField;
@@ -410,7 +1156,7 @@ export const customFieldService = {
       // Ensure options is properly formatted for the server
       const processedData = { ...fieldData };
       
-      if (processedData.type === 'select' && Array.isArray(processedData.options)) {
+      if (fieldTypeHasOptions(processedData.type) && Array.isArray(processedData.options)) {
         // Convert array to JSON string for server
         processedData.options = JSON.stringify(processedData.options);
       }
@@ -435,17 +1181,155 @@ export const customFieldService = {
       return updatedField;
     } catch (error) {
       console.error('Error updating custom field:', error);
-      if (shouldUseMockData()) {
+      if (shouldUseMockData() && !error.response) {
         // Update the mock field
         const index = mockCustomFields.findIndex(f => f.id === id.toString());
         if (index !== -1) {
-          mockCustomFields[index] = { ...mockCustomFields[index], ...fieldData };
+          const duplicates = fieldData.validation?.unique && !mockCustomFields[index].validation?.unique
+            ? describeMockDuplicateValues(id)
+            : '';
+          if (duplicates) {
+            throw new Error(`${fieldData.name} cannot be made unique while customers share a value: ${duplicates}`);
+          }
+          const { optionRenames, ...definition } = fieldData;
+          migrateMockFieldValues(id, mockCustomFields[index].type, fieldData);
+          mockCustomFields[index] = { ...mockCustomFields[index], ...definition };
           return mockCustomFields[index];
         }
       }
       throw error;
     }
   },
+  // Dry run of a definition change, reporting how many stored values convert cleanly
+  previewChange: async (id, fieldData) => {
+    try {
+      const processedData = { ...fieldData };
+      
+      if (fieldTypeHasOptions(processedData.type) && Array.isArray(processedData.options)) {
+        processedData.options = JSON.stringify(processedData.options);
+      }
+      
+      const response = await api.post(`/custom-fields/${id}/preview`, processedData);
+      if (response.data && typeof response.data.total === 'number') {
+        return response.data;
+      }
+    } catch (error) {
+      if (!shouldUseMockData()) throw error;
+    }
+    
+    const field = mockCustomFields.find(f => f.id === id.toString());
+    return migrateMockFieldValues(id, field ? field.type : fieldData.type, fieldData, true);
+  },
+  archive: async (id) => {
+    try {
+      const response = await api.post(`/custom-fields/${id}/archive`);
+      return { ...parseCustomFieldOptions(response.data), id: response.data.id.toString() };
+    } catch (error) {
+      console.error('Error archiving custom field:', error);
+      const field = mockCustomFields.find(f => f.id === id.toString());
+      if (shouldUseMockData() && field) {
+        field.archived = true;
+        field.archivedAt = new Date().toISOString();
+        return field;
+      }
+      throw error;
+    }
+  },
+  restore: async (id) => {
+    try {
+      const response = await api.post(`/custom-fields/${id}/restore`);
+      return { ...parseCustomFieldOptions(response.data), id: response.data.id.toString() };
+    } catch (error) {
+      console.error('Error restoring custom field:', error);
+      const field = mockCustomFields.find(f => f.id === id.toString());
+      if (shouldUseMockData() && field) {
+        field.archived = false;
+        field.archivedAt = null;
+        field.position = Math.max(-1, ...mockCustomFields.map(f => f.position ?? 0)) + 1;
+        return field;
+      }
+      throw error;
+    }
+  },
+  // Number of customers that hold a value for the field, and how many have none; `trashed`
+  // counts the customers in the trash holding a value
+  getUsage: async (id) => {
+    try {
+      const response = await api.get(`/custom-fields/${id}/usage`);
+      if (typeof response.data?.customers === 'number') {
+        return response.data;
+      }
+    } catch (error) {
+      if (!shouldUseMockData()) throw error;
+    }
+    
+    const holdsValue = (customer: Customer) => customer.customFields.some(field =>
+      field.id?.toString() === id.toString() && !isEmptyCustomFieldValue(field.value)
+    );
+    const customers = mockCustomers.filter(holdsValue).length;
+    return { customers, missing: mockCustomers.length - customers, trashed: mockTrash.filter(holdsValue).length };
+  },
+  // Another customer already holding this value of a unique field, or null
+  findConflict: async (id, value, customerId = null) => {
+    if (isEmptyCustomFieldValue(value)) return null;
+    const text = String(value).trim();
+    
+    try {
+      const response = await api.get(`/custom-fields/${id}/conflict`, {
+        params: { value: text, customerId: customerId || undefined }
+      });
+      if (response.data && 'conflict' in response.data) {
+        return response.data.conflict;
+      }
+    } catch (error) {
+      if (!shouldUseMockData()) throw error;
+    }
+    
+    const normalized = normalizeUniqueValue(text);
+    // Customers in the trash keep their values, since they may be restored
+    const match = [...mockCustomers, ...mockTrash].find(customer =>
+      customer.id !== customerId &&
+      customer.customFields.some(field =>
+        field.id?.toString() === id.toString() &&
+        !isEmptyCustomFieldValue(field.value) &&
+        normalizeUniqueValue(field.value) === normalized
+      )
+    );
+    return match ? { customerId: match.id, customerName: match.name, inTrash: !!match.deletedAt } : null;
+  },
+  // Fill the field's default value into every customer that has no value yet
+  backfill: async (id) => {
+    try {
+      const response = await api.post(`/custom-fields/${id}/backfill`);
+      if (typeof response.data?.updated === 'number') {
+        return response.data;
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    const field = mockCustomFields.find(f => f.id === id.toString());
+    if (field?.validation?.unique) {
+      throw new Error('Values of a unique field cannot all be set to the same default');
+    }
+    const value = field ? resolveCustomFieldDefault(field) : null;
+    if (isEmptyCustomFieldValue(value)) {
+      throw new Error('The field has no default value to fill in');
+    }
+    
+    let updated = 0;
+    mockCustomers.forEach(customer => {
+      const existing = customer.customFields.find(cf => cf.id?.toString() === field.id);
+      if (existing && !isEmptyCustomFieldValue(existing.value)) return;
+      customer.customFields = [
+        ...customer.customFields.filter(cf => cf.id?.toString() !== field.id),
+        { id: field.id, name: field.name, type: field.type, value }
+      ];
+      updated++;
+    });
+    return { updated };
+  },
+  // Permanently delete a field and all of its values (the field must be archived first)
   delete: async (id) => {
     if (!id) {
       throw new Error('Field ID is required');
@@ -463,8 +1347,8 @@ export const customFieldService = {
         }
       }
       
-      // Also remove this field from all mock customers to maintain consistency
-      mockCustomers.forEach(customer => {
+      // Also remove this field from all mock customers, including those in the trash, to maintain consistency
+      [...mockCustomers, ...mockTrash].forEach(customer => {
         customer.customFields = customer.customFields.filter(field => field.id !== id.toString());
       });
 
@@ -479,8 +1363,8 @@ export const customFieldService = {
         if (index !== -1) {
           mockCustomFields.splice(index, 1);
           
-          // Also remove this field from all mock customers
-          mockCustomers.forEach(customer => {
+          // Also remove this field from all mock customers, including those in the trash
+          [...mockCustomers, ...mockTrash].forEach(customer => {
             customer.customFields = customer.customFields.filter(field => field.id !== id.toString());
           });
         }
@@ -491,6 +1375,216 @@ export const customFieldService = {
   }
 };
 
+// Mock mode keeps preferences in localStorage, per logged-in user
+const mockPreferenceKey = (key) => {
+  let userId = 'anonymous';
+  try {
+    userId = JSON.parse(localStorage.getItem('auth_user') || 'null')?.id ?? userId;
+  } catch (error) {
+    // Fall back to the shared key
+  }
+  return `preference_${userId}_${key}`;
+};
+
+// Settings of the current user, such as the customer table layout, saved as JSON under a key
+export const preferenceService = {
+  // Resolves to null when the preference was never saved
+  get: async (key: string): Promise<unknown> => {
+    try {
+      const response = await api.get(`/preferences/${key}`);
+      if (!isMockResponse(response)) {
+        return response.data.value;
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    try {
+      return JSON.parse(localStorage.getItem(mockPreferenceKey(key)) || 'null');
+    } catch (error) {
+      return null;
+    }
+  },
+  set: async (key: string, value: unknown): Promise<unknown> => {
+    try {
+      const response = await api.put(`/preferences/${key}`, { value });
+      if (!isMockResponse(response)) {
+        return response.data.value;
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+    
+    localStorage.setItem(mockPreferenceKey(key), JSON.stringify(value));
+    return value;
+  }
+};
+
+// View ids and dates arrive as numbers and strings from the server
+const parseSavedView = (view): SavedView => ({
+  ...view,
+  id: view.id.toString(),
+  ownerId: view.ownerId.toString(),
+  state: parseCustomerViewState(view.state),
+  createdAt: new Date(view.createdAt),
+  updatedAt: new Date(view.updatedAt)
+});
+
+// Mock mode keeps every user's views in localStorage, so views shared in one login show up in another
+const MOCK_VIEWS_KEY = 'mock_saved_views';
+const MOCK_DEFAULT_VIEWS_KEY = 'mock_default_views';
+
+interface MockSavedView {
+  id: string;
+  name: string;
+  shared: boolean;
+  ownerId: string;
+  ownerName: string;
+  state: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const readMockStore = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+  } catch (error) {
+    return fallback;
+  }
+};
+
+const mockViewFor = (view: MockSavedView, user): SavedView => parseSavedView({
+  ...view,
+  isOwner: view.ownerId === user.id.toString(),
+  isDefault: readMockStore<Record<string, string>>(MOCK_DEFAULT_VIEWS_KEY, {})[user.id] === view.id
+});
+
+// The mock view with that id the user can see, and all mock views
+const findMockView = (id, user) => {
+  const views = readMockStore<MockSavedView[]>(MOCK_VIEWS_KEY, []);
+  const view = views.find(entry => entry.id === id.toString() && (entry.shared || entry.ownerId === user.id.toString()));
+  if (!view) throw new Error('View not found');
+  return { view, views };
+};
+
+const checkMockViewName = (views: MockSavedView[], name: string, user, excludeId: string | null = null) => {
+  const text = name.trim().replace(/\s+/g, ' ');
+  if (!text) throw new Error('View name is required');
+  if (views.some(view => view.ownerId === user.id.toString() && view.name === text && view.id !== excludeId)) {
+    throw new Error(`You already have a view named "${text}"`);
+  }
+  return text;
+};
+
+// Named views of the customer list. The server knows the user from the auth token;
+// `user` is only used in mock mode.
+export const viewService = {
+  // The user's own views and those shared by the rest of the team
+  getAll: async (user): Promise<SavedView[]> => {
+    try {
+      const response = await api.get('/views');
+      if (!isMockResponse(response)) {
+        return sortSavedViews(response.data.map(parseSavedView));
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+
+    return sortSavedViews(readMockStore<MockSavedView[]>(MOCK_VIEWS_KEY, [])
+      .filter(view => view.shared || view.ownerId === user.id.toString())
+      .map(view => mockViewFor(view, user)));
+  },
+  create: async (view: { name: string; shared: boolean; state: CustomerViewState }, user): Promise<SavedView> => {
+    try {
+      const response = await api.post('/views', view);
+      if (!isMockResponse(response)) {
+        return parseSavedView(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+
+    const views = readMockStore<MockSavedView[]>(MOCK_VIEWS_KEY, []);
+    const now = new Date().toISOString();
+    const created: MockSavedView = {
+      id: String(Math.max(0, ...views.map(entry => Number(entry.id) || 0)) + 1),
+      name: checkMockViewName(views, view.name, user),
+      shared: view.shared,
+      ownerId: user.id.toString(),
+      ownerName: user.name,
+      state: view.state,
+      createdAt: now,
+      updatedAt: now
+    };
+    localStorage.setItem(MOCK_VIEWS_KEY, JSON.stringify([...views, created]));
+    return mockViewFor(created, user);
+  },
+  // Rename, share or overwrite a view; only its owner may
+  update: async (
+    id: string,
+    changes: Partial<{ name: string; shared: boolean; state: CustomerViewState }>,
+    user
+  ): Promise<SavedView> => {
+    try {
+      const response = await api.put(`/views/${id}`, changes);
+      if (!isMockResponse(response)) {
+        return parseSavedView(response.data);
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+
+    const { view, views } = findMockView(id, user);
+    if (view.ownerId !== user.id.toString()) throw new Error('Only the owner can change this view');
+    const updated: MockSavedView = {
+      ...view,
+      ...changes,
+      name: changes.name !== undefined ? checkMockViewName(views, changes.name, user, view.id) : view.name,
+      updatedAt: new Date().toISOString()
+    };
+    localStorage.setItem(MOCK_VIEWS_KEY, JSON.stringify(views.map(entry => entry.id === view.id ? updated : entry)));
+    if (changes.shared === false) {
+      const defaults = readMockStore<Record<string, string>>(MOCK_DEFAULT_VIEWS_KEY, {});
+      localStorage.setItem(MOCK_DEFAULT_VIEWS_KEY, JSON.stringify(Object.fromEntries(Object.entries(defaults)
+        .filter(([userId, viewId]) => viewId !== view.id || userId === user.id.toString()))));
+    }
+    return mockViewFor(updated, user);
+  },
+  delete: async (id: string, user) => {
+    try {
+      const response = await api.delete(`/views/${id}`);
+      if (!isMockResponse(response)) {
+        return true;
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+
+    const { view, views } = findMockView(id, user);
+    if (view.ownerId !== user.id.toString()) throw new Error('Only the owner can delete this view');
+    localStorage.setItem(MOCK_VIEWS_KEY, JSON.stringify(views.filter(entry => entry.id !== view.id)));
+    return true;
+  },
+  // The view the user's customer list opens with; null opens the plain list
+  setDefault: async (id: string | null, user) => {
+    try {
+      const response = await api.put('/views/default', { viewId: id });
+      if (!isMockResponse(response)) {
+        return true;
+      }
+    } catch (error) {
+      if (!shouldUseMockData() || error.response) throw error;
+    }
+
+    if (id !== null) findMockView(id, user);
+    const defaults = readMockStore<Record<string, string>>(MOCK_DEFAULT_VIEWS_KEY, {});
+    if (id === null) delete defaults[user.id];
+    else defaults[user.id] = id.toString();
+    localStorage.setItem(MOCK_DEFAULT_VIEWS_KEY, JSON.stringify(defaults));
+    return true;
+  }
+};
+
 // Auth Service
 export const authService = {
   login: async (email, password) => {
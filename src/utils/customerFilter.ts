@@ -0,0 +1,262 @@
+import { format } from 'date-fns';
+import {
+  Customer,
+  CustomField,
+  CustomFieldOption,
+  CustomFieldValue,
+  fieldTypeHasOptions,
+  isEmptyCustomFieldValue
+} from '@/utils/data';
+
+// Mirrors server/utils/customerFilter.js
+
+export type CustomerFilterOperator =
+  | 'equals'
+  | 'contains'
+  | 'before'
+  | 'after'
+  | 'between'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'inList';
+
+export interface CustomerFilterCondition {
+  kind: 'condition';
+  field: string; // A built-in field key or `custom:<field id>`, like the table columns
+  operator: CustomerFilterOperator;
+  value?: string | string[]; // A [from, to] pair for `between` and several values for `inList`
+}
+
+// Conditions that must all (`and`) or only some (`or`) hold; groups can hold groups
+export interface CustomerFilterGroup {
+  kind: 'group';
+  combinator: 'and' | 'or';
+  conditions: CustomerFilterNode[];
+}
+
+export type CustomerFilterNode = CustomerFilterCondition | CustomerFilterGroup;
+
+export const EMPTY_CUSTOMER_FILTER: CustomerFilterGroup = { kind: 'group', combinator: 'and', conditions: [] };
+
+// How a field's values are compared; decides the operators offered for it
+export type CustomerFilterValueKind = 'text' | 'number' | 'date' | 'option' | 'options' | 'boolean' | 'link';
+
+export interface CustomerFilterField {
+  id: string; // As in CustomerFilterCondition.field
+  name: string;
+  kind: CustomerFilterValueKind;
+  options?: CustomFieldOption[]; // Select and multiselect fields
+}
+
+export const CUSTOMER_FILTER_OPERATORS: Record<CustomerFilterValueKind, CustomerFilterOperator[]> = {
+  text: ['contains', 'equals', 'inList', 'isEmpty', 'isNotEmpty'],
+  number: ['equals', 'before', 'after', 'between', 'isEmpty', 'isNotEmpty'],
+  date: ['equals', 'before', 'after', 'between', 'isEmpty', 'isNotEmpty'],
+  option: ['equals', 'inList', 'isEmpty', 'isNotEmpty'],
+  options: ['contains', 'inList', 'isEmpty', 'isNotEmpty'],
+  boolean: ['equals'],
+  link: ['isEmpty', 'isNotEmpty'],
+};
+
+const OPERATOR_LABELS: Record<CustomerFilterOperator, string> = {
+  equals: 'is',
+  contains: 'contains',
+  before: 'is before',
+  after: 'is after',
+  between: 'is between',
+  isEmpty: 'is empty',
+  isNotEmpty: 'is not empty',
+  inList: 'is any of',
+};
+
+// Numbers are compared by size rather than time, and multiselect values hold options
+export const getFilterOperatorLabel = (operator: CustomerFilterOperator, kind: CustomerFilterValueKind): string => {
+  if (kind === 'number' && operator === 'before') return 'is less than';
+  if (kind === 'number' && operator === 'after') return 'is greater than';
+  if (kind === 'options' && operator === 'contains') return 'has';
+  if (kind === 'options' && operator === 'inList') return 'has any of';
+  return OPERATOR_LABELS[operator];
+};
+
+const BASE_FILTER_FIELDS: CustomerFilterField[] = [
+  { id: 'name', name: 'Name', kind: 'text' },
+  { id: 'dob', name: 'Date of Birth', kind: 'date' },
+  { id: 'phone', name: 'Phone', kind: 'text' },
+  { id: 'email', name: 'Email', kind: 'text' },
+  { id: 'occupation', name: 'Occupation', kind: 'text' },
+  { id: 'location', name: 'Location', kind: 'text' },
+];
+
+const FIELD_TYPE_KINDS: Record<string, CustomerFilterValueKind> = {
+  number: 'number',
+  date: 'date',
+  select: 'option',
+  multiselect: 'options',
+  boolean: 'boolean',
+  relation: 'link',
+};
+
+// The built-in fields and every custom field but formulas, whose values are computed in the browser
+export const getCustomerFilterFields = (customFields: CustomField[]): CustomerFilterField[] => [
+  ...BASE_FILTER_FIELDS,
+  ...customFields
+    .filter(field => field.type !== 'formula')
+    .map(field => ({
+      id: `custom:${field.id}`,
+      name: field.name,
+      kind: FIELD_TYPE_KINDS[field.type] || 'text',
+      options: fieldTypeHasOptions(field.type) ? field.options || [] : undefined,
+    })),
+];
+
+const toList = (value: CustomerFilterCondition['value']): string[] =>
+  (Array.isArray(value) ? value : value === undefined ? [] : [value]).map(entry => String(entry).trim());
+
+// Whether a condition has the values its operator needs
+export const isCompleteFilterCondition = (condition: CustomerFilterCondition): boolean => {
+  const values = toList(condition.value);
+  switch (condition.operator) {
+    case 'isEmpty':
+    case 'isNotEmpty':
+      return true;
+    case 'between':
+      return values.length === 2 && values.every(Boolean);
+    case 'inList':
+      return values.some(Boolean);
+    default:
+      return values.length === 1 && !!values[0];
+  }
+};
+
+/**
+ * The part of a filter that can be applied: conditions on fields that no longer exist, with
+ * operators their field does not offer or with missing values are dropped, and so are groups
+ * left empty. Null when nothing is left.
+ */
+export const pruneCustomerFilter = (
+  group: CustomerFilterGroup,
+  fields: CustomerFilterField[]
+): CustomerFilterGroup | null => {
+  const conditions = group.conditions
+    .map((node): CustomerFilterNode | null => {
+      if (node.kind === 'group') return pruneCustomerFilter(node, fields);
+      const field = fields.find(entry => entry.id === node.field);
+      if (!field || !CUSTOMER_FILTER_OPERATORS[field.kind].includes(node.operator)) return null;
+      return isCompleteFilterCondition(node) ? node : null;
+    })
+    .filter((node): node is CustomerFilterNode => node !== null);
+  return conditions.length > 0 ? { ...group, conditions } : null;
+};
+
+const FILTER_OPERATORS = new Set<string>(Object.keys(OPERATOR_LABELS));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turn a stored filter (or null) into a well-formed group, for filters kept in saved views.
+ * Malformed entries are dropped; whether fields and values fit is left to pruneCustomerFilter.
+ */
+export const parseCustomerFilterGroup = (value: unknown): CustomerFilterGroup => {
+  const parseNode = (node: unknown): CustomerFilterNode | null => {
+    if (!isRecord(node)) return null;
+    if (node.kind === 'group') return parseCustomerFilterGroup(node);
+    if (node.kind !== 'condition' || typeof node.field !== 'string' || !FILTER_OPERATORS.has(String(node.operator))) {
+      return null;
+    }
+    const values = node.value;
+    return {
+      kind: 'condition',
+      field: node.field,
+      operator: node.operator as CustomerFilterOperator,
+      value: Array.isArray(values) ? values.map(String) : typeof values === 'string' ? values : undefined,
+    };
+  };
+
+  if (!isRecord(value) || value.kind !== 'group') return EMPTY_CUSTOMER_FILTER;
+  return {
+    kind: 'group',
+    combinator: value.combinator === 'or' ? 'or' : 'and',
+    conditions: Array.isArray(value.conditions)
+      ? value.conditions.map(parseNode).filter((node): node is CustomerFilterNode => node !== null)
+      : [],
+  };
+};
+
+// Conditions in a filter, those in nested groups included
+export const countFilterConditions = (group: CustomerFilterGroup): number =>
+  group.conditions.reduce((count, node) => count + (node.kind === 'group' ? countFilterConditions(node) : 1), 0);
+
+// Dates are compared by the calendar day they fall on here
+const toDay = (value: CustomFieldValue | undefined): string | null => {
+  if (isEmptyCustomFieldValue(value)) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : format(date, 'yyyy-MM-dd');
+};
+
+const getFilterValue = (customer: Customer, fieldId: string): CustomFieldValue | undefined => {
+  if (!fieldId.startsWith('custom:')) return customer[fieldId as keyof Customer] as CustomFieldValue | undefined;
+  const id = fieldId.slice('custom:'.length);
+  return customer.customFields.find(entry => entry.id?.toString() === id)?.value;
+};
+
+const matchesCondition = (customer: Customer, condition: CustomerFilterCondition, field: CustomerFilterField): boolean => {
+  const value = getFilterValue(customer, condition.field);
+  const values = toList(condition.value);
+  const empty = isEmptyCustomFieldValue(value);
+
+  if (condition.operator === 'isEmpty') return empty;
+  if (condition.operator === 'isNotEmpty') return !empty;
+  if (field.kind === 'boolean') {
+    const checked = value === true || value === 'true' || value === '1';
+    return values[0] === 'true' ? checked : !checked;
+  }
+  if (empty) return false;
+
+  switch (field.kind) {
+    case 'number': {
+      const number = Number(value);
+      const [first, second] = values.map(Number);
+      if (condition.operator === 'equals') return number === first;
+      if (condition.operator === 'before') return number < first;
+      if (condition.operator === 'after') return number > first;
+      return number >= first && number <= second;
+    }
+    case 'date': {
+      const day = toDay(value);
+      if (!day) return false;
+      if (condition.operator === 'equals') return day === values[0];
+      if (condition.operator === 'before') return day < values[0];
+      if (condition.operator === 'after') return day > values[0];
+      return day >= values[0] && day <= values[1];
+    }
+    case 'options': {
+      const selected = (Array.isArray(value) ? value : [value]).map(String);
+      return values.some(entry => selected.includes(entry));
+    }
+    default: {
+      // Text is compared regardless of case, like the database does
+      const text = String(value).toLowerCase();
+      const lowered = values.map(entry => entry.toLowerCase());
+      if (condition.operator === 'contains') return text.includes(lowered[0]);
+      return lowered.includes(text);
+    }
+  }
+};
+
+/**
+ * Whether a customer matches a pruned filter, the way the server evaluates it. Used with
+ * the mock data.
+ */
+export const matchesCustomerFilter = (
+  customer: Customer,
+  group: CustomerFilterGroup,
+  fields: CustomerFilterField[]
+): boolean => {
+  const matches = (node: CustomerFilterNode): boolean => {
+    if (node.kind === 'group') return matchesCustomerFilter(customer, node, fields);
+    const field = fields.find(entry => entry.id === node.field);
+    return !!field && matchesCondition(customer, node, field);
+  };
+  return group.combinator === 'and' ? group.conditions.every(matches) : group.conditions.some(matches);
+};
@@ -0,0 +1,76 @@
+import type { SortingState } from '@tanstack/react-table';
+import { CustomerFilterGroup, EMPTY_CUSTOMER_FILTER, parseCustomerFilterGroup } from '@/utils/customerFilter';
+import {
+  CUSTOMER_PAGE_SIZES,
+  DEFAULT_CUSTOMER_PAGE_SIZE,
+  formatCustomerSort,
+  parseCustomerSort
+} from '@/utils/customerQuery';
+
+// What the customer list shows, as kept in the query string of its address so it can be
+// linked to and stepped through with back and forward
+export interface CustomerListParams {
+  search: string;
+  tagIds: string[];
+  filter: CustomerFilterGroup; // As applied in the filter builder, before pruning
+  sorting: SortingState | null; // null sorts like the user's table layout
+  viewMode: 'list' | 'grid';
+  page: number; // Starts at 1
+  pageSize: number;
+}
+
+// Query string keys of the list; each is left out while it holds the default
+const PARAM_KEYS = ['q', 'tags', 'filter', 'sort', 'view', 'page', 'size'];
+
+const parseFilterParam = (value: string | null): CustomerFilterGroup => {
+  if (!value) return EMPTY_CUSTOMER_FILTER;
+  try {
+    return parseCustomerFilterGroup(JSON.parse(value));
+  } catch (error) {
+    return EMPTY_CUSTOMER_FILTER;
+  }
+};
+
+const parsePositiveInteger = (value: string | null): number | null => {
+  const number = Number(value);
+  return value && Number.isInteger(number) && number > 0 ? number : null;
+};
+
+// Read the list from a query string; missing or malformed values fall back to the default
+export const readCustomerListParams = (params: URLSearchParams): CustomerListParams => {
+  const pageSize = parsePositiveInteger(params.get('size'));
+  const sort = params.get('sort');
+
+  return {
+    search: params.get('q') ?? '',
+    tagIds: (params.get('tags') ?? '').split(',').filter(Boolean),
+    filter: parseFilterParam(params.get('filter')),
+    sorting: sort === null ? null : parseCustomerSort(sort),
+    viewMode: params.get('view') === 'list' ? 'list' : 'grid',
+    page: parsePositiveInteger(params.get('page')) ?? 1,
+    pageSize: pageSize && CUSTOMER_PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_CUSTOMER_PAGE_SIZE,
+  };
+};
+
+// The query string with the list written into it; other parameters are kept
+export const writeCustomerListParams = (list: CustomerListParams, params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const values: Record<string, string | null> = {
+    q: list.search || null,
+    tags: list.tagIds.length > 0 ? list.tagIds.join(',') : null,
+    filter: list.filter.conditions.length > 0 ? JSON.stringify(list.filter) : null,
+    sort: list.sorting ? formatCustomerSort(list.sorting) : null,
+    view: list.viewMode === 'list' ? 'list' : null,
+    page: list.page > 1 ? String(list.page) : null,
+    size: list.pageSize !== DEFAULT_CUSTOMER_PAGE_SIZE ? String(list.pageSize) : null,
+  };
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === null) next.delete(key);
+    else next.set(key, value);
+  });
+  return next;
+};
+
+// Whether the address says anything about the list, as links to a search or filter do
+export const hasCustomerListParams = (params: URLSearchParams): boolean =>
+  PARAM_KEYS.some(key => params.has(key));
@@ -0,0 +1,130 @@
+import type { SortingState } from '@tanstack/react-table';
+import {
+  Customer,
+  CustomField,
+  CustomFieldValue,
+  compareCustomFieldValues,
+  formatCustomFieldValue,
+  isComputedFieldType,
+  isEmptyCustomFieldValue
+} from '@/utils/data';
+import { customerHasTags } from '@/utils/tags';
+import { CustomerFilterGroup, getCustomerFilterFields, matchesCustomerFilter } from '@/utils/customerFilter';
+
+// Mirrors server/utils/customerQuery.js
+
+// One page of the customers matching a search, tags and a filter, in a sort order. Sorts name the
+// columns of the customer table: a built-in field key or `custom:<field id>`.
+export interface CustomerQuery {
+  page: number; // Starts at 1
+  pageSize: number;
+  sort: SortingState;
+  search: string; // Matches the name, phone or email
+  tagIds: string[]; // Customers carry every one of these tags
+  filter?: CustomerFilterGroup | null; // Pruned with pruneCustomerFilter
+}
+
+export interface CustomerPage {
+  customers: Customer[];
+  total: number; // Customers matching the query, on all pages
+  page: number;
+  pageSize: number;
+  linkedCustomers: { id: string; name: string }[]; // Customers the relation fields of the page link to
+}
+
+export const CUSTOMER_PAGE_SIZES = [50, 100, 250, 500];
+export const DEFAULT_CUSTOMER_PAGE_SIZE = 100;
+
+const BASE_SORT_COLUMNS = ['name', 'dob', 'phone', 'email', 'occupation', 'location'];
+
+// Formula values are computed in the browser and multiple values have no single order,
+// so the server cannot sort by them
+const SORTABLE_FIELD_TYPES = ['text', 'number', 'date', 'select', 'boolean', 'url', 'email', 'phone'];
+
+const findSortableField = (columnId: string, customFields: CustomField[]): CustomField | undefined =>
+  customFields.find(field => `custom:${field.id}` === columnId && SORTABLE_FIELD_TYPES.includes(field.type));
+
+// Whether the server can sort customers by a column of the customer table
+export const canSortOnServer = (columnId: string, customFields: CustomField[]): boolean =>
+  BASE_SORT_COLUMNS.includes(columnId) || !!findSortableField(columnId, customFields);
+
+// Whether a column is sorted in the browser instead, among the customers of one page:
+// formula values are only computed there
+export const sortsOnPageOnly = (columnId: string, customFields: CustomField[]): boolean =>
+  customFields.some(field => `custom:${field.id}` === columnId && isComputedFieldType(field.type));
+
+// The `sort` parameter of GET /customers, e.g. `name:asc,custom:12:desc`
+export const formatCustomerSort = (sort: SortingState): string =>
+  sort.map(({ id, desc }) => `${id}:${desc ? 'desc' : 'asc'}`).join(',');
+
+// Read a sort written by formatCustomerSort; entries without a direction are dropped
+export const parseCustomerSort = (value: string): SortingState =>
+  value
+    .split(',')
+    .map(entry => {
+      const separator = entry.lastIndexOf(':');
+      return { id: entry.slice(0, separator), direction: entry.slice(separator + 1) };
+    })
+    .filter(({ id, direction }) => id && (direction === 'asc' || direction === 'desc'))
+    .map(({ id, direction }) => ({ id, desc: direction === 'desc' }));
+
+const getSortValue = (customer: Customer, columnId: string, customFields: CustomField[]): CustomFieldValue | undefined => {
+  const field = findSortableField(columnId, customFields);
+  if (!field) {
+    const value = customer[columnId as keyof Customer] as CustomFieldValue | undefined;
+    return columnId === 'dob' && value ? new Date(value as string | Date) : value;
+  }
+
+  const value = customer.customFields.find(entry => entry.id?.toString() === field.id.toString())?.value;
+  if (isEmptyCustomFieldValue(value)) return undefined;
+  if (field.type === 'number') return Number(value);
+  return field.type === 'select' ? formatCustomFieldValue(field.type, value, field.options) : value;
+};
+
+/**
+ * Answer a query from a list holding every customer, the way the server does: empty
+ * values come last in both directions and customers that sort the same keep their order.
+ * Used with the mock data.
+ */
+export const queryCustomers = (customers: Customer[], query: CustomerQuery, customFields: CustomField[]): CustomerPage => {
+  const search = query.search.trim().toLowerCase();
+  const sort = query.sort.filter(({ id }) => canSortOnServer(id, customFields));
+  const filterFields = getCustomerFilterFields(customFields);
+  const matching = customers
+    .filter(customer => !search ||
+      customer.name.toLowerCase().includes(search) ||
+      (customer.email || '').toLowerCase().includes(search) ||
+      (customer.phone || '').includes(search))
+    .filter(customer => customerHasTags(customer, query.tagIds))
+    .filter(customer => !query.filter || matchesCustomerFilter(customer, query.filter, filterFields));
+
+  const sorted = sort.length === 0 ? matching : [...matching].sort((a, b) => {
+    for (const { id, desc } of sort) {
+      const aValue = getSortValue(a, id, customFields);
+      const bValue = getSortValue(b, id, customFields);
+      const order = compareCustomFieldValues(aValue, bValue);
+      if (order === 0) continue;
+      const hasEmpty = isEmptyCustomFieldValue(aValue) || isEmptyCustomFieldValue(bValue);
+      return desc && !hasEmpty ? -order : order;
+    }
+    return 0;
+  });
+
+  const start = (query.page - 1) * query.pageSize;
+  const page = sorted.slice(start, start + query.pageSize);
+  const names = new Map(customers.map(customer => [customer.id.toString(), customer.name]));
+  const linkedIds = new Set(
+    page.flatMap(customer => customer.customFields
+      .filter(entry => !isEmptyCustomFieldValue(entry.value) &&
+        customFields.some(field => field.type === 'relation' && field.id.toString() === entry.id?.toString()))
+      .flatMap(entry => (Array.isArray(entry.value) ? entry.value : [entry.value]).map(String)))
+  );
+
+  return {
+    customers: page,
+    total: sorted.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    linkedCustomers: [...linkedIds].filter(id => names.has(id)).map(id => ({ id, name: names.get(id)! })),
+  };
+};
@@ -1,12 +1,331 @@
-import { format } from "date-fns";
+import { addDays, format, startOfDay } from "date-fns";
+import { getCustomFieldValues } from "@/utils/formula";
+import { getVisibleFieldIds } from "@/utils/visibility";
 
 // Define the customer type
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'select'
+  | 'boolean'
+  | 'multiselect'
+  | 'url'
+  | 'email'
+  | 'phone'
+  | 'formula'
+  | 'relation';
+
+export type CustomFieldValue = string | number | boolean | string[] | Date | null;
+
+// Validation rules attached to a custom field definition
+export interface CustomFieldValidation {
+  required?: boolean;
+  min?: number; // Number fields
+  max?: number;
+  minDate?: string; // Date fields, yyyy-MM-dd
+  maxDate?: string;
+  maxLength?: number; // Text-like fields
+  pattern?: string; // Regular expression the value must match
+  patternMessage?: string;
+  unique?: boolean; // No two customers may share a value
+}
+
+export type CustomFieldConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'isEmpty'
+  | 'isNotEmpty';
+
+// Compares the value of another field; values are kept as text ('true'/'false' for booleans)
+export interface CustomFieldCondition {
+  fieldId: string;
+  operator: CustomFieldConditionOperator;
+  value?: string;
+}
+
+// Show-when rules: the field is only shown when all (or any) conditions hold
+export interface CustomFieldVisibility {
+  match: 'all' | 'any';
+  conditions: CustomFieldCondition[];
+}
+
+// Value a field starts with on new customers: a fixed value, today's date or the first option
+export type CustomFieldDefault =
+  | { kind: 'static'; value: CustomFieldValue }
+  | { kind: 'today' }
+  | { kind: 'firstOption' };
+
+export type CustomFieldOptionColor =
+  | 'gray'
+  | 'red'
+  | 'orange'
+  | 'amber'
+  | 'green'
+  | 'teal'
+  | 'blue'
+  | 'indigo'
+  | 'purple'
+  | 'pink';
+
+// A choice of a select or multiselect field. Customers store `value`, a key that
+// never changes once the option exists, so the label can be renamed freely.
+export interface CustomFieldOption {
+  value: string;
+  label: string;
+  color?: CustomFieldOptionColor | null;
+  description?: string | null;
+}
+
 export interface CustomField {
   id: string;
   name: string;
-  type: 'text' | 'number' | 'date' | 'select';
-  options?: string[]; // For select fields
-  value?: string | number | Date | null;
+  type: CustomFieldType;
+  options?: CustomFieldOption[]; // For select and multiselect fields
+  validation?: CustomFieldValidation | null;
+  formula?: string | null; // Expression of formula fields, see utils/formula.ts
+  visibility?: CustomFieldVisibility | null; // Always shown when empty
+  defaultValue?: CustomFieldDefault | null;
+  position?: number; // Display order across all fields
+  section?: string | null; // Named group the field is shown under
+  archived?: boolean; // Hidden from forms and cards, values are kept
+  archivedAt?: string | null;
+  value?: CustomFieldValue;
+}
+
+export const DEFAULT_FIELD_SECTION = 'Additional Information';
+
+export interface CustomFieldSection {
+  name: string;
+  fields: CustomField[];
+}
+
+// Human readable labels for each field type, in the order they are offered in the UI
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select (Dropdown)',
+  multiselect: 'Multi-select',
+  boolean: 'Yes / No',
+  url: 'URL',
+  email: 'Email',
+  phone: 'Phone',
+  formula: 'Formula (computed)',
+  relation: 'Customer link',
+};
+
+export const customFieldTypes = Object.keys(customFieldTypeLabels) as CustomFieldType[];
+
+// Select and multiselect fields are the only ones that carry a list of options
+export const fieldTypeHasOptions = (type: string): boolean =>
+  type === 'select' || type === 'multiselect';
+
+// Badge and swatch classes for each option color, in the order they are offered in the UI
+export const customFieldOptionColorClasses: Record<CustomFieldOptionColor, { badge: string; swatch: string }> = {
+  gray: { badge: 'border-gray-200 bg-gray-100 text-gray-800', swatch: 'bg-gray-400' },
+  red: { badge: 'border-red-200 bg-red-100 text-red-800', swatch: 'bg-red-500' },
+  orange: { badge: 'border-orange-200 bg-orange-100 text-orange-800', swatch: 'bg-orange-500' },
+  amber: { badge: 'border-amber-200 bg-amber-100 text-amber-800', swatch: 'bg-amber-400' },
+  green: { badge: 'border-green-200 bg-green-100 text-green-800', swatch: 'bg-green-500' },
+  teal: { badge: 'border-teal-200 bg-teal-100 text-teal-800', swatch: 'bg-teal-500' },
+  blue: { badge: 'border-blue-200 bg-blue-100 text-blue-800', swatch: 'bg-blue-500' },
+  indigo: { badge: 'border-indigo-200 bg-indigo-100 text-indigo-800', swatch: 'bg-indigo-500' },
+  purple: { badge: 'border-purple-200 bg-purple-100 text-purple-800', swatch: 'bg-purple-500' },
+  pink: { badge: 'border-pink-200 bg-pink-100 text-pink-800', swatch: 'bg-pink-500' },
+};
+
+export const customFieldOptionColors = Object.keys(customFieldOptionColorClasses) as CustomFieldOptionColor[];
+
+/**
+ * Bring options into their object form. Options used to be plain strings,
+ * which become an option whose value and label are both that string.
+ */
+export const normalizeCustomFieldOptions = (options: unknown): CustomFieldOption[] => {
+  if (!Array.isArray(options)) return [];
+
+  return options
+    .map((option): CustomFieldOption | null => {
+      if (typeof option === 'string' || typeof option === 'number') {
+        const text = String(option).trim();
+        return text ? { value: text, label: text, color: null } : null;
+      }
+      if (!option || typeof option !== 'object') return null;
+
+      const { value, label, color, description } = option as Record<string, unknown>;
+      const key = String(value ?? label ?? '').trim();
+      if (!key) return null;
+      return {
+        value: key,
+        label: String(label ?? '').trim() || key,
+        color: customFieldOptionColors.includes(color as CustomFieldOptionColor) ? color as CustomFieldOptionColor : null,
+        ...(typeof description === 'string' && description.trim() ? { description: description.trim() } : {}),
+      };
+    })
+    .filter((option): option is CustomFieldOption => option !== null);
+};
+
+// Stored values a select or multiselect field accepts
+export const getCustomFieldOptionValues = (options?: CustomFieldOption[] | null): string[] =>
+  (options || []).map(option => option.value);
+
+export const findCustomFieldOption = (
+  options: CustomFieldOption[] | null | undefined,
+  value: string
+): CustomFieldOption | undefined => (options || []).find(option => option.value === value);
+
+// Key for a new option: its label, made unique among the existing keys
+export const createCustomFieldOptionValue = (label: string, taken: string[]): string => {
+  const base = label.trim();
+  const used = new Set(taken.map(value => value.toLowerCase()));
+  let value = base;
+  for (let suffix = 2; used.has(value.toLowerCase()); suffix++) {
+    value = `${base}-${suffix}`;
+  }
+  return value;
+};
+
+// Multiselect and relation values are lists (stored as JSON arrays); relation
+// values hold the ids of the linked customers
+export const fieldTypeHasListValue = (type: string): boolean =>
+  type === 'multiselect' || type === 'relation';
+
+// Formula fields are computed from other fields and never edited directly
+export const isComputedFieldType = (type: string): boolean => type === 'formula';
+
+// Resolve a field's default into a concrete value, or null when it has none
+export const resolveCustomFieldDefault = (field: CustomField): CustomFieldValue => {
+  const defaultValue = field.defaultValue;
+  if (!defaultValue || field.type === 'formula') return null;
+
+  switch (defaultValue.kind) {
+    case 'today':
+      return field.type === 'date' ? startOfDay(new Date()).toISOString() : null;
+    case 'firstOption': {
+      const first = field.options?.[0]?.value;
+      if (!first) return null;
+      return field.type === 'multiselect' ? [first] : field.type === 'select' ? first : null;
+    }
+    default:
+      return defaultValue.value ?? null;
+  }
+};
+
+// Short description of a default for listings, e.g. "Today" or "First option"
+export const describeCustomFieldDefault = (field: CustomField): string | null => {
+  const defaultValue = field.defaultValue;
+  if (!defaultValue) return null;
+  if (defaultValue.kind === 'today') return 'Today';
+  if (defaultValue.kind === 'firstOption') return 'First option';
+  return formatCustomFieldValue(field.type, defaultValue.value, field.options) || null;
+};
+
+// Checks whether a custom field value should be treated as "not filled in"
+export const isEmptyCustomFieldValue = (value: CustomFieldValue | undefined): boolean => {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+// Order fields by their configured position, falling back to the original order
+export const sortCustomFields = (fields: CustomField[]): CustomField[] =>
+  fields
+    .map((field, index) => ({ field, index }))
+    .sort((a, b) =>
+      (a.field.position ?? a.index) - (b.field.position ?? b.index) || a.index - b.index
+    )
+    .map(({ field }) => field);
+
+// Group ordered fields into sections; sections appear in the order of their first field
+export const groupCustomFieldsBySection = (fields: CustomField[]): CustomFieldSection[] => {
+  const sections: CustomFieldSection[] = [];
+
+  sortCustomFields(fields).forEach(field => {
+    const name = field.section?.trim() || DEFAULT_FIELD_SECTION;
+    let section = sections.find(entry => entry.name === name);
+    if (!section) {
+      section = { name, fields: [] };
+      sections.push(section);
+    }
+    section.fields.push(field);
+  });
+
+  return sections;
+};
+
+// Format a custom field value as plain text (used for exports and compact displays).
+// Pass the field's options to show option labels instead of their stored keys.
+export const formatCustomFieldValue = (
+  type: string,
+  value: CustomFieldValue | undefined,
+  options?: CustomFieldOption[] | null
+): string => {
+  if (isEmptyCustomFieldValue(value)) return '';
+
+  switch (type) {
+    case 'boolean':
+      return value === true || value === 'true' ? 'Yes' : 'No';
+    case 'formula':
+      if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+      if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+      if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+      return String(value);
+    case 'select':
+      return findCustomFieldOption(options, String(value))?.label ?? String(value);
+    case 'multiselect':
+      return (Array.isArray(value) ? value : [String(value)])
+        .map(item => findCustomFieldOption(options, item)?.label ?? item)
+        .join(', ');
+    case 'relation':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(value as string);
+      return isNaN(date.getTime()) ? String(value) : format(date, 'yyyy-MM-dd');
+    }
+    default:
+      if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+      return String(value);
+  }
+};
+
+// Names of the customers a relation value links to. Links to customers that are not
+// listed (those in the trash) are left out; without any names the ids are shown as is.
+export const formatCustomerLinks = (
+  value: CustomFieldValue | undefined,
+  customerNames: Map<string, string>
+): string => {
+  if (isEmptyCustomFieldValue(value)) return '';
+  return (Array.isArray(value) ? value : [String(value)])
+    .filter(id => customerNames.size === 0 || customerNames.has(String(id)))
+    .map(id => customerNames.get(String(id)) ?? String(id))
+    .join(', ');
+};
+
+// Sort comparator for custom field values of any type; empty values sort last
+export const compareCustomFieldValues = (
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined
+): number => {
+  const aEmpty = isEmptyCustomFieldValue(a);
+  const bEmpty = isEmptyCustomFieldValue(b);
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+// A free-form label; a customer can carry any number of tags
+export interface CustomerTag {
+  id: string;
+  name: string;
+  color?: CustomFieldOptionColor | null;
+  customers?: number; // How many customers carry the tag; only set when tags are listed
 }
 
 export interface Customer {
@@ -18,10 +337,64 @@ export interface Customer {
   occupation: string;
   location: string;
   customFields: CustomField[];
+  tags?: CustomerTag[];
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date | null; // Set while the customer is in the trash
+  deletedBy?: string | null; // Name of the user who moved the customer to the trash
 }
 
+// Days deleted customers stay in the trash before they are purged; the server reports
+// its own setting along with the trash, this is the fallback for offline use
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface CustomerTrash {
+  retentionDays: number; // 0 when customers are kept until purged by hand
+  customers: Customer[]; // Most recently deleted first
+}
+
+// When a customer in the trash is purged automatically, or null if it never is
+export const getTrashPurgeDate = (deletedAt: Date, retentionDays: number): Date | null =>
+  retentionDays > 0 ? addDays(deletedAt, retentionDays) : null;
+
+// One change applied to many customers in a single request, see customerService.batch
+export type CustomerBatchAction =
+  | { action: 'delete' | 'restore' }
+  | { action: 'setField'; field: CustomField; value: CustomFieldValue }
+  | { action: 'addTags' | 'removeTags'; tags: string[] };
+
+// A batch sent in several requests that failed part way; the customers changed by the
+// requests before the failing one stay changed
+export class CustomerBatchError extends Error {
+  updated: number; // Customers changed before the failure
+  total: number; // Customers the batch was for
+
+  constructor(message: string, updated: number, total: number) {
+    super(message);
+    this.name = 'CustomerBatchError';
+    this.updated = updated;
+    this.total = total;
+  }
+}
+
+// An entry on a customer's timeline. Only the author may edit or delete it; anyone may pin it.
+export interface CustomerNote {
+  id: string;
+  customerId: string;
+  authorId: string | null; // Null once the author's account is removed
+  authorName: string;
+  body: string;
+  pinned: boolean;
+  createdAt: Date;
+  editedAt: Date | null;
+}
+
+// Pinned notes first, then newest first
+export const sortCustomerNotes = (notes: CustomerNote[]): CustomerNote[] =>
+  [...notes].sort((a, b) =>
+    Number(b.pinned) - Number(a.pinned) || b.createdAt.getTime() - a.createdAt.getTime()
+  );
+
 // Mock data for development
 export const mockCustomers: Customer[] = [
   {
@@ -89,12 +462,23 @@ export const mockCustomers: Customer[] = [
 // Default custom fields
 export const defaultCustomFields: CustomField[] = [
   { id: 'cf1', name: 'Notes', type: 'text' },
-  { id: 'cf2', name: 'Customer Type', type: 'select', options: ['Regular', 'VIP', 'Corporate'] },
+  {
+    id: 'cf2',
+    name: 'Customer Type',
+    type: 'select',
+    options: [
+      { value: 'Regular', label: 'Regular', color: 'gray' },
+      { value: 'VIP', label: 'VIP', color: 'amber' },
+      { value: 'Corporate', label: 'Corporate', color: 'blue' },
+    ],
+  },
   { id: 'cf3', name: 'Annual Revenue', type: 'number' },
 ];
 
 // CRUD operations
-export const getCustomers = (): Customer[] => {
+
+// Every stored customer, including those in the trash
+const loadCustomers = (): Customer[] => {
   const savedCustomers = localStorage.getItem('customers');
   if (savedCustomers) {
     try {
@@ -105,6 +489,7 @@ export const getCustomers = (): Customer[] => {
         dob: customer.dob ? new Date(customer.dob) : null,
         createdAt: new Date(customer.createdAt),
         updatedAt: new Date(customer.updatedAt),
+        deletedAt: customer.deletedAt ? new Date(customer.deletedAt) : null,
       }));
     } catch (error) {
       console.error('Error parsing customers from localStorage', error);
@@ -117,8 +502,10 @@ export const getCustomers = (): Customer[] => {
   return mockCustomers;
 };
 
+export const getCustomers = (): Customer[] => loadCustomers().filter(customer => !customer.deletedAt);
+
 export const addCustomer = (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>): Customer => {
-  const customers = getCustomers();
+  const customers = loadCustomers();
   const newCustomer: Customer = {
     ...customer,
     id: Math.random().toString(36).substr(2, 9),
@@ -132,8 +519,8 @@ export const addCustomer = (customer: Omit<Customer, 'id' | 'createdAt' | 'updat
 };
 
 export const updateCustomer = (id: string, updates: Partial<Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>>): Customer | null => {
-  const customers = getCustomers();
-  const index = customers.findIndex(c => c.id === id);
+  const customers = loadCustomers();
+  const index = customers.findIndex(c => c.id === id && !c.deletedAt);
   
   if (index === -1) return null;
   
@@ -148,9 +535,50 @@ export const updateCustomer = (id: string, updates: Partial<Omit<Customer, 'id'
   return updatedCustomer;
 };
 
-export const deleteCustomer = (id: string): boolean => {
-  const customers = getCustomers();
-  const updatedCustomers = customers.filter(c => c.id !== id);
+// Move a customer to the trash; it can be restored until it is purged
+export const deleteCustomer = (id: string, deletedBy: string | null = null): boolean => {
+  const customers = loadCustomers();
+  const index = customers.findIndex(c => c.id === id && !c.deletedAt);
+  
+  if (index === -1) return false;
+  
+  customers[index] = { ...customers[index], deletedAt: new Date(), deletedBy };
+  localStorage.setItem('customers', JSON.stringify(customers));
+  return true;
+};
+
+// Customers in the trash, most recently deleted first; those past the retention period are purged
+export const getDeletedCustomers = (): Customer[] => {
+  const now = new Date();
+  const customers = loadCustomers();
+  const kept = customers.filter(customer => {
+    const purgeDate = customer.deletedAt && getTrashPurgeDate(customer.deletedAt, TRASH_RETENTION_DAYS);
+    return !purgeDate || purgeDate > now;
+  });
+  
+  if (kept.length !== customers.length) {
+    localStorage.setItem('customers', JSON.stringify(kept));
+  }
+  return kept
+    .filter(customer => customer.deletedAt)
+    .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+};
+
+export const restoreCustomer = (id: string): Customer | null => {
+  const customers = loadCustomers();
+  const index = customers.findIndex(c => c.id === id && c.deletedAt);
+  
+  if (index === -1) return null;
+  
+  customers[index] = { ...customers[index], deletedAt: null, deletedBy: null };
+  localStorage.setItem('customers', JSON.stringify(customers));
+  return customers[index];
+};
+
+// Delete a customer in the trash for good
+export const purgeCustomer = (id: string): boolean => {
+  const customers = loadCustomers();
+  const updatedCustomers = customers.filter(c => !(c.id === id && c.deletedAt));
   
   if (updatedCustomers.length === customers.length) return false;
   
@@ -223,7 +651,7 @@ export const deleteCustomField = (id: string): boolean => {
   localStorage.setItem('customFields', JSON.stringify(updatedFields));
   
   // Also update all customers to remove this field
-  const customers = getCustomers();
+  const customers = loadCustomers();
   const updatedCustomers = customers.map(customer => ({
     ...customer,
     customFields: customer.customFields.filter(f => f.id !== id),
@@ -233,18 +661,16 @@ export const deleteCustomField = (id: string): boolean => {
   return true;
 };
 
-// Excel export
+// Excel export. Relation fields export the names of the linked customers from
+// `customerNames`, which should list every customer outside the trash, not only the
+// exported ones; without names the ids are exported.
 export const generateExcelData = (
   customers: Customer[], 
   customFields: CustomField[] = [], 
   onlyIncludeAssociatedFields: boolean = false,
-  includeBaseFields: boolean = true
+  includeBaseFields: boolean = true,
+  customerNames: Map<string, string> = new Map()
 ): any[] => {
-  // Create a map of field IDs to names for easier lookup
-  const fieldMap = new Map(
-    customFields.map(field => [field.id, field.name])
-  );
-  
   // Filter out customers with no custom fields if onlyIncludeAssociatedFields is true
   const filteredCustomers = onlyIncludeAssociatedFields 
     ? customers.filter(customer => customer.customFields && customer.customFields.length > 0)
@@ -265,18 +691,25 @@ export const generateExcelData = (
       baseData['Email'] = customer.email;
       baseData['Occupation'] = customer.occupation;
       baseData['Location'] = customer.location;
+      baseData['Tags'] = (customer.tags || []).map(tag => tag.name).join(', ');
     }
     
-    // Create a map of the customer's custom field values for easy lookup
-    const customerFieldMap = new Map(
-      (customer.customFields || []).map(cf => [cf.id, cf.value])
-    );
+    // Create a map of the customer's custom field values for easy lookup, including computed formulas
+    const customerFieldMap = getCustomFieldValues(customer, customFields);
+    const visibleFieldIds = getVisibleFieldIds(customFields, customerFieldMap);
     
     // Add only the custom fields that are associated with this customer
     const customFieldData = {};
-    customFields.forEach(field => {
+    // Columns follow the form layout: sections in order, fields in order within each section
+    groupCustomFieldsBySection(customFields).flatMap(section => section.fields).forEach(field => {
       if (!onlyIncludeAssociatedFields || customerFieldMap.has(field.id)) {
-        customFieldData[field.name] = customerFieldMap.get(field.id) || '';
+        // Fields hidden by their show-when conditions are exported blank
+        const value = customerFieldMap.get(field.id);
+        customFieldData[field.name] = !visibleFieldIds.has(field.id)
+          ? ''
+          : field.type === 'relation'
+            ? formatCustomerLinks(value, customerNames)
+            : formatCustomFieldValue(field.type, value, field.options);
       }
     });
 
@@ -0,0 +1,127 @@
+import { Customer } from '@/utils/data';
+
+// Pairs scoring at least this much are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 40;
+
+// Scores of at least this much are almost certainly the same person
+export const STRONG_DUPLICATE_THRESHOLD = 70;
+
+type CustomerIdentity = Pick<Customer, 'name' | 'email' | 'phone'>;
+
+export interface DuplicateScore {
+  score: number; // 0-100
+  reasons: string[]; // e.g. "Same email", "Similar name"
+}
+
+export interface DuplicateCandidate extends DuplicateScore {
+  customer: Customer;
+}
+
+export interface DuplicateMatch extends DuplicateCandidate {
+  other: Customer;
+}
+
+export const normalizeEmail = (email: string | null | undefined): string => (email || '').trim().toLowerCase();
+
+// Digits only; a leading country code is ignored by comparing the last ten digits
+export const normalizePhone = (phone: string | null | undefined): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length > 10 ? digits.slice(-10) : digits;
+};
+
+// Lower case without accents or punctuation, words sorted so "Doe, John" matches "John Doe"
+export const normalizeName = (name: string | null | undefined): string =>
+  (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for the same name, falling towards 0 as more characters differ
+export const nameSimilarity = (a: string, b: string): number => {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+
+  const longest = Math.max(first.length, second.length);
+  // Names of very different length cannot be similar enough to matter
+  if (Math.abs(first.length - second.length) / longest > 0.3) return 0;
+  return 1 - editDistance(first, second) / longest;
+};
+
+/**
+ * Score how likely two customers are the same person. A shared email weighs most,
+ * then a shared phone number, then how close the names are.
+ */
+export const scoreDuplicate = (a: CustomerIdentity, b: CustomerIdentity): DuplicateScore => {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) {
+    score += 60;
+    reasons.push('Same email');
+  }
+
+  const phone = normalizePhone(a.phone);
+  if (phone.length >= 7 && phone === normalizePhone(b.phone)) {
+    score += 40;
+    reasons.push('Same phone');
+  }
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= 0.8) {
+    score += Math.round(similarity * 40);
+    reasons.push(similarity === 1 ? 'Same name' : 'Similar name');
+  }
+
+  return { score: Math.min(score, 100), reasons };
+};
+
+// Existing customers that look like the given (possibly unsaved) customer, best match first
+export const findLikelyDuplicates = (
+  candidate: CustomerIdentity,
+  customers: Customer[],
+  excludeId?: string
+): DuplicateCandidate[] =>
+  customers
+    .filter(customer => customer.id.toString() !== excludeId)
+    .map(customer => ({ customer, ...scoreDuplicate(candidate, customer) }))
+    .filter(match => match.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+// Every pair of customers that looks like the same person, best match first
+export const findDuplicatePairs = (customers: Customer[]): DuplicateMatch[] => {
+  const pairs: DuplicateMatch[] = [];
+  customers.forEach((customer, index) => {
+    customers.slice(index + 1).forEach(other => {
+      const result = scoreDuplicate(customer, other);
+      if (result.score >= DUPLICATE_THRESHOLD) {
+        pairs.push({ customer, other, ...result });
+      }
+    });
+  });
+  return pairs.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,113 @@
+import { CustomFieldOption, CustomFieldValue, isEmptyCustomFieldValue } from '@/utils/data';
+
+export interface ConversionResult {
+  ok: boolean;
+  value: CustomFieldValue;
+}
+
+// Summary returned by the type change dry run
+export interface TypeChangePreview {
+  total: number;
+  convertible: number;
+  failed: number;
+  failures: { customerId: string; customerName: string; value: string }[];
+}
+
+export interface OptionRename {
+  from: string;
+  to: string;
+}
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'on'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'off'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const fail = (): ConversionResult => ({ ok: false, value: null });
+const success = (value: CustomFieldValue): ConversionResult => ({ ok: true, value });
+
+// Flatten any typed value into text, the common ground between all types
+const toText = (value: CustomFieldValue, fromType: string): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (value instanceof Date) return value.toISOString();
+  if (fromType === 'boolean') return value === true || value === 'true' ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Find the key of the option whose key or label matches the text, ignoring case and surrounding whitespace
+const matchOption = (text: string, options: CustomFieldOption[]): string | undefined => {
+  const wanted = text.trim().toLowerCase();
+  return (
+    options.find(option => option.value.trim().toLowerCase() === wanted) ||
+    options.find(option => option.label.trim().toLowerCase() === wanted)
+  )?.value;
+};
+
+/**
+ * Convert a value from one custom field type to another.
+ * Empty values always convert (to null); anything that cannot be represented
+ * in the target type is reported as a failure instead of being guessed.
+ */
+export const convertCustomFieldValue = (
+  value: CustomFieldValue | undefined,
+  fromType: string,
+  toType: string,
+  options: CustomFieldOption[] = []
+): ConversionResult => {
+  if (isEmptyCustomFieldValue(value)) return success(null);
+  // Formula fields never store values, so nothing can be carried over into one
+  if (toType === 'formula') return fail();
+  // Customer ids only mean something in a relation field
+  if (fromType === 'relation' || toType === 'relation') return fromType === toType ? success(value) : fail();
+  if (fromType === toType && toType !== 'select' && toType !== 'multiselect') return success(value);
+
+  const items = Array.isArray(value) ? value.map(String) : null;
+  const text = toText(value, fromType).trim();
+
+  switch (toType) {
+    case 'number': {
+      if (typeof value === 'number') return success(value);
+      const cleaned = text.replace(/[\s,$€£]/g, '');
+      return /^-?\d+(\.\d+)?$/.test(cleaned) ? success(parseFloat(cleaned)) : fail();
+    }
+    case 'date': {
+      if (fromType === 'number' || fromType === 'boolean') return fail();
+      const date = value instanceof Date ? value : new Date(text);
+      return isNaN(date.getTime()) ? fail() : success(date.toISOString());
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return success(value);
+      const word = text.toLowerCase();
+      if (TRUE_WORDS.includes(word)) return success(true);
+      if (FALSE_WORDS.includes(word)) return success(false);
+      return fail();
+    }
+    case 'select': {
+      if (items && items.length !== 1) return fail();
+      const option = matchOption(items ? items[0] : text, options);
+      return option ? success(option) : fail();
+    }
+    case 'multiselect': {
+      const parts = items || text.split(',').map(part => part.trim()).filter(Boolean);
+      const matched = parts.map(part => matchOption(part, options));
+      return matched.every(Boolean) ? success(matched as string[]) : fail();
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(text) ? success(text) : fail();
+    case 'url':
+      return /^(https?:\/\/)?[^\s/]+\.[^\s]+$/i.test(text) ? success(text) : fail();
+    case 'phone':
+      return (text.match(/\d/g) || []).length >= 5 && /^[\d\s()+\-.x]+$/i.test(text) ? success(text) : fail();
+    default:
+      return success(text);
+  }
+};
+
+// Apply option renames to a select or multiselect value
+export const renameOptionValue = (
+  value: CustomFieldValue | undefined,
+  renames: OptionRename[]
+): CustomFieldValue | undefined => {
+  if (!renames.length || isEmptyCustomFieldValue(value)) return value;
+  const rename = (item: string) => renames.find(entry => entry.from === item)?.to ?? item;
+  return Array.isArray(value) ? value.map(rename) : rename(String(value));
+};
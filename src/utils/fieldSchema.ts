@@ -0,0 +1,234 @@
+import {
+  CustomField,
+  CustomFieldConditionOperator,
+  CustomFieldDefault,
+  CustomFieldOption,
+  CustomFieldType,
+  CustomFieldValidation,
+  CustomFieldVisibility,
+  customFieldTypeLabels,
+  customFieldTypes,
+  groupCustomFieldsBySection,
+  normalizeCustomFieldOptions
+} from '@/utils/data';
+import { conditionOperators } from '@/utils/visibility';
+
+// Bump when the document layout changes; older versions must stay importable.
+// Version 2 turned options from plain strings into objects with a key, label and color.
+export const FIELD_SCHEMA_VERSION = 2;
+
+// Field ids differ between instances, so show-when conditions refer to fields by name
+export interface SchemaCondition {
+  field: string;
+  operator: CustomFieldConditionOperator;
+  value?: string;
+}
+
+export interface SchemaField {
+  name: string;
+  type: CustomFieldType;
+  section: string | null;
+  options: CustomFieldOption[] | null;
+  validation: CustomFieldValidation | null;
+  formula: string | null;
+  defaultValue: CustomFieldDefault | null;
+  visibility: { match: 'all' | 'any'; conditions: SchemaCondition[] } | null;
+}
+
+export interface FieldSchemaDocument {
+  version: number;
+  exportedAt: string;
+  fields: SchemaField[]; // In display order
+}
+
+export type SchemaImportMode = 'merge' | 'replace';
+
+export interface SchemaFieldChange {
+  field: CustomField;
+  incoming: SchemaField;
+  changes: string[];
+}
+
+export interface SchemaDiff {
+  added: SchemaField[];
+  changed: SchemaFieldChange[];
+  removed: CustomField[]; // Only in replace mode; these fields get archived
+  unchanged: number;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const toSchemaField = (field: CustomField, fields: CustomField[]): SchemaField => ({
+  name: field.name,
+  type: field.type,
+  section: field.section?.trim() || null,
+  options: field.options?.length ? normalizeCustomFieldOptions(field.options) : null,
+  validation: field.validation || null,
+  formula: field.formula || null,
+  defaultValue: field.defaultValue || null,
+  visibility: field.visibility?.conditions.length
+    ? {
+        match: field.visibility.match,
+        conditions: field.visibility.conditions.map(condition => ({
+          field: fields.find(entry => entry.id === condition.fieldId)?.name ?? condition.fieldId,
+          operator: condition.operator,
+          ...(condition.value !== undefined ? { value: condition.value } : {}),
+        })),
+      }
+    : null,
+});
+
+// Export the active fields in display order
+export const exportFieldSchema = (fields: CustomField[]): FieldSchemaDocument => {
+  const active = fields.filter(field => !field.archived);
+  return {
+    version: FIELD_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    fields: groupCustomFieldsBySection(active)
+      .flatMap(section => section.fields)
+      .map(field => toSchemaField(field, active)),
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse and check an exported schema document.
+ * Throws an Error with a readable message when the document cannot be imported.
+ */
+export const parseFieldSchema = (text: string): FieldSchemaDocument => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isObject(document) || !Array.isArray(document.fields)) {
+    throw new Error('The file is not a custom field schema export');
+  }
+  if (typeof document.version !== 'number' || document.version > FIELD_SCHEMA_VERSION) {
+    throw new Error(`Unsupported schema version ${String(document.version)}; this app reads version ${FIELD_SCHEMA_VERSION}`);
+  }
+
+  const names = new Set<string>();
+  const fields = document.fields.map((entry: unknown, index: number): SchemaField => {
+    const position = `Field ${index + 1}`;
+    if (!isObject(entry) || typeof entry.name !== 'string' || !entry.name.trim()) {
+      throw new Error(`${position} has no name`);
+    }
+    if (!customFieldTypes.includes(entry.type as CustomFieldType)) {
+      throw new Error(`"${entry.name}" has an unknown type "${String(entry.type)}"`);
+    }
+    if (names.has(entry.name.trim().toLowerCase())) {
+      throw new Error(`"${entry.name}" appears more than once`);
+    }
+    names.add(entry.name.trim().toLowerCase());
+
+    const visibility = isObject(entry.visibility) && Array.isArray(entry.visibility.conditions)
+      ? {
+          match: entry.visibility.match === 'any' ? 'any' as const : 'all' as const,
+          conditions: (entry.visibility.conditions as unknown[])
+            .filter(isObject)
+            .filter(condition => conditionOperators.includes(condition.operator as CustomFieldConditionOperator))
+            .map(condition => ({
+              field: String(condition.field ?? ''),
+              operator: condition.operator as CustomFieldConditionOperator,
+              ...(condition.value !== undefined ? { value: String(condition.value) } : {}),
+            })),
+        }
+      : null;
+
+    return {
+      name: entry.name.trim(),
+      type: entry.type as CustomFieldType,
+      section: typeof entry.section === 'string' && entry.section.trim() ? entry.section.trim() : null,
+      options: Array.isArray(entry.options) ? normalizeCustomFieldOptions(entry.options) : null,
+      validation: isObject(entry.validation) ? entry.validation as CustomFieldValidation : null,
+      formula: typeof entry.formula === 'string' ? entry.formula : null,
+      defaultValue: isObject(entry.defaultValue) ? entry.defaultValue as CustomFieldDefault : null,
+      visibility: visibility?.conditions.length ? visibility : null,
+    };
+  });
+
+  return {
+    version: document.version,
+    exportedAt: typeof document.exportedAt === 'string' ? document.exportedAt : '',
+    fields,
+  };
+};
+
+// Human readable list of what differs between a field and its incoming definition
+const describeChanges = (field: CustomField, incoming: SchemaField, fields: CustomField[]): string[] => {
+  const current = toSchemaField(field, fields);
+  const changes: string[] = [];
+  const differs = (key: keyof SchemaField) => JSON.stringify(current[key]) !== JSON.stringify(incoming[key]);
+
+  if (current.type !== incoming.type) {
+    changes.push(`type ${customFieldTypeLabels[current.type]} → ${customFieldTypeLabels[incoming.type]}`);
+  }
+  if (differs('options')) changes.push('options');
+  if (differs('validation')) changes.push('validation');
+  if (differs('formula')) changes.push('formula');
+  if (differs('defaultValue')) changes.push('default value');
+  if (differs('visibility')) changes.push('show-when conditions');
+  if (current.section !== incoming.section) changes.push(`section → ${incoming.section || 'none'}`);
+  if (current.name !== incoming.name) changes.push(`renamed to ${incoming.name}`);
+  return changes;
+};
+
+// Compare the active fields with an imported document; fields are matched by name
+export const diffFieldSchema = (
+  fields: CustomField[],
+  document: FieldSchemaDocument,
+  mode: SchemaImportMode
+): SchemaDiff => {
+  const active = fields.filter(field => !field.archived);
+  const diff: SchemaDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  document.fields.forEach(incoming => {
+    const field = active.find(entry => sameName(entry.name, incoming.name));
+    if (!field) {
+      diff.added.push(incoming);
+      return;
+    }
+    const changes = describeChanges(field, incoming, active);
+    if (changes.length > 0) {
+      diff.changed.push({ field, incoming, changes });
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  if (mode === 'replace') {
+    diff.removed = active.filter(field => !document.fields.some(incoming => sameName(incoming.name, field.name)));
+  }
+
+  return diff;
+};
+
+// Turn an imported field into the payload customFieldService.create/update expects,
+// resolving condition field names against the ids known on this instance
+export const toFieldData = (incoming: SchemaField, fieldIds: Map<string, string>) => {
+  const conditions = (incoming.visibility?.conditions || [])
+    .map(condition => ({
+      fieldId: fieldIds.get(condition.field.trim().toLowerCase()),
+      operator: condition.operator,
+      ...(condition.value !== undefined ? { value: condition.value } : {}),
+    }))
+    .filter(condition => condition.fieldId);
+
+  return {
+    name: incoming.name,
+    type: incoming.type,
+    options: incoming.options,
+    validation: incoming.validation,
+    formula: incoming.type === 'formula' ? incoming.formula : null,
+    defaultValue: incoming.defaultValue,
+    section: incoming.section,
+    visibility: conditions.length > 0
+      ? { match: incoming.visibility?.match || 'all', conditions } as CustomFieldVisibility
+      : null,
+  };
+};
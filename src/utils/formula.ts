@@ -0,0 +1,600 @@
+import { addDays, differenceInCalendarDays, differenceInMonths, differenceInYears, startOfDay } from 'date-fns';
+import type { Customer, CustomField, CustomFieldValue } from '@/utils/data';
+
+/*
+ * Expression language of formula custom fields.
+ *
+ * Formulas are parsed into a small syntax tree and evaluated by walking it, so no
+ * user text is ever handed to eval/new Function. Supported syntax:
+ *
+ *   numbers, "strings" or 'strings', true, false, null
+ *   base fields by key: name, dob, phone, email, occupation, location, createdAt, updatedAt
+ *   custom fields by name in braces: {Annual Revenue}
+ *   + - * / %    arithmetic; + joins text, date + n adds days, date - date gives days
+ *   &            text concatenation
+ *   = != < <= > >=, and, or, not
+ *   functions: if(condition, then, else), today(), days/months/years(from, to), ...
+ */
+
+export type FormulaValue = string | number | boolean | Date | null;
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'reference'; name: string }
+  | { kind: 'unary'; operator: string; operand: FormulaNode }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'reference'; value: string }
+  | { type: 'operator'; value: string };
+
+// Base customer fields that formulas can reference without braces
+export const formulaBaseFields: Record<string, string> = {
+  name: 'Name',
+  dob: 'Date of Birth',
+  phone: 'Phone',
+  email: 'Email',
+  occupation: 'Occupation',
+  location: 'Location',
+  createdAt: 'Created',
+  updatedAt: 'Last Updated',
+};
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '&', '=', '<', '>', '!', '(', ')', ','];
+const KEYWORDS: Record<string, FormulaValue> = { true: true, false: false, null: null };
+
+// Lookups in the keyword and function tables; inherited keys such as `constructor` are not names
+const hasOwnName = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name);
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(expression[index + 1] ?? ''))) {
+      const match = /^\d*\.?\d+(e[+-]?\d+)?/i.exec(expression.slice(index))!;
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      index += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let text = '';
+      index++;
+      while (index < expression.length && expression[index] !== char) {
+        // Backslash escapes the next character, e.g. "say \"hi\""
+        if (expression[index] === '\\' && index + 1 < expression.length) index++;
+        text += expression[index++];
+      }
+      if (index >= expression.length) throw new FormulaError('Unterminated text value');
+      tokens.push({ type: 'string', value: text });
+      index++;
+    } else if (char === '{') {
+      const end = expression.indexOf('}', index);
+      if (end === -1) throw new FormulaError('Missing closing } in field reference');
+      const name = expression.slice(index + 1, end).trim();
+      if (!name) throw new FormulaError('Empty field reference {}');
+      tokens.push({ type: 'reference', value: name });
+      index = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(index))!;
+      tokens.push({ type: 'identifier', value: match[0] });
+      index += match[0].length;
+    } else {
+      const operator = OPERATORS.find(op => expression.startsWith(op, index));
+      if (!operator) throw new FormulaError(`Unexpected character "${char}"`);
+      tokens.push({ type: 'operator', value: operator });
+      index += operator.length;
+    }
+  }
+
+  return tokens;
+};
+
+// Recursive descent parser, lowest precedence first: or, and, not, comparison, +/-/&, * / %, unary
+const parse = (expression: string): FormulaNode => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token?.type === 'operator' && values.includes(token.value);
+  };
+  const isWord = (word: string) => {
+    const token = peek();
+    return token?.type === 'identifier' && token.value.toLowerCase() === word;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new FormulaError(`Expected "${value}"`);
+    position++;
+  };
+
+  const parseOr = (): FormulaNode => {
+    let node = parseAnd();
+    while (isOperator('||') || isWord('or')) {
+      position++;
+      node = { kind: 'binary', operator: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): FormulaNode => {
+    let node = parseNot();
+    while (isOperator('&&') || isWord('and')) {
+      position++;
+      node = { kind: 'binary', operator: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): FormulaNode => {
+    if (isOperator('!') || isWord('not')) {
+      position++;
+      return { kind: 'unary', operator: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): FormulaNode => {
+    const node = parseAdditive();
+    if (isOperator('=', '==', '!=', '<>', '<', '<=', '>', '>=')) {
+      const token = tokens[position++] as { value: string };
+      const operator = token.value === '==' ? '=' : token.value === '<>' ? '!=' : token.value;
+      return { kind: 'binary', operator, left: node, right: parseAdditive() };
+    }
+    return node;
+  };
+
+  const parseAdditive = (): FormulaNode => {
+    let node = parseMultiplicative();
+    while (isOperator('+', '-', '&')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: 'binary', operator, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+
+  const parseMultiplicative = (): FormulaNode => {
+    let node = parseUnary();
+    while (isOperator('*', '/', '%')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-')) {
+      position++;
+      return { kind: 'unary', operator: '-', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) throw new FormulaError('Formula ends unexpectedly');
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'reference':
+        return { kind: 'reference', name: token.value };
+      case 'identifier': {
+        const word = token.value.toLowerCase();
+        if (isOperator('(')) {
+          position++;
+          const args: FormulaNode[] = [];
+          if (!isOperator(')')) {
+            args.push(parseOr());
+            while (isOperator(',')) {
+              position++;
+              args.push(parseOr());
+            }
+          }
+          expect(')');
+          if (!hasOwnName(FUNCTIONS, word)) throw new FormulaError(`Unknown function "${token.value}"`);
+          return { kind: 'call', name: word, args };
+        }
+        if (hasOwnName(KEYWORDS, word)) return { kind: 'literal', value: KEYWORDS[word] };
+        return { kind: 'reference', name: token.value };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const node = parseOr();
+          expect(')');
+          return node;
+        }
+        throw new FormulaError(`Unexpected "${token.value}"`);
+    }
+  };
+
+  const tree = parseOr();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new FormulaError(`Unexpected "${token.type === 'reference' ? `{${token.value}}` : token.value}"`);
+  }
+  return tree;
+};
+
+// Coercion helpers; blanks propagate as null so a missing input yields an empty result
+const isBlank = (value: FormulaValue) => value === null || value === '';
+
+const toNumber = (value: FormulaValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && /^\s*-?\d*\.?\d+(e[+-]?\d+)?\s*$/i.test(value)) return parseFloat(value);
+  throw new FormulaError(`Expected a number but got "${toText(value)}"`);
+};
+
+const toDate = (value: FormulaValue): Date => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  throw new FormulaError(`Expected a date but got "${toText(value)}"`);
+};
+
+const toText = (value: FormulaValue): string => {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+const toBoolean = (value: FormulaValue): boolean => {
+  if (typeof value === 'string') return value.trim() !== '' && value.toLowerCase() !== 'false';
+  return Boolean(value);
+};
+
+const compare = (left: FormulaValue, right: FormulaValue): number => {
+  if (left instanceof Date || right instanceof Date) {
+    return toDate(left).getTime() - toDate(right).getTime();
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    return toNumber(left) - toNumber(right);
+  }
+  return toText(left).localeCompare(toText(right));
+};
+
+type FormulaFunction = (args: FormulaValue[]) => FormulaValue;
+
+const dateDifference = (difference: (to: Date, from: Date) => number): FormulaFunction => ([from, to]) =>
+  isBlank(from) || isBlank(to) ? null : difference(toDate(to), toDate(from));
+
+const numeric = (fn: (value: number) => number): FormulaFunction => ([value]) =>
+  isBlank(value) ? null : fn(toNumber(value));
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  // "if" is evaluated lazily in evaluate(); this entry only registers the name
+  if: ([condition, whenTrue, whenFalse = null]) => (toBoolean(condition) ? whenTrue : whenFalse),
+  today: () => startOfDay(new Date()),
+  now: () => new Date(),
+  date: ([value]) => (isBlank(value) ? null : toDate(value)),
+  days: dateDifference(differenceInCalendarDays),
+  months: dateDifference(differenceInMonths),
+  years: dateDifference(differenceInYears),
+  year: ([value]) => (isBlank(value) ? null : toDate(value).getFullYear()),
+  month: ([value]) => (isBlank(value) ? null : toDate(value).getMonth() + 1),
+  day: ([value]) => (isBlank(value) ? null : toDate(value).getDate()),
+  round: ([value, digits = 0]) => {
+    if (isBlank(value)) return null;
+    const factor = Math.pow(10, toNumber(digits));
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  floor: numeric(Math.floor),
+  ceil: numeric(Math.ceil),
+  abs: numeric(Math.abs),
+  min: (args) => {
+    const numbers = args.filter(arg => !isBlank(arg)).map(toNumber);
+    return numbers.length ? Math.min(...numbers) : null;
+  },
+  max: (args) => {
+    const numbers = args.filter(arg => !isBlank(arg)).map(toNumber);
+    return numbers.length ? Math.max(...numbers) : null;
+  },
+  concat: (args) => args.map(toText).join(''),
+  upper: ([value]) => toText(value).toUpperCase(),
+  lower: ([value]) => toText(value).toLowerCase(),
+  trim: ([value]) => toText(value).trim(),
+  len: ([value]) => toText(value).length,
+  blank: ([value]) => isBlank(value),
+  coalesce: (args) => args.find(arg => !isBlank(arg)) ?? null,
+};
+
+export const formulaFunctionNames = Object.keys(FUNCTIONS);
+
+const applyBinary = (operator: string, left: FormulaValue, right: FormulaValue): FormulaValue => {
+  switch (operator) {
+    case '&':
+      return toText(left) + toText(right);
+    case '=':
+      if (isBlank(left) || isBlank(right)) return isBlank(left) && isBlank(right);
+      return compare(left, right) === 0;
+    case '!=':
+      if (isBlank(left) || isBlank(right)) return isBlank(left) !== isBlank(right);
+      return compare(left, right) !== 0;
+  }
+
+  if (isBlank(left) || isBlank(right)) {
+    // Text concatenation treats blanks as empty text; everything else stays blank
+    if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+      return toText(left) + toText(right);
+    }
+    return null;
+  }
+
+  switch (operator) {
+    case '<':
+      return compare(left, right) < 0;
+    case '<=':
+      return compare(left, right) <= 0;
+    case '>':
+      return compare(left, right) > 0;
+    case '>=':
+      return compare(left, right) >= 0;
+    case '+':
+      if (left instanceof Date) return addDays(left, toNumber(right));
+      if (right instanceof Date) return addDays(right, toNumber(left));
+      if (typeof left === 'string' || typeof right === 'string') {
+        // Numeric text (e.g. a stored number) still adds up
+        try {
+          return toNumber(left) + toNumber(right);
+        } catch (error) {
+          return toText(left) + toText(right);
+        }
+      }
+      return toNumber(left) + toNumber(right);
+    case '-':
+      if (left instanceof Date && right instanceof Date) return differenceInCalendarDays(left, right);
+      if (left instanceof Date) return addDays(left, -toNumber(right));
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/': {
+      const divisor = toNumber(right);
+      return divisor === 0 ? null : toNumber(left) / divisor;
+    }
+    case '%': {
+      const divisor = toNumber(right);
+      return divisor === 0 ? null : toNumber(left) % divisor;
+    }
+    default:
+      throw new FormulaError(`Unknown operator "${operator}"`);
+  }
+};
+
+const evaluate = (node: FormulaNode, resolve: (name: string) => FormulaValue): FormulaValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'reference':
+      return resolve(node.name);
+    case 'unary': {
+      const value = evaluate(node.operand, resolve);
+      if (node.operator === 'not') return !toBoolean(value);
+      return isBlank(value) ? null : -toNumber(value);
+    }
+    case 'binary': {
+      // and/or short-circuit so guards like {Revenue} != null and ... work
+      if (node.operator === 'and') {
+        return toBoolean(evaluate(node.left, resolve)) && toBoolean(evaluate(node.right, resolve));
+      }
+      if (node.operator === 'or') {
+        return toBoolean(evaluate(node.left, resolve)) || toBoolean(evaluate(node.right, resolve));
+      }
+      return applyBinary(node.operator, evaluate(node.left, resolve), evaluate(node.right, resolve));
+    }
+    case 'call': {
+      if (node.name === 'if') {
+        if (node.args.length < 2 || node.args.length > 3) {
+          throw new FormulaError('if() takes a condition, a value when true and optionally a value when false');
+        }
+        const [condition, whenTrue, whenFalse] = node.args;
+        if (toBoolean(evaluate(condition, resolve))) return evaluate(whenTrue, resolve);
+        return whenFalse ? evaluate(whenFalse, resolve) : null;
+      }
+      return FUNCTIONS[node.name](node.args.map(arg => evaluate(arg, resolve)));
+    }
+  }
+};
+
+const collectReferences = (node: FormulaNode, names: Set<string>) => {
+  switch (node.kind) {
+    case 'reference':
+      names.add(node.name);
+      break;
+    case 'unary':
+      collectReferences(node.operand, names);
+      break;
+    case 'binary':
+      collectReferences(node.left, names);
+      collectReferences(node.right, names);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, names));
+      break;
+  }
+};
+
+// Parsed formulas are cached since the same expression is evaluated for every customer
+const parsedFormulas = new Map<string, FormulaNode>();
+
+const parseCached = (expression: string): FormulaNode => {
+  let tree = parsedFormulas.get(expression);
+  if (!tree) {
+    tree = parse(expression);
+    parsedFormulas.set(expression, tree);
+  }
+  return tree;
+};
+
+// Names referenced by a formula, as written (without braces); throws FormulaError on syntax errors
+export const getFormulaReferences = (expression: string): string[] => {
+  const names = new Set<string>();
+  collectReferences(parseCached(expression), names);
+  return [...names];
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const findField = (fields: CustomField[], name: string) =>
+  fields.find(field => normalizeName(field.name) === normalizeName(name));
+
+const findBaseField = (name: string) =>
+  Object.keys(formulaBaseFields).find(key => key.toLowerCase() === normalizeName(name));
+
+/**
+ * Check a formula before it is saved: syntax, unknown references and circular
+ * references through other formula fields. Returns an error message or null.
+ */
+export const validateFormula = (
+  expression: string,
+  fields: CustomField[],
+  fieldId?: string
+): string | null => {
+  if (!expression.trim()) return 'Formula is required';
+
+  try {
+    const visit = (formula: string, path: string[]): string | null => {
+      for (const name of getFormulaReferences(formula)) {
+        const field = findField(fields, name);
+        if (!field) {
+          if (findBaseField(name)) continue;
+          return `Unknown field "${name}"`;
+        }
+        if (field.id === fieldId || path.includes(field.id)) {
+          return `Circular reference through "${field.name}"`;
+        }
+        if (field.type === 'formula' && field.formula) {
+          const error = visit(field.formula, [...path, field.id]);
+          if (error) return error;
+        }
+      }
+      return null;
+    };
+    return visit(expression, []);
+  } catch (error) {
+    return error instanceof FormulaError ? error.message : 'Invalid formula';
+  }
+};
+
+// The customer data a formula can see; the form passes its in-progress values in the same shape
+export type FormulaRecord = Pick<Customer, 'name' | 'dob' | 'phone' | 'email' | 'occupation' | 'location'> & {
+  createdAt?: Date;
+  updatedAt?: Date;
+  customFields: { id: string; value?: CustomFieldValue }[];
+};
+
+export interface FormulaResult {
+  value: FormulaValue;
+  error: string | null;
+}
+
+const toFormulaValue = (field: CustomField, value: CustomFieldValue | undefined): FormulaValue => {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.type === 'date' && !(value instanceof Date)) {
+    const date = new Date(value as string);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  if (field.type === 'number' && typeof value === 'string' && value.trim() !== '') {
+    const number = parseFloat(value);
+    return isNaN(number) ? value : number;
+  }
+  if (field.type === 'boolean' && typeof value === 'string') return value === 'true';
+  return value as FormulaValue;
+};
+
+/**
+ * Evaluate every formula field for one customer.
+ * Formulas may reference other formula fields; each is computed once and
+ * circular references are reported as errors instead of recursing forever.
+ */
+export const computeFormulaFields = (
+  record: FormulaRecord,
+  fields: CustomField[]
+): Map<string, FormulaResult> => {
+  const results = new Map<string, FormulaResult>();
+  const inProgress = new Set<string>();
+  const storedValues = new Map(
+    (record.customFields || []).map(field => [field.id?.toString(), field.value])
+  );
+
+  const computeField = (field: CustomField): FormulaValue => {
+    const cached = results.get(field.id);
+    if (cached) {
+      if (cached.error) throw new FormulaError(cached.error);
+      return cached.value;
+    }
+    if (inProgress.has(field.id)) throw new FormulaError(`Circular reference through "${field.name}"`);
+
+    inProgress.add(field.id);
+    let result: FormulaResult;
+    try {
+      const value = evaluate(parseCached(field.formula || ''), resolve);
+      result = { value: typeof value === 'number' && !isFinite(value) ? null : value, error: null };
+    } catch (error) {
+      result = { value: null, error: error instanceof FormulaError ? error.message : 'Invalid formula' };
+    }
+    inProgress.delete(field.id);
+    results.set(field.id, result);
+
+    if (result.error) throw new FormulaError(result.error);
+    return result.value;
+  };
+
+  const resolve = (name: string): FormulaValue => {
+    const field = findField(fields, name);
+    if (field) {
+      return field.type === 'formula' ? computeField(field) : toFormulaValue(field, storedValues.get(field.id));
+    }
+    const baseKey = findBaseField(name);
+    if (baseKey) {
+      const value = record[baseKey as keyof FormulaRecord] as FormulaValue | undefined;
+      return value ?? null;
+    }
+    throw new FormulaError(`Unknown field "${name}"`);
+  };
+
+  fields
+    .filter(field => field.type === 'formula')
+    .forEach(field => {
+      try {
+        computeField(field);
+      } catch (error) {
+        // The error is recorded in results; keep computing the other fields
+      }
+    });
+
+  return results;
+};
+
+/**
+ * Custom field values of a customer keyed by field id, with formula fields
+ * filled in from their computed result.
+ */
+export const getCustomFieldValues = (
+  record: FormulaRecord,
+  fields: CustomField[]
+): Map<string, CustomFieldValue | undefined> => {
+  const values = new Map<string, CustomFieldValue | undefined>(
+    (record.customFields || []).map(field => [field.id?.toString(), field.value])
+  );
+  computeFormulaFields(record, fields).forEach((result, id) => values.set(id, result.value));
+  return values;
+};
@@ -0,0 +1,68 @@
+import type { ColumnOrderState, SortingState, VisibilityState } from '@tanstack/react-table';
+import { CustomerFilterGroup, parseCustomerFilterGroup } from '@/utils/customerFilter';
+import { CustomerTableLayout, parseCustomerTableLayout } from '@/utils/tableLayout';
+
+// What a saved view brings back on the customer list. Column widths and pinning stay
+// with each user's own table layout.
+export interface CustomerViewState {
+  viewMode: 'list' | 'grid';
+  search: string;
+  tagIds: string[];
+  filter: CustomerFilterGroup;
+  sorting: SortingState;
+  columnOrder: ColumnOrderState;
+  columnVisibility: VisibilityState; // Only hidden columns are listed, as false
+}
+
+// A named view of the customer list, owned by one user and optionally shared with the team
+export interface SavedView {
+  id: string;
+  name: string;
+  shared: boolean;
+  ownerId: string;
+  ownerName: string;
+  isOwner: boolean; // Only the owner can rename, share, overwrite or delete it
+  isDefault: boolean; // The view the current user's customer list opens with
+  state: CustomerViewState;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MAX_VIEW_NAME_LENGTH = 100;
+
+/**
+ * Turn a stored view state into a valid one. Malformed parts fall back to the plain
+ * customer list; tags and fields deleted since are ignored by the list.
+ */
+export const parseCustomerViewState = (value: unknown): CustomerViewState => {
+  const state = typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  const layout = parseCustomerTableLayout(state);
+
+  return {
+    viewMode: state.viewMode === 'list' ? 'list' : 'grid',
+    search: typeof state.search === 'string' ? state.search : '',
+    tagIds: Array.isArray(state.tagIds) ? state.tagIds.map(String) : [],
+    filter: parseCustomerFilterGroup(state.filter),
+    sorting: layout.sorting,
+    columnOrder: layout.columnOrder,
+    columnVisibility: layout.columnVisibility,
+  };
+};
+
+// The table layout with the columns and sort of a view; widths and pinning are kept
+export const applyViewToLayout = (layout: CustomerTableLayout, state: CustomerViewState): CustomerTableLayout => ({
+  ...layout,
+  sorting: state.sorting,
+  columnOrder: state.columnOrder,
+  columnVisibility: state.columnVisibility,
+});
+
+// Whether the list still shows what a view saved, so there is nothing to save
+export const isSameViewState = (a: CustomerViewState, b: CustomerViewState): boolean =>
+  JSON.stringify(parseCustomerViewState(a)) === JSON.stringify(parseCustomerViewState(b));
+
+// Own views first, then those shared by the rest of the team, each by name
+export const sortSavedViews = (views: SavedView[]): SavedView[] =>
+  [...views].sort((a, b) => Number(b.isOwner) - Number(a.isOwner) || a.name.localeCompare(b.name));
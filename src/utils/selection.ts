@@ -0,0 +1,27 @@
+/**
+ * Toggle `id` in a selection of ids. With `range` (a shift-click), every id between
+ * the anchor (the id toggled before) and `id` in the displayed order takes the new
+ * state of `id`, like a file manager.
+ */
+export const toggleSelection = (
+  selected: string[],
+  orderedIds: string[],
+  id: string,
+  anchorId: string | null,
+  range: boolean
+): string[] => {
+  const selectedSet = new Set(selected);
+  const select = !selectedSet.has(id);
+  let ids = [id];
+
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const to = orderedIds.indexOf(id);
+  if (range && from !== -1 && to !== -1) {
+    ids = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+  }
+
+  const idSet = new Set(ids);
+  return select
+    ? [...selected, ...ids.filter(entry => !selectedSet.has(entry))]
+    : selected.filter(entry => !idSet.has(entry));
+};
@@ -0,0 +1,63 @@
+import type {
+  ColumnOrderState,
+  ColumnPinningState,
+  ColumnSizingState,
+  SortingState,
+  VisibilityState
+} from '@tanstack/react-table';
+
+// Layout of the customer table, kept per user between visits. Columns are identified by
+// the built-in field key, `tags`, or `custom:<field id>`.
+export interface CustomerTableLayout {
+  columnOrder: ColumnOrderState; // Columns missing from the order follow in their default place
+  columnVisibility: VisibilityState; // Only hidden columns are listed, as false
+  columnSizing: ColumnSizingState; // Widths in pixels of resized columns
+  columnPinning: ColumnPinningState;
+  sorting: SortingState; // Multi-column sort, the first entry sorts first
+}
+
+// Preference key the layout is saved under
+export const CUSTOMER_TABLE_LAYOUT_KEY = 'customer-table-layout';
+
+export const DEFAULT_CUSTOMER_TABLE_LAYOUT: CustomerTableLayout = {
+  columnOrder: [],
+  columnVisibility: {},
+  columnSizing: {},
+  columnPinning: { left: [], right: [] },
+  sorting: [{ id: 'name', desc: false }],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
+const pickEntries = <T>(value: unknown, accept: (entry: unknown) => entry is T): Record<string, T> =>
+  isRecord(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, T] => accept(entry[1])))
+    : {};
+
+/**
+ * Turn a stored layout (or null) into a valid one. Malformed parts fall back to the
+ * default; columns that no longer exist are ignored by the table.
+ */
+export const parseCustomerTableLayout = (value: unknown): CustomerTableLayout => {
+  if (!isRecord(value)) return DEFAULT_CUSTOMER_TABLE_LAYOUT;
+
+  const pinning = isRecord(value.columnPinning) ? value.columnPinning : {};
+  const sorting = Array.isArray(value.sorting)
+    ? value.sorting
+        .filter(isRecord)
+        .filter(entry => typeof entry.id === 'string')
+        .map(entry => ({ id: entry.id as string, desc: entry.desc === true }))
+    : DEFAULT_CUSTOMER_TABLE_LAYOUT.sorting;
+
+  return {
+    columnOrder: toStringArray(value.columnOrder),
+    columnVisibility: pickEntries(value.columnVisibility, (entry): entry is boolean => typeof entry === 'boolean'),
+    columnSizing: pickEntries(value.columnSizing, (entry): entry is number => typeof entry === 'number' && entry > 0),
+    columnPinning: { left: toStringArray(pinning.left), right: toStringArray(pinning.right) },
+    sorting,
+  };
+};
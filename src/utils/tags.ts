@@ -0,0 +1,22 @@
+import { Customer, CustomerTag } from '@/utils/data';
+
+// Mirrors server/utils/tags.js
+export const MAX_TAG_LENGTH = 50;
+
+// Trim and collapse whitespace; names that end up empty cannot be used
+export const normalizeTagName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+
+// Tag names are unique regardless of case
+export const isSameTagName = (a: string, b: string): boolean =>
+  normalizeTagName(a).toLowerCase() === normalizeTagName(b).toLowerCase();
+
+export const findTagByName = (tags: CustomerTag[], name: string): CustomerTag | undefined =>
+  tags.find(tag => isSameTagName(tag.name, name));
+
+export const sortTags = (tags: CustomerTag[]): CustomerTag[] =>
+  [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+// Whether the customer carries every one of the given tags
+export const customerHasTags = (customer: Customer, tagIds: string[]): boolean =>
+  tagIds.every(id => (customer.tags || []).some(tag => tag.id.toString() === id));
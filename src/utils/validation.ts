@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import {
+  CustomField,
+  CustomFieldValue,
+  getCustomFieldOptionValues,
+  isComputedFieldType,
+  isEmptyCustomFieldValue
+} from '@/utils/data';
+import { getVisibleFieldIds } from '@/utils/visibility';
+
+// Text-like fields support max length and pattern rules
+export const fieldTypeSupportsTextRules = (type: string): boolean =>
+  ['text', 'url', 'email', 'phone'].includes(type);
+
+// Fields whose values identify a customer can be marked unique
+export const fieldTypeSupportsUnique = (type: string): boolean =>
+  fieldTypeSupportsTextRules(type) || type === 'number';
+
+// Unique values are compared ignoring case and surrounding whitespace
+export const normalizeUniqueValue = (value: CustomFieldValue): string =>
+  String(value).trim().toLowerCase();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isValidUrl = (value: string): boolean => {
+  try {
+    const url = new URL(/^[a-z][a-z\d+\-.]*:\/\//i.test(value) ? value : `https://${value}`);
+    return url.hostname.includes('.');
+  } catch (error) {
+    return false;
+  }
+};
+
+// Parse a yyyy-MM-dd rule boundary as local midnight
+const parseRuleDate = (value: string): Date => new Date(`${value}T00:00:00`);
+
+const formatRuleDate = (value: string): string => format(parseRuleDate(value), 'PP');
+
+/**
+ * Check a single custom field value against its type and validation rules.
+ * Returns the first error message, or null when the value is valid.
+ */
+export const validateCustomFieldValue = (
+  field: CustomField,
+  value: CustomFieldValue | undefined
+): string | null => {
+  const rules = field.validation || {};
+
+  // Computed values are not entered by the user
+  if (isComputedFieldType(field.type)) return null;
+
+  if (isEmptyCustomFieldValue(value)) {
+    return rules.required ? `${field.name} is required` : null;
+  }
+
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value));
+      if (isNaN(number)) return `${field.name} must be a number`;
+      if (rules.min !== undefined && rules.min !== null && number < rules.min) {
+        return `${field.name} must be at least ${rules.min}`;
+      }
+      if (rules.max !== undefined && rules.max !== null && number > rules.max) {
+        return `${field.name} must be at most ${rules.max}`;
+      }
+      return null;
+    }
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(String(value));
+      if (isNaN(date.getTime())) return `${field.name} must be a valid date`;
+      if (rules.minDate && date < parseRuleDate(rules.minDate)) {
+        return `${field.name} must be on or after ${formatRuleDate(rules.minDate)}`;
+      }
+      if (rules.maxDate) {
+        const endOfMaxDay = parseRuleDate(rules.maxDate);
+        endOfMaxDay.setDate(endOfMaxDay.getDate() + 1);
+        if (date >= endOfMaxDay) {
+          return `${field.name} must be on or before ${formatRuleDate(rules.maxDate)}`;
+        }
+      }
+      return null;
+    }
+    case 'select':
+      if (field.options && !getCustomFieldOptionValues(field.options).includes(String(value))) {
+        return `${field.name} must be one of the available options`;
+      }
+      return null;
+    case 'multiselect': {
+      const values = Array.isArray(value) ? value : [String(value)];
+      const optionValues = getCustomFieldOptionValues(field.options);
+      if (field.options && values.some(item => !optionValues.includes(item))) {
+        return `${field.name} contains an option that is not available`;
+      }
+      return null;
+    }
+    case 'boolean':
+      return null;
+    case 'relation':
+      // Linked customers are picked from search results; the server checks they still exist
+      return null;
+    default: {
+      const text = String(value);
+      if (field.type === 'email' && !EMAIL_PATTERN.test(text)) {
+        return `${field.name} must be a valid email address`;
+      }
+      if (field.type === 'url' && !isValidUrl(text)) {
+        return `${field.name} must be a valid URL`;
+      }
+      if (rules.maxLength && text.length > rules.maxLength) {
+        return `${field.name} must be at most ${rules.maxLength} characters`;
+      }
+      if (rules.pattern) {
+        try {
+          if (!new RegExp(rules.pattern).test(text)) {
+            return rules.patternMessage || `${field.name} has an invalid format`;
+          }
+        } catch (error) {
+          console.warn(`Invalid pattern for field ${field.name}:`, error);
+        }
+      }
+      return null;
+    }
+  }
+};
+
+// Rules for the built-in customer fields, shared by the customer form and inline editing
+export const customerBaseSchema = z.object({
+  name: z.string().min(2, { message: 'Name must be at least 2 characters' }),
+  dob: z.date().nullable().optional(),
+  phone: z.string().min(5, { message: 'Phone number must be valid' }),
+  email: z.string().email({ message: 'Please enter a valid email address' }),
+  occupation: z.string().min(2, { message: 'Occupation must be at least 2 characters' }),
+  location: z.string().min(2, { message: 'Location must be at least 2 characters' }),
+});
+
+export type CustomerBaseField = keyof typeof customerBaseSchema.shape;
+
+/**
+ * Check a single built-in customer field value against the form's rules.
+ * Returns the first error message, or null when the value is valid.
+ */
+export const validateCustomerBaseField = (key: CustomerBaseField, value: unknown): string | null => {
+  const result = customerBaseSchema.shape[key].safeParse(value);
+  return result.success ? null : result.error.issues[0]?.message || 'Invalid value';
+};
+
+// Build a zod schema for the `customFields` record of the customer form.
+// Fields hidden by their show-when conditions are not validated.
+export const buildCustomFieldsSchema = (fields: CustomField[]) =>
+  z.record(z.any()).superRefine((values, ctx) => {
+    const visibleFieldIds = getVisibleFieldIds(fields, new Map(Object.entries(values)));
+
+    fields
+      .filter(field => visibleFieldIds.has(field.id.toString()))
+      .forEach(field => {
+        const message = validateCustomFieldValue(field, values[field.id.toString()]);
+        if (message) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field.id.toString()] });
+        }
+      });
+  });
@@ -0,0 +1,128 @@
+import { format } from 'date-fns';
+import {
+  CustomField,
+  CustomFieldCondition,
+  CustomFieldConditionOperator,
+  CustomFieldValue,
+  findCustomFieldOption,
+  isEmptyCustomFieldValue
+} from '@/utils/data';
+
+export const conditionOperatorLabels: Record<CustomFieldConditionOperator, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  contains: 'contains',
+  greaterThan: 'is greater than',
+  lessThan: 'is less than',
+  isEmpty: 'is empty',
+  isNotEmpty: 'is not empty',
+};
+
+export const conditionOperators = Object.keys(conditionOperatorLabels) as CustomFieldConditionOperator[];
+
+// Operators that compare against a value (the others only look at emptiness)
+export const conditionNeedsValue = (operator: CustomFieldConditionOperator): boolean =>
+  operator !== 'isEmpty' && operator !== 'isNotEmpty';
+
+// Formula fields cannot drive conditions: the server has to evaluate them without the formula engine.
+// Relation values are customer ids, which make no sense to compare against.
+export const canDriveConditions = (field: CustomField): boolean =>
+  field.type !== 'formula' && field.type !== 'relation';
+
+// Dates compare by calendar day (yyyy-MM-dd), everything else as case-insensitive text
+const toComparableText = (value: CustomFieldValue, type?: string): string => {
+  if (value instanceof Date || type === 'date') {
+    const date = value instanceof Date ? value : new Date(value as string);
+    if (!isNaN(date.getTime())) return format(date, 'yyyy-MM-dd');
+  }
+  return String(value).trim().toLowerCase();
+};
+
+const toComparableNumber = (value: CustomFieldValue): number => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && isNaN(Number(value))) return new Date(value).getTime();
+  return Number(value);
+};
+
+const matchesCondition = (
+  condition: CustomFieldCondition,
+  value: CustomFieldValue | undefined,
+  type?: string
+): boolean => {
+  const empty = isEmptyCustomFieldValue(value);
+  if (condition.operator === 'isEmpty') return empty;
+  if (condition.operator === 'isNotEmpty') return !empty;
+  if (empty) return condition.operator === 'notEquals';
+
+  const expected = (condition.value ?? '').trim().toLowerCase();
+  const items = Array.isArray(value)
+    ? value.map(item => toComparableText(item))
+    : [toComparableText(value as CustomFieldValue, type)];
+
+  switch (condition.operator) {
+    case 'equals':
+      return items.length === 1 && items[0] === expected;
+    case 'notEquals':
+      return !(items.length === 1 && items[0] === expected);
+    case 'contains':
+      return Array.isArray(value) ? items.includes(expected) : items[0].includes(expected);
+    case 'greaterThan':
+      return toComparableNumber(value as CustomFieldValue) > toComparableNumber(condition.value ?? '');
+    case 'lessThan':
+      return toComparableNumber(value as CustomFieldValue) < toComparableNumber(condition.value ?? '');
+    default:
+      return true;
+  }
+};
+
+/**
+ * Work out which fields are visible for a set of values.
+ * A field whose source field is itself hidden sees that source as empty,
+ * so chains of conditions collapse the way users expect.
+ */
+export const getVisibleFieldIds = (
+  fields: CustomField[],
+  values: Map<string, CustomFieldValue | undefined>
+): Set<string> => {
+  const visibility = new Map<string, boolean>();
+  const inProgress = new Set<string>();
+  const byId = new Map(fields.map(field => [field.id.toString(), field]));
+
+  const isVisible = (field: CustomField): boolean => {
+    const id = field.id.toString();
+    if (visibility.has(id)) return visibility.get(id) as boolean;
+    const conditions = field.visibility?.conditions || [];
+    if (conditions.length === 0) return true;
+    // A condition loop cannot be satisfied; hide the fields involved
+    if (inProgress.has(id)) return false;
+
+    inProgress.add(id);
+    const results = conditions.map(condition => {
+      const source = byId.get(condition.fieldId);
+      const value = source && isVisible(source) ? values.get(condition.fieldId) : null;
+      return matchesCondition(condition, value, source?.type);
+    });
+    inProgress.delete(id);
+
+    const visible = field.visibility?.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+    visibility.set(id, visible);
+    return visible;
+  };
+
+  return new Set(fields.filter(isVisible).map(field => field.id.toString()));
+};
+
+// Readable summary of a field's conditions, e.g. "Customer Type is Corporate"
+export const describeVisibility = (field: CustomField, fields: CustomField[]): string | null => {
+  const conditions = field.visibility?.conditions || [];
+  if (conditions.length === 0) return null;
+
+  const parts = conditions.map(condition => {
+    const source = fields.find(entry => entry.id.toString() === condition.fieldId);
+    const label = `${source?.name ?? 'Unknown field'} ${conditionOperatorLabels[condition.operator]}`;
+    if (!conditionNeedsValue(condition.operator)) return label;
+    const value = condition.value ?? '';
+    return `${label} ${findCustomFieldOption(source?.options, value)?.label ?? value}`;
+  });
+  return parts.join(field.visibility?.match === 'any' ? ' or ' : ' and ');
+};